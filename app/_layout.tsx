@@ -2,13 +2,17 @@ import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native
 import { useFonts } from 'expo-font';
 import { Stack } from 'expo-router';
 import * as SplashScreen from 'expo-splash-screen';
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
+import { StyleSheet, View } from 'react-native';
 import {
   configureReanimatedLogger,
   ReanimatedLogLevel,
 } from 'react-native-reanimated';
 
 import { useColorScheme } from '@/src/hooks/useColorScheme';
+import { useTranslation } from '@/src/hooks/useTranslation';
+import { useLibraryHydrated } from '@/src/store/libraryStore';
+import { ProfilePicker } from '@/src/components/profiles/ProfilePicker';
 
 SplashScreen.preventAutoHideAsync();
 
@@ -22,35 +26,114 @@ export default function RootLayout() {
   const [loaded, error] = useFonts({
     SpaceMono: require('../src/assets/fonts/SpaceMono-Regular.ttf'),
   });
+  // Favorites and resume points must be restored before anything renders
+  const libraryHydrated = useLibraryHydrated();
+  const ready = (loaded || !!error) && libraryHydrated;
+  // Asked on every launch, before anything that depends on the profile renders
+  const [profileChosen, setProfileChosen] = useState(false);
+  // Mirrors every row, and start/end positions, for right-to-left languages
+  const { isRTL } = useTranslation();
+  const directionStyle = [styles.root, isRTL && styles.rtl];
 
   useEffect(() => {
-    if (loaded || error) {
+    if (ready) {
       SplashScreen.hideAsync();
       if (error) {
         console.warn(`Error in loading fonts: ${error}`);
       }
     }
-  }, [loaded, error]);
+  }, [ready, error]);
 
-  if (!loaded && !error) {
+  if (!ready) {
     return null;
   }
 
+  if (!profileChosen) {
+    return (
+      <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
+        <View style={directionStyle}>
+          <ProfilePicker onDone={() => setProfileChosen(true)} />
+        </View>
+      </ThemeProvider>
+    );
+  }
+
   return (
     <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-      <Stack
-        screenOptions={{
-          headerShown: false,
-        }}
-      >
-        <Stack.Screen
-          name="index"
-          options={{
-            title: 'Home',
+      <View style={directionStyle}>
+        <Stack
+          screenOptions={{
+            headerShown: false,
           }}
-        />
+        >
+          <Stack.Screen
+            name="index"
+            options={{
+              title: 'Home',
+            }}
+          />
+          <Stack.Screen
+            name="video/[id]"
+            options={{
+              title: 'Details',
+            }}
+          />
+          <Stack.Screen
+            name="play/[id]"
+            options={{
+              title: 'Player',
+              animation: 'fade',
+            }}
+          />
+          <Stack.Screen
+            name="live"
+            options={{
+              title: 'Live TV',
+            }}
+          />
+          <Stack.Screen
+            name="channel/[id]"
+            options={{
+              title: 'Channel',
+              animation: 'fade',
+            }}
+          />
+          <Stack.Screen
+            name="search"
+            options={{
+              title: 'Search',
+            }}
+          />
+          <Stack.Screen
+            name="profiles"
+            options={{
+              title: 'Profiles',
+            }}
+          />
+          <Stack.Screen
+            name="parental"
+            options={{
+              title: 'Parental Controls',
+            }}
+          />
+          <Stack.Screen
+            name="diagnostics"
+            options={{
+              title: 'Diagnostics',
+            }}
+          />
 
-      </Stack>
+        </Stack>
+      </View>
     </ThemeProvider>
   );
 }
+
+const styles = StyleSheet.create({
+  root: {
+    flex: 1,
+  },
+  rtl: {
+    direction: 'rtl',
+  },
+});
@@ -0,0 +1,105 @@
+import React, { useCallback, useMemo } from 'react';
+import { StyleSheet } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { ThemedText } from '@/src/components/ThemedText';
+import { ThemedView } from '@/src/components/ThemedView';
+import { VideoPlayer } from '@/src/components/video/VideoPlayer';
+import { PinChallenge } from '@/src/components/parental/PinChallenge';
+import { useLibraryStore } from '@/src/store/libraryStore';
+import { useVideoData } from '@/src/hooks/useVideoData';
+import { useLiveChannels } from '@/src/hooks/useLiveChannels';
+import { useProgramGuide } from '@/src/hooks/useProgramGuide';
+import { useParentalControls } from '@/src/hooks/useParentalControls';
+import { useNow } from '@/src/hooks/useNow';
+import { useTextStyles } from '@/src/hooks/useTextStyles';
+import { useTranslation } from '@/src/hooks/useTranslation';
+import { adjacentChannel, channelAsVideo, guideIdOf } from '@/src/live/channels';
+import { findProgrammeAt } from '@/src/live/guide';
+import { LivePlayback } from '@/src/types/video';
+import NotFoundScreen from '../+not-found';
+
+export default function ChannelScreen() {
+  const textStyles = useTextStyles();
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { t } = useTranslation();
+  const { isLoading } = useVideoData();
+  const channel = useLibraryStore((state) => state.channels.find((candidate) => candidate.id === id));
+  // Channel up/down only goes through the channels this profile can see
+  const lineup = useLiveChannels();
+  const guideUrl = useLibraryStore((state) => state.guideUrl);
+  const { programmes } = useProgramGuide(guideUrl);
+  const now = useNow();
+  const unlockTitle = useLibraryStore((state) => state.unlockTitle);
+  const { isRestricted } = useParentalControls();
+
+  const video = useMemo(() => (channel ? channelAsVideo(channel) : undefined), [channel]);
+  const isLocked = !!video && isRestricted(video);
+  const programme = channel ? findProgrammeAt(programmes.get(guideIdOf(channel)), now) : null;
+
+  const handleClose = useCallback(() => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/live');
+    }
+  }, [router]);
+
+  // Replace rather than push, so Back leaves the player instead of stepping through every channel seen
+  const handleChangeChannel = useCallback((step: number) => {
+    const next = adjacentChannel(lineup, id, step);
+    if (next) {
+      router.replace(`/channel/${next.id}`);
+    }
+  }, [lineup, id, router]);
+
+  const live = useMemo<LivePlayback>(
+    () => ({ programme, onChangeChannel: handleChangeChannel }),
+    [programme, handleChangeChannel]
+  );
+
+  if (isLoading) {
+    return (
+      <ThemedView style={styles.container}>
+        <ThemedText style={textStyles.default}>{t('common.loading')}</ThemedText>
+      </ThemedView>
+    );
+  }
+
+  if (!channel || !video) {
+    return <NotFoundScreen />;
+  }
+
+  // Channels are unrated, so with parental controls on they need the PIN like any unrated title
+  if (isLocked) {
+    return (
+      <ThemedView style={styles.container}>
+        <PinChallenge
+          title={video.title}
+          message={t('play.restricted')}
+          onSuccess={() => unlockTitle(channel.id)}
+          onCancel={handleClose}
+        />
+      </ThemedView>
+    );
+  }
+
+  return (
+    <VideoPlayer
+      key={video.id}
+      video={video}
+      live={live}
+      onClose={handleClose}
+      onError={handleClose}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'black',
+  },
+});
@@ -0,0 +1,179 @@
+import React from 'react';
+import { StyleSheet, ScrollView, View, Pressable } from 'react-native';
+import { Stack } from 'expo-router';
+import { ThemedText } from '@/src/components/ThemedText';
+import { ThemedView } from '@/src/components/ThemedView';
+import { useLibraryStore } from '@/src/store/libraryStore';
+import { EntryReport } from '@/src/catalog/schema';
+import { useScale } from '@/src/hooks/useScale';
+import { useTextStyles } from '@/src/hooks/useTextStyles';
+import { Colors } from '@/src/constants/Colors';
+import { useColorScheme } from '@/src/hooks/useColorScheme';
+
+// Hidden screen for checking what the catalog validator made of the last payload.
+// Reached with Up, Up, Down, Down, Left, Right, Left, Right on the home screen.
+export default function DiagnosticsScreen() {
+  const textStyles = useTextStyles();
+  const styles = useDiagnosticsStyles();
+
+  const report = useLibraryStore((state) => state.validationReport);
+  const fetchedAt = useLibraryStore((state) => state.fetchedAt);
+  const staleReason = useLibraryStore((state) => state.staleReason);
+  const catalogEtag = useLibraryStore((state) => state.catalogEtag);
+  const channelCount = useLibraryStore((state) => state.channels.length);
+
+  return (
+    <ThemedView style={styles.container}>
+      <Stack.Screen options={{ title: 'Diagnostics' }} />
+      <ScrollView contentContainerStyle={styles.content}>
+        <ThemedText style={[textStyles.title, styles.heading]}>Catalog Diagnostics</ThemedText>
+
+        {!report ? (
+          <ThemedText>No catalog has been validated yet.</ThemedText>
+        ) : (
+          <>
+            <View style={styles.summary}>
+              <SummaryRow label="Source" value={report.source} />
+              <SummaryRow
+                label="Schema"
+                value={report.documentVersion === report.schemaVersion
+                  ? `v${report.schemaVersion}`
+                  : `v${report.documentVersion} migrated to v${report.schemaVersion}`}
+              />
+              <SummaryRow label="Accepted" value={`${report.acceptedCount} of ${report.totalEntries}`} />
+              <SummaryRow label="Rejected" value={String(report.rejected.length)} />
+              <SummaryRow label="Channels" value={String(channelCount)} />
+              <SummaryRow label="Validated" value={new Date(report.checkedAt).toLocaleString()} />
+              <SummaryRow label="Fetched" value={fetchedAt ? new Date(fetchedAt).toLocaleString() : 'never'} />
+              <SummaryRow label="ETag" value={catalogEtag ?? 'none'} />
+              {staleReason && <SummaryRow label="Status" value={`stale (${staleReason})`} />}
+            </View>
+
+            {report.catalogIssues.map((issue) => (
+              <ThemedText key={issue} style={styles.catalogIssue}>{issue}</ThemedText>
+            ))}
+
+            <EntrySection title="Rejected entries" entries={report.rejected} />
+            <EntrySection title="Accepted with warnings" entries={report.warnings} />
+          </>
+        )}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+function SummaryRow({ label, value }: { label: string; value: string }) {
+  const styles = useDiagnosticsStyles();
+
+  return (
+    <View style={styles.summaryRow}>
+      <ThemedText style={styles.summaryLabel}>{label}</ThemedText>
+      <ThemedText style={styles.summaryValue} numberOfLines={1}>{value}</ThemedText>
+    </View>
+  );
+}
+
+function EntrySection({ title, entries }: { title: string; entries: EntryReport[] }) {
+  const textStyles = useTextStyles();
+  const styles = useDiagnosticsStyles();
+
+  if (entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.section}>
+      <ThemedText style={[textStyles.subtitle, styles.sectionTitle]}>
+        {title} ({entries.length})
+      </ThemedText>
+      {entries.map((entry) => (
+        // Focusable so the D-pad can scroll through long reports
+        <Pressable
+          key={entry.index}
+          style={({ focused }) => [styles.entry, focused && styles.entryFocused]}
+        >
+          <ThemedText style={styles.entryTitle}>
+            #{entry.index} {entry.id ? `id ${entry.id}` : '(no id)'}{entry.title ? ` · ${entry.title}` : ''}
+          </ThemedText>
+          {entry.issues.map((issue, index) => (
+            <ThemedText
+              key={index}
+              style={[styles.issue, issue.severity === 'error' ? styles.issueError : styles.issueWarning]}
+            >
+              {issue.field} {issue.message}
+            </ThemedText>
+          ))}
+        </Pressable>
+      ))}
+    </View>
+  );
+}
+
+const useDiagnosticsStyles = function () {
+  const scale = useScale();
+  const colorScheme = useColorScheme();
+
+  return StyleSheet.create({
+    container: {
+      flex: 1,
+    },
+    content: {
+      padding: 32 * scale,
+      gap: 16 * scale,
+    },
+    heading: {
+      marginBottom: 8 * scale,
+    },
+    summary: {
+      gap: 4 * scale,
+    },
+    summaryRow: {
+      flexDirection: 'row',
+    },
+    summaryLabel: {
+      minWidth: 120 * scale,
+      fontSize: 14 * scale,
+      opacity: 0.7,
+    },
+    summaryValue: {
+      flex: 1,
+      fontSize: 14 * scale,
+      fontWeight: '600',
+    },
+    catalogIssue: {
+      fontSize: 14 * scale,
+      color: '#ffa502',
+    },
+    section: {
+      gap: 8 * scale,
+    },
+    sectionTitle: {
+      marginBottom: 4 * scale,
+    },
+    entry: {
+      padding: 12 * scale,
+      borderRadius: 8 * scale,
+      borderWidth: 2,
+      borderColor: 'transparent',
+      backgroundColor: 'rgba(127, 127, 127, 0.1)',
+    },
+    entryFocused: {
+      borderColor: Colors[colorScheme ?? 'light'].primary,
+    },
+    entryTitle: {
+      fontSize: 14 * scale,
+      fontWeight: 'bold',
+      marginBottom: 4 * scale,
+    },
+    issue: {
+      fontSize: 13 * scale,
+      lineHeight: 18 * scale,
+    },
+    issueError: {
+      color: '#ff4757',
+    },
+    issueWarning: {
+      color: '#ffa502',
+    },
+  });
+};
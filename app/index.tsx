@@ -1,13 +1,24 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { StyleSheet, FlatList, View, Dimensions, Pressable, Image, Animated } from 'react-native';
+import React, { useState, useCallback, useMemo, useRef, useEffect } from 'react';
+import { StyleSheet, ScrollView, View, Dimensions, Pressable, Image, Animated } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
+import { useRouter } from 'expo-router';
 import { ThemedText } from '@/src/components/ThemedText';
 import { ThemedView } from '@/src/components/ThemedView';
-import { VideoPlayer } from '@/src/components/video/VideoPlayer';
-import { VideoThumbnail } from '@/src/components/video/VideoThumbnail';
+import { VideoRail } from '@/src/components/video/VideoRail';
+import { OfflineBanner } from '@/src/components/OfflineBanner';
 import { useVideoData } from '@/src/hooks/useVideoData';
+import { useHomeRails } from '@/src/hooks/useHomeRails';
+import { useRemoteSequence } from '@/src/hooks/useRemoteSequence';
+import { usePlayAction } from '@/src/hooks/usePlayAction';
+import { useParentalControls } from '@/src/hooks/useParentalControls';
+import { useLiveChannels } from '@/src/hooks/useLiveChannels';
+import { useLibraryStore } from '@/src/store/libraryStore';
+import { selectActiveProfile } from '@/src/store/selectors';
+import { ProfileAvatar } from '@/src/components/profiles/ProfileAvatar';
 import { useScale } from '@/src/hooks/useScale';
 import { useTextStyles } from '@/src/hooks/useTextStyles';
+import { useTranslation } from '@/src/hooks/useTranslation';
+import { formatMaturityRating } from '@/src/parental/ratings';
 import { Video } from '@/src/types/video';
 import { Colors } from '@/src/constants/Colors';
 import { useColorScheme } from '@/src/hooks/useColorScheme';
@@ -15,65 +26,74 @@ import Ionicons from '@expo/vector-icons/Ionicons';
 
 const { width: screenWidth } = Dimensions.get('window');
 
+const DIAGNOSTICS_SEQUENCE = ['up', 'up', 'down', 'down', 'left', 'right', 'left', 'right'];
+
 export default function HomeScreen() {
   const scale = useScale();
   const textStyles = useTextStyles();
   const colorScheme = useColorScheme();
   const styles = useHomeScreenStyles();
+  const router = useRouter();
+  const { t, isRTL } = useTranslation();
 
-  const { videos, isLoading, error, toggleFavorite, isFavorite, retryLoading } = useVideoData();
+  const {
+    videos,
+    isLoading,
+    error,
+    staleReason,
+    fetchedAt,
+    toggleFavorite,
+    isFavorite,
+    retryLoading,
+  } = useVideoData();
   const [selectedVideo, setSelectedVideo] = useState<Video | null>(null);
-  const [playingVideo, setPlayingVideo] = useState<Video | null>(null);
   const [focusedVideo, setFocusedVideo] = useState<Video | null>(null);
-  const flatListRef = useRef<FlatList<Video>>(null);
+  const rails = useHomeRails(videos);
+  const { isEnabled: parentalControlsOn, isRestricted, isHidden, filterHidden } = useParentalControls();
+  const activeProfile = useLibraryStore(selectActiveProfile);
+  const hasLiveChannels = useLiveChannels().length > 0;
+  const visibleVideos = useMemo(() => filterHidden(videos), [videos, filterHidden]);
+  const railsScrollRef = useRef<ScrollView>(null);
+  const railOffsets = useRef<Record<string, number>>({});
+  // Last focused column per rail, so a rail that re-renders comes back where it was
+  const railColumns = useRef<Record<string, number>>({});
 
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const heroContentFade = useRef(new Animated.Value(0)).current;
 
-  const heroVideo = focusedVideo || videos.find(video => video.hero) || videos[0];
-  const thumbnailVideos = videos;
+  // The focused title can become hidden after switching to a kids profile
+  const heroVideo = (focusedVideo && !isHidden(focusedVideo) ? focusedVideo : null)
+    || visibleVideos.find(video => video.hero) || visibleVideos[0];
+  const heroPlayAction = usePlayAction(heroVideo);
 
-  const handleVideoSelect = useCallback((video: Video) => {
+  const handleVideoSelect = useCallback((video: Video, playId: string = video.id) => {
     setSelectedVideo(video);
-    setPlayingVideo(video);
-  }, []);
-
-  const handleVideoFocus = useCallback((video: Video) => {
-    setFocusedVideo(video);
+    router.push(`/play/${playId}`);
+  }, [router]);
 
-    const focusedIndex = thumbnailVideos.findIndex(v => v.id === video.id);
-    if (focusedIndex !== -1 && flatListRef.current) {
-      try {
-        flatListRef.current.scrollToIndex({
-          index: focusedIndex,
-          animated: true,
-          viewPosition: 0.5,
-        });
-      } catch {
-        const itemWidth = 168 * scale;
-        const padding = 24 * scale;
-        const offset = focusedIndex * itemWidth - (screenWidth / 2) + (itemWidth / 2) + padding;
-        flatListRef.current.scrollToOffset({
-          offset: Math.max(0, offset),
-          animated: true,
-        });
-      }
-    }
-  }, [thumbnailVideos, scale]);
+  const handleShowDetails = useCallback((video: Video) => {
+    setSelectedVideo(video);
+    router.push(`/video/${video.id}`);
+  }, [router]);
 
-  const handleClosePlayer = useCallback(() => {
-    setPlayingVideo(null);
-    setSelectedVideo(null);
+  const handleRailFocus = useCallback((railKey: string, video: Video, column: number) => {
+    setFocusedVideo(video);
+    railColumns.current[railKey] = column;
+    railsScrollRef.current?.scrollTo({
+      y: railOffsets.current[railKey] ?? 0,
+      animated: true,
+    });
   }, []);
 
-  const handlePlayerError = useCallback((errorMessage: string) => {
-    setPlayingVideo(null);
-    setSelectedVideo(null);
-  }, []);
+  const openDiagnostics = useCallback(() => {
+    router.push('/diagnostics');
+  }, [router]);
+
+  useRemoteSequence(DIAGNOSTICS_SEQUENCE, openDiagnostics);
 
   useEffect(() => {
-    if (videos.length > 0 && !focusedVideo) {
-      const initialVideo = videos.find(video => video.hero) || videos[0];
+    if (visibleVideos.length > 0 && !focusedVideo) {
+      const initialVideo = visibleVideos.find(video => video.hero) || visibleVideos[0];
       setFocusedVideo(initialVideo);
 
       Animated.parallel([
@@ -90,17 +110,7 @@ export default function HomeScreen() {
         }),
       ]).start();
     }
-  }, [videos, focusedVideo, fadeAnim, heroContentFade]);
-
-  if (playingVideo) {
-    return (
-      <VideoPlayer
-        video={playingVideo}
-        onClose={handleClosePlayer}
-        onError={handlePlayerError}
-      />
-    );
-  }
+  }, [visibleVideos, focusedVideo, fadeAnim, heroContentFade]);
 
   if (isLoading) {
     return (
@@ -109,10 +119,10 @@ export default function HomeScreen() {
           <View style={styles.loadingContainer}>
             <Ionicons name="tv" size={64 * scale} color={Colors[colorScheme ?? 'light'].tint} />
             <ThemedText style={[textStyles.title, styles.loadingText]}>
-              Loading Your Entertainment
+              {t('home.loadingTitle')}
             </ThemedText>
             <ThemedText style={[textStyles.default, styles.loadingSubtext]}>
-              Preparing your personalized video experience...
+              {t('home.loadingMessage')}
             </ThemedText>
             <View style={styles.loadingDots}>
               <View style={[styles.dot, styles.dot1]} />
@@ -132,7 +142,7 @@ export default function HomeScreen() {
           <View style={styles.errorContainer}>
             <Ionicons name="alert-circle" size={64 * scale} color="#ff4757" />
             <ThemedText style={[textStyles.title, styles.errorTitle]}>
-              Oops! Something went wrong
+              {t('home.errorTitle')}
             </ThemedText>
             <ThemedText style={[textStyles.default, styles.errorMessage]}>
               {error}
@@ -145,7 +155,7 @@ export default function HomeScreen() {
               onPress={retryLoading}
             >
               <Ionicons name="refresh" size={16 * scale} color={Colors.black} />
-              <ThemedText style={styles.retryButtonText}>TRY AGAIN</ThemedText>
+              <ThemedText style={styles.retryButtonText}>{t('common.tryAgain')}</ThemedText>
             </Pressable>
           </View>
         </View>
@@ -171,9 +181,9 @@ export default function HomeScreen() {
       />
       <LinearGradient
         colors={['rgba(0,0,0,0.7)', 'rgba(0,0,0,0.3)', 'transparent']}
-        start={{ x: 0, y: 0 }}
-        end={{ x: 1, y: 0 }}
-        style={styles.leftGradient}
+        start={{ x: isRTL ? 1 : 0, y: 0 }}
+        end={{ x: isRTL ? 0 : 1, y: 0 }}
+        style={styles.sideGradient}
       />
 
       {heroVideo && (
@@ -182,7 +192,62 @@ export default function HomeScreen() {
             <ThemedText style={[textStyles.largeTitle, styles.logoText]}>
               {heroVideo.title.toUpperCase()}
             </ThemedText>
-
+            <View style={styles.headerActions}>
+              {staleReason && (
+                <OfflineBanner reason={staleReason} fetchedAt={fetchedAt} onRetry={retryLoading} />
+              )}
+              <Pressable
+                style={({ pressed, focused }) => [
+                  styles.searchButton,
+                  (pressed || focused) && styles.buttonFocused,
+                ]}
+                onPress={() => router.push('/search')}
+                accessibilityLabel={t('home.search')}
+              >
+                <Ionicons name="search" size={18 * scale} color={Colors.white} />
+              </Pressable>
+              {hasLiveChannels && (
+                <Pressable
+                  style={({ pressed, focused }) => [
+                    styles.searchButton,
+                    (pressed || focused) && styles.buttonFocused,
+                  ]}
+                  onPress={() => router.push('/live')}
+                  accessibilityLabel={t('home.liveTv')}
+                >
+                  <Ionicons name="tv-outline" size={18 * scale} color={Colors.white} />
+                </Pressable>
+              )}
+              {/* Kids profiles can't reach the household's parental settings */}
+              {!activeProfile?.isKids && (
+                <Pressable
+                  style={({ pressed, focused }) => [
+                    styles.searchButton,
+                    (pressed || focused) && styles.buttonFocused,
+                  ]}
+                  onPress={() => router.push('/parental')}
+                  accessibilityLabel={t('home.parentalControls')}
+                >
+                  <Ionicons
+                    name={parentalControlsOn ? 'lock-closed' : 'lock-open-outline'}
+                    size={18 * scale}
+                    color={Colors.white}
+                  />
+                </Pressable>
+              )}
+              {activeProfile && (
+                <Pressable
+                  style={({ pressed, focused }) => [
+                    styles.profileButton,
+                    (pressed || focused) && styles.buttonFocused,
+                  ]}
+                  onPress={() => router.push('/profiles')}
+                  accessibilityLabel={t('home.switchProfile', { name: activeProfile.name })}
+                >
+                  <ProfileAvatar avatar={activeProfile.avatar} size={32} />
+                </Pressable>
+              )}
+            </View>
           </View>
 
           <View style={[styles.heroContent, { paddingHorizontal: 32 * scale }]}>
@@ -193,12 +258,18 @@ export default function HomeScreen() {
               </ThemedText>
             </View>
             <View style={styles.metaRow}>
-              <ThemedText style={styles.metaLabel}>Runtime</ThemedText>
+              <ThemedText style={styles.metaLabel}>{t('home.runtime')}</ThemedText>
               <ThemedText style={styles.metaValue}>{heroVideo.duration}</ThemedText>
             </View>
+            {heroVideo.maturityRating && (
+              <View style={styles.metaRow}>
+                <ThemedText style={styles.metaLabel}>{t('home.rating')}</ThemedText>
+                <ThemedText style={styles.metaValue}>{formatMaturityRating(heroVideo.maturityRating, t)}</ThemedText>
+              </View>
+            )}
             {heroVideo.starring && (
               <View style={styles.metaRow}>
-                <ThemedText style={styles.metaLabel}>Starring</ThemedText>
+                <ThemedText style={styles.metaLabel}>{t('common.starring')}</ThemedText>
                 <ThemedText numberOfLines={1} style={styles.metaValue}>{heroVideo.starring}</ThemedText>
               </View>
             )}
@@ -208,10 +279,10 @@ export default function HomeScreen() {
                   styles.playButton,
                   (pressed || focused) && styles.buttonFocused,
                 ]}
-                onPress={() => handleVideoSelect(heroVideo)}
+                onPress={() => handleVideoSelect(heroVideo, heroPlayAction?.playId)}
               >
-                <Ionicons name="play" size={16 * scale} color="#000" />
-                <ThemedText style={styles.playButtonText}>PLAY</ThemedText>
+                <Ionicons name={isRestricted(heroVideo) ? 'lock-closed' : 'play'} size={16 * scale} color="#000" />
+                <ThemedText style={styles.playButtonText}>{heroPlayAction?.label ?? t('common.play')}</ThemedText>
               </Pressable>
               <Pressable
                 style={({ pressed, focused }) => [
@@ -227,55 +298,38 @@ export default function HomeScreen() {
                   style={styles.buttonIcon}
                 />
                 <ThemedText style={styles.myListText}>
-                  {isFavorite(heroVideo.id) ? 'Remove From List' : 'Add to List'}
+                  {t(isFavorite(heroVideo.id) ? 'common.removeFromList' : 'common.addToList')}
                 </ThemedText>
               </Pressable>
 
             </View>
           </View>
 
-          <View  >
-            <View style={[styles.sectionHeader,{ paddingHorizontal: 32 * scale }]}>
-              <ThemedText style={styles.sectionTitle}>New</ThemedText>
-            </View>
-            <FlatList<Video>
-              ref={flatListRef}
-              data={thumbnailVideos}
-              keyExtractor={(item) => item.id}
-              contentContainerStyle={{ paddingHorizontal: 32 * scale }}
-              renderItem={({ item, index }) => (
-                <VideoThumbnail
-                  video={item}
-                  onSelect={handleVideoSelect}
-                  onFocus={handleVideoFocus}
-                  isSelected={item.id === selectedVideo?.id}
-                  isFavorite={isFavorite(item.id)}
+          <ScrollView
+            ref={railsScrollRef}
+            style={styles.railsContainer}
+            showsVerticalScrollIndicator={false}
+          >
+            {rails.map((rail) => (
+              <View
+                key={rail.key}
+                onLayout={(event) => {
+                  railOffsets.current[rail.key] = event.nativeEvent.layout.y;
+                }}
+              >
+                <VideoRail
+                  title={rail.title}
+                  videos={rail.videos}
+                  progress={rail.progress}
+                  selectedVideoId={selectedVideo?.id}
+                  isFavorite={isFavorite}
+                  initialColumn={railColumns.current[rail.key]}
+                  onSelect={handleShowDetails}
+                  onFocus={(video, column) => handleRailFocus(rail.key, video, column)}
                 />
-              )}
-              horizontal
-              showsHorizontalScrollIndicator={false}
-              removeClippedSubviews={false}
-              decelerationRate={0.85}
-              scrollEventThrottle={16}
-              initialNumToRender={8}
-              maxToRenderPerBatch={4}
-              windowSize={5}
-              getItemLayout={(data, index) => ({
-                length: 230 * scale,
-                offset: 230 * scale * index,
-                index,
-              })}
-              onScrollToIndexFailed={(info) => {
-                const wait = new Promise(resolve => setTimeout(resolve, 500));
-                wait.then(() => {
-                  flatListRef.current?.scrollToIndex({
-                    index: info.index,
-                    animated: true,
-                  });
-                });
-              }}
-            />
-          </View>
+              </View>
+            ))}
+          </ScrollView>
         </Animated.View>
       )}
     </ThemedView>
@@ -293,7 +347,7 @@ const useHomeScreenStyles = function () {
     heroBackgroundContainer: {
       position: 'absolute',
       top: 0,
-      left: 0,
+      start: 0,
       width: '100%',
       height: '100%',
       zIndex: 0,
@@ -301,7 +355,7 @@ const useHomeScreenStyles = function () {
     heroBackgroundImage: {
       position: 'absolute',
       top: 0,
-      left: 0,
+      start: 0,
       width: '100%',
       height: '100%',
       zIndex: 0,
@@ -309,15 +363,16 @@ const useHomeScreenStyles = function () {
     bottomGradient: {
       position: 'absolute',
       bottom: 0,
-      left: 0,
+      start: 0,
       width: '100%',
       height: '70%',
       zIndex: 1,
     },
-    leftGradient: {
+    // Sits behind the hero text, so it follows the layout direction
+    sideGradient: {
       position: 'absolute',
       top: 0,
-      left: 0,
+      start: 0,
       width: '60%',
       height: '100%',
       zIndex: 1,
@@ -344,6 +399,22 @@ const useHomeScreenStyles = function () {
       alignItems: 'center',
       marginBottom: 16 * scale,
     },
+    headerActions: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12 * scale,
+    },
+    searchButton: {
+      padding: 8 * scale,
+      borderRadius: 20 * scale,
+      backgroundColor: 'rgba(0, 0, 0, 0.4)',
+      borderWidth: 1,
+      borderColor: 'rgba(255, 255, 255, 0.3)',
+    },
+    profileButton: {
+      padding: 2 * scale,
+      borderRadius: 8 * scale,
+    },
     logoText: {
       fontSize: 32 * scale,
       fontWeight: 'bold',
@@ -366,7 +437,7 @@ const useHomeScreenStyles = function () {
       backdropFilter: 'blur(10px)',
     },
     buttonIcon: {
-      marginRight: 6 * scale,
+      marginEnd: 6 * scale,
     },
     myListText: {
       color: Colors.black,
@@ -451,19 +522,9 @@ const useHomeScreenStyles = function () {
       fontWeight: 'bold',
       letterSpacing: 1,
     },
-    sectionHeader: {
-      flexDirection: 'row',
-      justifyContent: 'space-between',
-      alignItems: 'center',
-      marginBottom: 16 * scale,
-    },
-    sectionTitle: {
-      color: 'white',
-      fontSize: 20 * scale,
-      fontWeight: 'bold',
-      textShadowColor: 'rgba(0, 0, 0, 0.8)',
-      textShadowOffset: { width: 1, height: 1 },
-      textShadowRadius: 3,
+    railsContainer: {
+      flexGrow: 0,
+      maxHeight: 260 * scale,
     },
     navigationHint: {
       flexDirection: 'row',
@@ -0,0 +1,132 @@
+import React, { useCallback, useState } from 'react';
+import { StyleSheet, View } from 'react-native';
+import { Stack, useRouter } from 'expo-router';
+import { ThemedText } from '@/src/components/ThemedText';
+import { ThemedView } from '@/src/components/ThemedView';
+import { GuideFocus, ProgramGuide } from '@/src/components/live/ProgramGuide';
+import { LiveChannel } from '@/src/types/live';
+import { useLibraryStore } from '@/src/store/libraryStore';
+import { useVideoData } from '@/src/hooks/useVideoData';
+import { useLiveChannels } from '@/src/hooks/useLiveChannels';
+import { useProgramGuide } from '@/src/hooks/useProgramGuide';
+import { useNow } from '@/src/hooks/useNow';
+import { useScale } from '@/src/hooks/useScale';
+import { useTextStyles } from '@/src/hooks/useTextStyles';
+import { useTranslation } from '@/src/hooks/useTranslation';
+import { Colors } from '@/src/constants/Colors';
+
+export default function LiveScreen() {
+  const textStyles = useTextStyles();
+  const styles = useLiveScreenStyles();
+  const router = useRouter();
+  const { t, formatTime } = useTranslation();
+  // Deep links can land here before anything else has loaded the catalog
+  const { isLoading } = useVideoData();
+  const channels = useLiveChannels();
+  const guideUrl = useLibraryStore((state) => state.guideUrl);
+  const { programmes, error: guideError } = useProgramGuide(guideUrl);
+  const now = useNow();
+  const [focus, setFocus] = useState<GuideFocus | null>(null);
+
+  const handleSelectChannel = useCallback((channel: LiveChannel) => {
+    router.push(`/channel/${channel.id}`);
+  }, [router]);
+
+  if (isLoading) {
+    return (
+      <ThemedView style={[styles.container, styles.centered]}>
+        <ThemedText style={textStyles.default}>{t('common.loading')}</ThemedText>
+      </ThemedView>
+    );
+  }
+
+  const programme = focus?.cell.programme;
+
+  return (
+    <ThemedView style={styles.container}>
+      <Stack.Screen options={{ title: t('live.title') }} />
+      <ThemedText style={[textStyles.title, styles.heading]}>{t('live.title')}</ThemedText>
+
+      {channels.length === 0 ? (
+        <ThemedText style={styles.hint}>{t('live.noChannels')}</ThemedText>
+      ) : (
+        <>
+          <View style={styles.details}>
+            {focus && (
+              <>
+                <ThemedText style={styles.detailsChannel}>
+                  {t('live.channelLabel', { number: focus.channel.number, name: focus.channel.name })}
+                </ThemedText>
+                <ThemedText style={styles.detailsTitle} numberOfLines={1}>
+                  {programme?.title ?? t('live.noInformation')}
+                </ThemedText>
+                {programme && (
+                  <ThemedText style={styles.hint}>
+                    {t('live.timeRange', { start: formatTime(programme.start), end: formatTime(programme.end) })}
+                    {programme.category ? ` · ${programme.category}` : ''}
+                  </ThemedText>
+                )}
+                {programme?.description && (
+                  <ThemedText style={styles.hint} numberOfLines={2}>{programme.description}</ThemedText>
+                )}
+              </>
+            )}
+          </View>
+          {guideError && <ThemedText style={styles.error}>{t('live.guideUnavailable')}</ThemedText>}
+          <ProgramGuide
+            channels={channels}
+            programmes={programmes}
+            now={now}
+            onFocusCell={setFocus}
+            onSelectChannel={handleSelectChannel}
+          />
+        </>
+      )}
+    </ThemedView>
+  );
+}
+
+const useLiveScreenStyles = function () {
+  const scale = useScale();
+
+  return StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: Colors.dark.background,
+      paddingVertical: 32 * scale,
+      paddingHorizontal: 48 * scale,
+      gap: 16 * scale,
+    },
+    centered: {
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    heading: {
+      color: 'white',
+    },
+    // Fixed height so moving through the grid doesn't shift it up and down
+    details: {
+      height: 110 * scale,
+      gap: 4 * scale,
+    },
+    detailsChannel: {
+      color: 'rgba(255, 255, 255, 0.7)',
+      fontSize: 14 * scale,
+      fontWeight: '600',
+    },
+    detailsTitle: {
+      color: 'white',
+      fontSize: 22 * scale,
+      lineHeight: 28 * scale,
+      fontWeight: 'bold',
+    },
+    hint: {
+      color: 'rgba(255, 255, 255, 0.7)',
+      fontSize: 14 * scale,
+    },
+    error: {
+      color: '#ff4757',
+      fontSize: 14 * scale,
+    },
+  });
+};
@@ -0,0 +1,267 @@
+import React, { useCallback, useState } from 'react';
+import { StyleSheet, View, Pressable } from 'react-native';
+import { Stack, useRouter } from 'expo-router';
+import { ThemedText } from '@/src/components/ThemedText';
+import { ThemedView } from '@/src/components/ThemedView';
+import { PinPad } from '@/src/components/parental/PinPad';
+import { PinChallenge } from '@/src/components/parental/PinChallenge';
+import { useLibraryStore } from '@/src/store/libraryStore';
+import { MATURITY_RATINGS, RestrictedTitleMode, formatMaturityRating } from '@/src/parental/ratings';
+import { useScale } from '@/src/hooks/useScale';
+import { useTextStyles } from '@/src/hooks/useTextStyles';
+import { useTranslation } from '@/src/hooks/useTranslation';
+import { MessageKey } from '@/src/i18n/types';
+import { Colors } from '@/src/constants/Colors';
+import { useColorScheme } from '@/src/hooks/useColorScheme';
+import Ionicons from '@expo/vector-icons/Ionicons';
+
+type Stage = 'verify' | 'settings' | 'choosePin' | 'confirmPin';
+
+const MODE_OPTIONS: { mode: RestrictedTitleMode; labelKey: MessageKey }[] = [
+  { mode: 'lock', labelKey: 'parental.modeLock' },
+  { mode: 'hide', labelKey: 'parental.modeHide' },
+];
+
+export default function ParentalControlsScreen() {
+  const scale = useScale();
+  const textStyles = useTextStyles();
+  const styles = useParentalControlsStyles();
+  const router = useRouter();
+  const { t } = useTranslation();
+
+  const parentalPin = useLibraryStore((state) => state.parentalPin);
+  const maxRating = useLibraryStore((state) => state.maxRating);
+  const restrictedTitleMode = useLibraryStore((state) => state.restrictedTitleMode);
+  const setParentalPin = useLibraryStore((state) => state.setParentalPin);
+  const setMaxRating = useLibraryStore((state) => state.setMaxRating);
+  const setRestrictedTitleMode = useLibraryStore((state) => state.setRestrictedTitleMode);
+
+  // Once a PIN exists it guards this screen too, or anyone could raise the limit
+  const [stage, setStage] = useState<Stage>(parentalPin ? 'verify' : 'choosePin');
+  const [pendingPin, setPendingPin] = useState('');
+  const [pinMismatch, setPinMismatch] = useState(false);
+
+  const handleChosenPin = useCallback((pin: string) => {
+    setPendingPin(pin);
+    setPinMismatch(false);
+    setStage('confirmPin');
+  }, []);
+
+  const handleConfirmedPin = useCallback((pin: string) => {
+    if (pin !== pendingPin) {
+      setPinMismatch(true);
+      setStage('choosePin');
+      return;
+    }
+    setParentalPin(pin);
+    setStage('settings');
+  }, [pendingPin, setParentalPin]);
+
+  const handleCancelPin = useCallback(() => {
+    if (parentalPin) {
+      setStage('settings');
+    } else {
+      router.back();
+    }
+  }, [parentalPin, router]);
+
+  if (stage === 'verify') {
+    return (
+      <ThemedView style={styles.container}>
+        <PinChallenge
+          title={t('parental.title')}
+          onSuccess={() => setStage('settings')}
+          onCancel={() => router.back()}
+        />
+      </ThemedView>
+    );
+  }
+
+  if (stage === 'choosePin' || stage === 'confirmPin') {
+    const isConfirming = stage === 'confirmPin';
+    return (
+      <ThemedView style={[styles.container, styles.pinStage]}>
+        <ThemedText style={[textStyles.title, styles.heading]}>
+          {t(isConfirming ? 'parental.confirmPin' : 'parental.choosePin')}
+        </ThemedText>
+        <ThemedText style={[styles.hint, pinMismatch && styles.error]}>
+          {t(pinMismatch
+            ? 'parental.pinMismatch'
+            : isConfirming
+              ? 'parental.confirmPinHint'
+              : 'parental.choosePinHint')}
+        </ThemedText>
+        {/* Keyed so the confirm step starts from an empty pad */}
+        <PinPad key={stage} onComplete={isConfirming ? handleConfirmedPin : handleChosenPin} />
+        <Pressable
+          style={({ pressed, focused }) => [styles.button, (pressed || focused) && styles.optionFocused]}
+          onPress={handleCancelPin}
+        >
+          <ThemedText style={styles.buttonText}>{t('common.cancel')}</ThemedText>
+        </Pressable>
+      </ThemedView>
+    );
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <Stack.Screen options={{ title: t('parental.title') }} />
+      <ThemedText style={[textStyles.title, styles.heading]}>{t('parental.title')}</ThemedText>
+
+      <View style={styles.section}>
+        <ThemedText style={styles.sectionTitle}>{t('parental.allowedRatings')}</ThemedText>
+        <ThemedText style={styles.hint}>
+          {t('parental.allowedRatingsHint')}
+        </ThemedText>
+        <View style={styles.options}>
+          <Option
+            label={t('parental.off')}
+            selected={maxRating === null}
+            hasTVPreferredFocus={maxRating === null}
+            onPress={() => setMaxRating(null)}
+          />
+          {MATURITY_RATINGS.map((rating) => (
+            <Option
+              key={rating}
+              label={formatMaturityRating(rating, t)}
+              selected={maxRating === rating}
+              hasTVPreferredFocus={maxRating === rating}
+              onPress={() => setMaxRating(rating)}
+            />
+          ))}
+        </View>
+      </View>
+
+      <View style={styles.section}>
+        <ThemedText style={styles.sectionTitle}>{t('parental.restrictedTitles')}</ThemedText>
+        <View style={styles.options}>
+          {MODE_OPTIONS.map(({ mode, labelKey }) => (
+            <Option
+              key={mode}
+              label={t(labelKey)}
+              selected={restrictedTitleMode === mode}
+              onPress={() => setRestrictedTitleMode(mode)}
+            />
+          ))}
+        </View>
+      </View>
+
+      <View style={styles.options}>
+        <Pressable
+          style={({ pressed, focused }) => [styles.button, (pressed || focused) && styles.optionFocused]}
+          onPress={() => setStage('choosePin')}
+        >
+          <Ionicons name="keypad" size={16 * scale} color={Colors.black} />
+          <ThemedText style={styles.buttonText}>{t('parental.changePin')}</ThemedText>
+        </Pressable>
+      </View>
+    </ThemedView>
+  );
+}
+
+interface OptionProps {
+  label: string;
+  selected: boolean;
+  hasTVPreferredFocus?: boolean;
+  onPress: () => void;
+}
+
+function Option({ label, selected, hasTVPreferredFocus, onPress }: OptionProps) {
+  const scale = useScale();
+  const styles = useParentalControlsStyles();
+
+  return (
+    <Pressable
+      hasTVPreferredFocus={hasTVPreferredFocus}
+      style={({ pressed, focused }) => [
+        styles.option,
+        selected && styles.optionSelected,
+        (pressed || focused) && styles.optionFocused,
+      ]}
+      onPress={onPress}
+      accessibilityState={{ selected }}
+    >
+      {selected && <Ionicons name="checkmark" size={14 * scale} color={Colors.white} />}
+      <ThemedText style={styles.optionText}>{label}</ThemedText>
+    </Pressable>
+  );
+}
+
+const useParentalControlsStyles = function () {
+  const scale = useScale();
+  const colorScheme = useColorScheme();
+
+  return StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: Colors.dark.background,
+      paddingVertical: 48 * scale,
+      paddingHorizontal: 64 * scale,
+      gap: 24 * scale,
+    },
+    pinStage: {
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 12 * scale,
+    },
+    heading: {
+      color: 'white',
+    },
+    section: {
+      gap: 8 * scale,
+    },
+    sectionTitle: {
+      color: 'white',
+      fontSize: 18 * scale,
+      fontWeight: 'bold',
+    },
+    hint: {
+      color: 'rgba(255, 255, 255, 0.7)',
+      fontSize: 14 * scale,
+    },
+    error: {
+      color: '#ff4757',
+    },
+    options: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8 * scale,
+    },
+    option: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6 * scale,
+      paddingHorizontal: 14 * scale,
+      paddingVertical: 8 * scale,
+      borderRadius: 6 * scale,
+      backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    },
+    optionSelected: {
+      backgroundColor: 'rgba(255, 255, 255, 0.3)',
+    },
+    optionFocused: {
+      backgroundColor: Colors[colorScheme ?? 'light'].primary,
+      transform: [{ scale: 1.05 }],
+    },
+    optionText: {
+      color: 'white',
+      fontSize: 14 * scale,
+      fontWeight: '600',
+    },
+    button: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6 * scale,
+      backgroundColor: 'rgba(255, 255, 255, 0.7)',
+      paddingHorizontal: 16 * scale,
+      paddingVertical: 8 * scale,
+      borderRadius: 6 * scale,
+    },
+    buttonText: {
+      color: Colors.black,
+      fontSize: 12 * scale,
+      fontWeight: 'bold',
+      letterSpacing: 1,
+    },
+  });
+};
@@ -0,0 +1,124 @@
+import React, { useCallback, useEffect, useMemo } from 'react';
+import { StyleSheet } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { ThemedText } from '@/src/components/ThemedText';
+import { ThemedView } from '@/src/components/ThemedView';
+import { VideoPlayer } from '@/src/components/video/VideoPlayer';
+import { PinChallenge } from '@/src/components/parental/PinChallenge';
+import { useVideoData } from '@/src/hooks/useVideoData';
+import { useUpNext } from '@/src/hooks/useUpNext';
+import { useParentalControls } from '@/src/hooks/useParentalControls';
+import { findEpisode, resolvePlayable } from '@/src/catalog/series';
+import { useLibraryStore } from '@/src/store/libraryStore';
+import { useTextStyles } from '@/src/hooks/useTextStyles';
+import { useTranslation } from '@/src/hooks/useTranslation';
+import { Video } from '@/src/types/video';
+import NotFoundScreen from '../+not-found';
+
+// Accepts plain seconds ("90"), clock time ("1:30", "1:02:03") or units ("1h2m3s", "45s")
+function parseStartTime(value: string | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    return Number(value);
+  }
+
+  if (/^\d+(:\d{1,2}){1,2}$/.test(value)) {
+    return value.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+  }
+
+  const units = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (units && units[0]) {
+    const [, hours = '0', minutes = '0', seconds = '0'] = units;
+    return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+  }
+
+  console.warn('Ignoring invalid start time:', value);
+  return undefined;
+}
+
+export default function PlayScreen() {
+  const textStyles = useTextStyles();
+  const router = useRouter();
+  const { id, t: startParam } = useLocalSearchParams<{ id: string; t?: string }>();
+  const { t } = useTranslation();
+  const { videos, isLoading } = useVideoData();
+  const removeFromQueue = useLibraryStore((state) => state.removeFromQueue);
+  const unlockTitle = useLibraryStore((state) => state.unlockTitle);
+  const { isRestricted } = useParentalControls();
+
+  const video = useMemo(() => resolvePlayable(videos, id), [videos, id]);
+  const upNext = useUpNext(video);
+  const isLocked = !!video && isRestricted(video);
+
+  // Starting a queued title takes it off the queue
+  useEffect(() => {
+    if (video && !isLocked) {
+      removeFromQueue(video.id);
+    }
+  }, [video, isLocked, removeFromQueue]);
+
+  // Deep links land here with nothing underneath, so fall back to home
+  const handleClose = useCallback(() => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/');
+    }
+  }, [router]);
+
+  // Replace rather than push, so Back from the next title returns to where playback started
+  const handlePlayVideo = useCallback((next: Video) => {
+    router.replace(`/play/${next.id}`);
+  }, [router]);
+
+  if (isLoading) {
+    return (
+      <ThemedView style={styles.container}>
+        <ThemedText style={textStyles.default}>{t('common.loading')}</ThemedText>
+      </ThemedView>
+    );
+  }
+
+  if (!video) {
+    return <NotFoundScreen />;
+  }
+
+  // Every way into the player ends up here, so this is where parental controls stop playback.
+  // Unlocking an episode unlocks its whole series, so Up Next can carry on.
+  if (isLocked) {
+    return (
+      <ThemedView style={styles.container}>
+        <PinChallenge
+          title={video.title}
+          message={t('play.restricted')}
+          onSuccess={() => unlockTitle(findEpisode(videos, video.id)?.series.id ?? video.id)}
+          onCancel={handleClose}
+        />
+      </ThemedView>
+    );
+  }
+
+  return (
+    <VideoPlayer
+      key={video.id}
+      video={video}
+      startTime={parseStartTime(startParam)}
+      upNext={upNext}
+      onPlayVideo={handlePlayVideo}
+      onClose={handleClose}
+      onError={handleClose}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'black',
+  },
+});
@@ -0,0 +1,10 @@
+import React from 'react';
+import { useRouter } from 'expo-router';
+import { ProfilePicker } from '@/src/components/profiles/ProfilePicker';
+
+// Switching profiles from inside the app; the launch picker is rendered by the root layout
+export default function ProfilesScreen() {
+  const router = useRouter();
+
+  return <ProfilePicker onDone={() => router.back()} />;
+}
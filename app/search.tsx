@@ -0,0 +1,227 @@
+import React, { useState, useCallback, useMemo, useDeferredValue } from 'react';
+import { StyleSheet, FlatList, View, Pressable } from 'react-native';
+import { useRouter } from 'expo-router';
+import { ThemedText } from '@/src/components/ThemedText';
+import { ThemedView } from '@/src/components/ThemedView';
+import { VideoThumbnail } from '@/src/components/video/VideoThumbnail';
+import { OnScreenKeyboard } from '@/src/components/search/OnScreenKeyboard';
+import { useVideoData } from '@/src/hooks/useVideoData';
+import { useParentalControls } from '@/src/hooks/useParentalControls';
+import { useLibraryStore } from '@/src/store/libraryStore';
+import { searchVideos } from '@/src/search/searchVideos';
+import { useScale } from '@/src/hooks/useScale';
+import { useTextStyles } from '@/src/hooks/useTextStyles';
+import { useTranslation } from '@/src/hooks/useTranslation';
+import { Video } from '@/src/types/video';
+import { Colors } from '@/src/constants/Colors';
+import { useColorScheme } from '@/src/hooks/useColorScheme';
+import Ionicons from '@expo/vector-icons/Ionicons';
+
+const RESULT_COLUMNS = 3;
+
+export default function SearchScreen() {
+  const scale = useScale();
+  const textStyles = useTextStyles();
+  const styles = useSearchScreenStyles();
+  const router = useRouter();
+  const { t, locale } = useTranslation();
+
+  const { videos, isFavorite } = useVideoData();
+  const { isRestricted, filterHidden } = useParentalControls();
+  const recentSearches = useLibraryStore((state) => state.recentSearches);
+  const addRecentSearch = useLibraryStore((state) => state.addRecentSearch);
+  const clearRecentSearches = useLibraryStore((state) => state.clearRecentSearches);
+
+  const [query, setQuery] = useState('');
+
+  // Keep key presses snappy while results catch up
+  const deferredQuery = useDeferredValue(query);
+  const results = useMemo(
+    () => searchVideos(filterHidden(videos), deferredQuery, locale),
+    [videos, filterHidden, deferredQuery, locale]
+  );
+
+  const handleKeyPress = useCallback((key: string) => {
+    setQuery(prev => (key === ' ' && (prev === '' || prev.endsWith(' ')) ? prev : prev + key));
+  }, []);
+
+  const handleBackspace = useCallback(() => {
+    setQuery(prev => prev.slice(0, -1));
+  }, []);
+
+  const handleClear = useCallback(() => {
+    setQuery('');
+  }, []);
+
+  const handleVideoSelect = useCallback((video: Video) => {
+    addRecentSearch(query);
+    router.push(`/video/${video.id}`);
+  }, [addRecentSearch, query, router]);
+
+  const hasQuery = query.trim().length > 0;
+
+  return (
+    <ThemedView style={styles.container}>
+      <View style={styles.sidebar}>
+        <View style={styles.queryBox}>
+          <Ionicons name="search" size={20 * scale} color="rgba(255, 255, 255, 0.7)" />
+          <ThemedText style={styles.queryText} numberOfLines={1}>
+            {hasQuery ? query : t('search.placeholder')}
+          </ThemedText>
+        </View>
+
+        <OnScreenKeyboard
+          onKeyPress={handleKeyPress}
+          onBackspace={handleBackspace}
+          onClear={handleClear}
+        />
+
+        {recentSearches.length > 0 && (
+          <View style={styles.recentContainer}>
+            <View style={styles.recentHeader}>
+              <ThemedText style={styles.recentTitle}>{t('search.recent')}</ThemedText>
+              <Pressable
+                style={({ pressed, focused }) => [styles.recentClear, (pressed || focused) && styles.chipFocused]}
+                onPress={clearRecentSearches}
+              >
+                <ThemedText style={styles.recentClearText}>{t('common.clear')}</ThemedText>
+              </Pressable>
+            </View>
+            {recentSearches.map((recent) => (
+              <Pressable
+                key={recent}
+                style={({ pressed, focused }) => [styles.chip, (pressed || focused) && styles.chipFocused]}
+                onPress={() => setQuery(recent)}
+              >
+                <Ionicons name="time-outline" size={14 * scale} color="rgba(255, 255, 255, 0.7)" />
+                <ThemedText style={styles.chipText} numberOfLines={1}>{recent}</ThemedText>
+              </Pressable>
+            ))}
+          </View>
+        )}
+      </View>
+
+      <View style={styles.results}>
+        {!hasQuery ? (
+          <View style={styles.emptyState}>
+            <Ionicons name="search" size={48 * scale} color="rgba(255, 255, 255, 0.4)" />
+            <ThemedText style={[textStyles.default, styles.emptyText]}>
+              {t('search.startTyping')}
+            </ThemedText>
+          </View>
+        ) : results.length === 0 ? (
+          <View style={styles.emptyState}>
+            <ThemedText style={[textStyles.default, styles.emptyText]}>
+              {t('search.noResults', { query: query.trim() })}
+            </ThemedText>
+          </View>
+        ) : (
+          <FlatList
+            data={results}
+            key={RESULT_COLUMNS}
+            numColumns={RESULT_COLUMNS}
+            keyExtractor={(item) => item.video.id}
+            renderItem={({ item }) => (
+              <VideoThumbnail
+                video={item.video}
+                onSelect={handleVideoSelect}
+                isSelected={false}
+                isFavorite={isFavorite(item.video.id)}
+                isLocked={isRestricted(item.video)}
+              />
+            )}
+            showsVerticalScrollIndicator={false}
+            removeClippedSubviews={false}
+          />
+        )}
+      </View>
+    </ThemedView>
+  );
+}
+
+const useSearchScreenStyles = function () {
+  const scale = useScale();
+  const colorScheme = useColorScheme();
+
+  return StyleSheet.create({
+    container: {
+      flex: 1,
+      flexDirection: 'row',
+      backgroundColor: Colors.dark.background,
+      paddingVertical: 32 * scale,
+      paddingHorizontal: 32 * scale,
+      gap: 32 * scale,
+    },
+    sidebar: {
+      gap: 16 * scale,
+    },
+    queryBox: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8 * scale,
+      paddingHorizontal: 12 * scale,
+      paddingVertical: 10 * scale,
+      borderRadius: 8 * scale,
+      backgroundColor: 'rgba(255, 255, 255, 0.08)',
+      width: 276 * scale,
+    },
+    queryText: {
+      flex: 1,
+      color: 'white',
+      fontSize: 16 * scale,
+      lineHeight: 22 * scale,
+    },
+    recentContainer: {
+      gap: 6 * scale,
+      width: 276 * scale,
+    },
+    recentHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+    },
+    recentTitle: {
+      color: 'rgba(255, 255, 255, 0.7)',
+      fontSize: 14 * scale,
+      fontWeight: '600',
+    },
+    recentClear: {
+      paddingHorizontal: 8 * scale,
+      paddingVertical: 2 * scale,
+      borderRadius: 6 * scale,
+    },
+    recentClearText: {
+      color: 'rgba(255, 255, 255, 0.7)',
+      fontSize: 12 * scale,
+    },
+    chip: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6 * scale,
+      paddingHorizontal: 10 * scale,
+      paddingVertical: 6 * scale,
+      borderRadius: 6 * scale,
+      backgroundColor: 'rgba(255, 255, 255, 0.06)',
+    },
+    chipFocused: {
+      backgroundColor: Colors[colorScheme ?? 'light'].primary,
+    },
+    chipText: {
+      color: 'white',
+      fontSize: 14 * scale,
+    },
+    results: {
+      flex: 1,
+    },
+    emptyState: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      gap: 12 * scale,
+    },
+    emptyText: {
+      color: 'rgba(255, 255, 255, 0.7)',
+      textAlign: 'center',
+    },
+  });
+};
@@ -0,0 +1,390 @@
+import React, { useCallback } from 'react';
+import { StyleSheet, View, Pressable, Image, Dimensions } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { ThemedText } from '@/src/components/ThemedText';
+import { ThemedView } from '@/src/components/ThemedView';
+import { VideoRail } from '@/src/components/video/VideoRail';
+import { EpisodeList } from '@/src/components/video/EpisodeList';
+import { PinChallenge } from '@/src/components/parental/PinChallenge';
+import { useVideoData } from '@/src/hooks/useVideoData';
+import { useRelatedVideos } from '@/src/hooks/useRelatedVideos';
+import { usePlayAction } from '@/src/hooks/usePlayAction';
+import { useParentalControls } from '@/src/hooks/useParentalControls';
+import { EpisodeRef, findEpisode, isSeries } from '@/src/catalog/series';
+import { formatMaturityRating } from '@/src/parental/ratings';
+import { useWatchProgress, useIsQueued, getProgressFraction } from '@/src/store/selectors';
+import { useLibraryStore } from '@/src/store/libraryStore';
+import { useScale } from '@/src/hooks/useScale';
+import { useTextStyles } from '@/src/hooks/useTextStyles';
+import { useTranslation } from '@/src/hooks/useTranslation';
+import { Video } from '@/src/types/video';
+import { Colors } from '@/src/constants/Colors';
+import { useColorScheme } from '@/src/hooks/useColorScheme';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import NotFoundScreen from '../+not-found';
+
+const { width: screenWidth } = Dimensions.get('window');
+
+export default function VideoDetailsScreen() {
+  const scale = useScale();
+  const textStyles = useTextStyles();
+  const styles = useVideoDetailsStyles();
+  const router = useRouter();
+  const { t, isRTL } = useTranslation();
+  const { id } = useLocalSearchParams<{ id: string }>();
+
+  const { videos, isLoading, error, toggleFavorite, isFavorite, retryLoading } = useVideoData();
+  const progress = useWatchProgress(id);
+  const isQueued = useIsQueued(id);
+  const addToQueue = useLibraryStore((state) => state.addToQueue);
+  const removeFromQueue = useLibraryStore((state) => state.removeFromQueue);
+  const unlockTitle = useLibraryStore((state) => state.unlockTitle);
+  const { isRestricted, isHidden } = useParentalControls();
+
+  const video = videos.find((v) => v.id === id);
+  const relatedVideos = useRelatedVideos(video, videos);
+  const progressFraction = getProgressFraction(progress);
+  const playAction = usePlayAction(video);
+  const series = video && isSeries(video) ? video : null;
+
+  const handlePlay = useCallback(() => {
+    router.push(`/play/${playAction?.playId ?? id}`);
+  }, [router, playAction, id]);
+
+  const handleEpisodeSelect = useCallback((ref: EpisodeRef) => {
+    router.push(`/play/${ref.episode.id}`);
+  }, [router]);
+
+  // An explicit start time wins over the saved resume point
+  const handlePlayFromStart = useCallback(() => {
+    router.push(`/play/${id}?t=0`);
+  }, [router, id]);
+
+  const handleToggleQueue = useCallback(() => {
+    if (isQueued) {
+      removeFromQueue(id);
+    } else {
+      addToQueue(id);
+    }
+  }, [isQueued, id, addToQueue, removeFromQueue]);
+
+  const handleRelatedSelect = useCallback((related: Video) => {
+    router.push(`/video/${related.id}`);
+  }, [router]);
+
+  if (isLoading) {
+    return (
+      <ThemedView style={styles.centerContainer}>
+        <ThemedText style={textStyles.default}>{t('common.loading')}</ThemedText>
+      </ThemedView>
+    );
+  }
+
+  if (error && videos.length === 0) {
+    return (
+      <ThemedView style={styles.centerContainer}>
+        <ThemedText style={[textStyles.default, styles.errorMessage]}>{error}</ThemedText>
+        <Pressable
+          style={({ pressed, focused }) => [styles.secondaryButton, (pressed || focused) && styles.buttonFocused]}
+          onPress={retryLoading}
+        >
+          <ThemedText style={styles.secondaryButtonText}>{t('common.tryAgain')}</ThemedText>
+        </Pressable>
+      </ThemedView>
+    );
+  }
+
+  if (!video) {
+    return <NotFoundScreen />;
+  }
+
+  // Hidden titles only get here through a link, and shouldn't give anything away without the PIN
+  if (isHidden(video)) {
+    return (
+      <ThemedView style={styles.container}>
+        <PinChallenge
+          title={t('details.restricted')}
+          onSuccess={() => unlockTitle(video.id)}
+          onCancel={() => router.back()}
+        />
+      </ThemedView>
+    );
+  }
+
+  const favorite = isFavorite(video.id);
+  const isLocked = isRestricted(video);
+  const resumeSeason = series && playAction ? findEpisode([series], playAction.playId)?.season.number : undefined;
+
+  return (
+    <ThemedView style={styles.container}>
+      <Stack.Screen options={{ title: video.title }} />
+      <Image
+        style={styles.heroImage}
+        source={{ uri: video.hero || video.thumbnail }}
+        resizeMode="cover"
+      />
+      <LinearGradient
+        colors={['rgba(0,0,0,0.9)', 'rgba(0,0,0,0.6)', 'transparent']}
+        start={{ x: isRTL ? 1 : 0, y: 0 }}
+        end={{ x: isRTL ? 0 : 1, y: 0 }}
+        style={styles.sideGradient}
+      />
+      <LinearGradient
+        colors={['rgba(0,0,0,0.9)', 'rgba(0,0,0,0.4)', 'transparent']}
+        start={{ x: 0, y: 1 }}
+        end={{ x: 0, y: 0 }}
+        style={styles.bottomGradient}
+      />
+
+      <View style={styles.body}>
+        <View style={[styles.content, { paddingHorizontal: 32 * scale }]}>
+          <ThemedText style={[textStyles.largeTitle, styles.title]}>
+            {video.title.toUpperCase()}
+          </ThemedText>
+
+          <View style={styles.metaLine}>
+            <ThemedText style={styles.metaChip}>{video.category}</ThemedText>
+            <ThemedText style={styles.metaChip}>{video.duration}</ThemedText>
+            {video.maturityRating && <ThemedText style={styles.metaChip}>{formatMaturityRating(video.maturityRating, t)}</ThemedText>}
+          </View>
+
+          <ThemedText numberOfLines={4} style={styles.description}>
+            {video.description}
+          </ThemedText>
+
+          {video.starring && (
+            <View style={styles.metaRow}>
+              <ThemedText style={styles.metaLabel}>{t('common.starring')}</ThemedText>
+              <ThemedText numberOfLines={2} style={styles.metaValue}>{video.starring}</ThemedText>
+            </View>
+          )}
+
+          {progressFraction > 0 && (
+            <View style={styles.progressTrack}>
+              <View style={[styles.progressFill, { width: `${progressFraction * 100}%` }]} />
+            </View>
+          )}
+
+          <View style={styles.actionButtons}>
+            <Pressable
+              hasTVPreferredFocus
+              style={({ pressed, focused }) => [styles.playButton, (pressed || focused) && styles.buttonFocused]}
+              onPress={handlePlay}
+            >
+              <Ionicons name={isLocked ? 'lock-closed' : 'play'} size={16 * scale} color={Colors.black} />
+              <ThemedText style={styles.playButtonText}>{playAction?.label ?? t('common.play')}</ThemedText>
+            </Pressable>
+            {progress && !series && (
+              <Pressable
+                style={({ pressed, focused }) => [styles.secondaryButton, (pressed || focused) && styles.buttonFocused]}
+                onPress={handlePlayFromStart}
+              >
+                <Ionicons name="refresh" size={16 * scale} color={Colors.black} />
+                <ThemedText style={styles.secondaryButtonText}>{t('details.fromStart')}</ThemedText>
+              </Pressable>
+            )}
+            <Pressable
+              style={({ pressed, focused }) => [styles.secondaryButton, (pressed || focused) && styles.buttonFocused]}
+              onPress={() => toggleFavorite(video.id)}
+            >
+              <Ionicons name={favorite ? 'heart' : 'heart-outline'} size={16 * scale} color={Colors.black} />
+              <ThemedText style={styles.secondaryButtonText}>
+                {t(favorite ? 'common.removeFromList' : 'common.addToList')}
+              </ThemedText>
+            </Pressable>
+            {!series && (
+              <Pressable
+                style={({ pressed, focused }) => [styles.secondaryButton, (pressed || focused) && styles.buttonFocused]}
+                onPress={handleToggleQueue}
+              >
+                <Ionicons name={isQueued ? 'checkmark' : 'list'} size={16 * scale} color={Colors.black} />
+                <ThemedText style={styles.secondaryButtonText}>
+                  {t(isQueued ? 'details.inQueue' : 'details.addToQueue')}
+                </ThemedText>
+              </Pressable>
+            )}
+          </View>
+        </View>
+
+        {series && (
+          <View style={styles.episodesPanel}>
+            <EpisodeList
+              series={series}
+              initialSeason={resumeSeason}
+              onSelectEpisode={handleEpisodeSelect}
+            />
+          </View>
+        )}
+      </View>
+
+      {relatedVideos.length > 0 && (
+        <View style={styles.related}>
+          <VideoRail
+            title={t('details.moreLikeThis')}
+            videos={relatedVideos}
+            isFavorite={isFavorite}
+            onSelect={handleRelatedSelect}
+          />
+        </View>
+      )}
+    </ThemedView>
+  );
+}
+
+const useVideoDetailsStyles = function () {
+  const scale = useScale();
+  const colorScheme = useColorScheme();
+
+  return StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: Colors.black,
+    },
+    centerContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      gap: 16 * scale,
+    },
+    heroImage: {
+      position: 'absolute',
+      top: 0,
+      start: 0,
+      width: '100%',
+      height: '100%',
+    },
+    // Darkens whichever side the text starts on
+    sideGradient: {
+      position: 'absolute',
+      top: 0,
+      start: 0,
+      width: '70%',
+      height: '100%',
+    },
+    bottomGradient: {
+      position: 'absolute',
+      bottom: 0,
+      start: 0,
+      width: '100%',
+      height: '60%',
+    },
+    body: {
+      flex: 1,
+      flexDirection: 'row',
+    },
+    content: {
+      flex: 1,
+      justifyContent: 'center',
+      maxWidth: screenWidth * 0.5,
+      gap: 12 * scale,
+    },
+    title: {
+      fontSize: 32 * scale,
+      lineHeight: 40 * scale,
+      fontWeight: 'bold',
+      letterSpacing: 2,
+      color: Colors[colorScheme ?? 'light'].primary,
+      textShadowColor: 'rgba(0, 0, 0, 0.8)',
+      textShadowOffset: { width: 1, height: 1 },
+      textShadowRadius: 3,
+    },
+    metaLine: {
+      flexDirection: 'row',
+      gap: 8 * scale,
+    },
+    metaChip: {
+      color: 'white',
+      fontSize: 12 * scale,
+      lineHeight: 16 * scale,
+      fontWeight: '600',
+      paddingHorizontal: 8 * scale,
+      paddingVertical: 2 * scale,
+      borderRadius: 4 * scale,
+      borderWidth: 1,
+      borderColor: 'rgba(255, 255, 255, 0.4)',
+    },
+    description: {
+      color: 'rgba(255, 255, 255, 0.9)',
+      fontSize: 16 * scale,
+      lineHeight: 24 * scale,
+    },
+    metaRow: {
+      flexDirection: 'row',
+    },
+    metaLabel: {
+      color: 'rgba(255, 255, 255, 0.7)',
+      fontSize: 14 * scale,
+      fontWeight: '500',
+      minWidth: 80 * scale,
+    },
+    metaValue: {
+      flex: 1,
+      color: 'white',
+      fontSize: 14 * scale,
+      fontWeight: '600',
+    },
+    episodesPanel: {
+      flex: 1,
+      paddingTop: 48 * scale,
+      paddingEnd: 32 * scale,
+    },
+    progressTrack: {
+      height: 4 * scale,
+      borderRadius: 2 * scale,
+      backgroundColor: 'rgba(255, 255, 255, 0.3)',
+      maxWidth: 300 * scale,
+    },
+    progressFill: {
+      height: '100%',
+      borderRadius: 2 * scale,
+      backgroundColor: Colors[colorScheme ?? 'light'].primary,
+    },
+    actionButtons: {
+      flexDirection: 'row',
+      gap: 16 * scale,
+      marginTop: 8 * scale,
+    },
+    playButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6 * scale,
+      backgroundColor: Colors.white,
+      paddingHorizontal: 16 * scale,
+      paddingVertical: 8 * scale,
+      borderRadius: 6 * scale,
+    },
+    playButtonText: {
+      color: Colors.black,
+      fontSize: 12 * scale,
+      fontWeight: 'bold',
+      letterSpacing: 1,
+    },
+    secondaryButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6 * scale,
+      backgroundColor: 'rgba(255, 255, 255, 0.7)',
+      paddingHorizontal: 16 * scale,
+      paddingVertical: 8 * scale,
+      borderRadius: 6 * scale,
+    },
+    secondaryButtonText: {
+      color: Colors.black,
+      fontSize: 12 * scale,
+      fontWeight: 'bold',
+      letterSpacing: 1,
+    },
+    buttonFocused: {
+      backgroundColor: Colors[colorScheme ?? 'light'].primary,
+      transform: [{ scale: 1.05 }],
+    },
+    errorMessage: {
+      textAlign: 'center',
+      opacity: 0.7,
+    },
+    related: {
+      paddingBottom: 16 * scale,
+    },
+  });
+};
@@ -0,0 +1,70 @@
+#!/usr/bin/env node
+
+/**
+ * Local stand-in for a remote catalog feed, for exercising the `http` catalog source.
+ * Serves src/data/videos.json (or the file given with --file) at /catalog.json with an ETag,
+ * answers If-None-Match with 304, and can simulate failures:
+ *
+ *   npm run catalog-server -- --port 8787 --status 503 --delay 2000
+ *
+ * Point the app at it with `"extra": { "catalog": { "source": "http", "url": "http://<host>:8787/catalog.json" } }`
+ * in app.json. From the Android emulator the host machine is reachable as 10.0.2.2.
+ */
+
+const crypto = require('crypto');
+const fs = require('fs');
+const http = require('http');
+const path = require('path');
+
+function readArg(name, fallback) {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 && process.argv[index + 1] ? process.argv[index + 1] : fallback;
+}
+
+const port = Number(readArg('port', 8787));
+const forcedStatus = Number(readArg('status', 0));
+const delayMs = Number(readArg('delay', 0));
+const catalogPath = path.resolve(readArg('file', path.join(__dirname, '..', 'src', 'data', 'videos.json'))); // eslint-disable-line no-undef
+
+const server = http.createServer((req, res) => {
+  setTimeout(() => {
+    if (req.url !== '/catalog.json') {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Not found' }));
+      return;
+    }
+
+    if (forcedStatus) {
+      res.writeHead(forcedStatus, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: `Simulated ${forcedStatus}` }));
+      return;
+    }
+
+    // Re-read on every request so edits to the file show up as a new ETag
+    let body;
+    try {
+      body = fs.readFileSync(catalogPath);
+    } catch (error) {
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: `Could not read ${catalogPath}: ${error.message}` }));
+      console.log(`${req.method} ${req.url} 500 (${error.message})`);
+      return;
+    }
+    const etag = `"${crypto.createHash('sha1').update(body).digest('hex')}"`;
+
+    if (req.headers['if-none-match'] === etag) {
+      res.writeHead(304, { ETag: etag });
+      res.end();
+      console.log(`${req.method} ${req.url} 304`);
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/json', ETag: etag });
+    res.end(body);
+    console.log(`${req.method} ${req.url} 200`);
+  }, delayMs);
+});
+
+server.listen(port, () => {
+  console.log(`Serving ${catalogPath} at http://localhost:${port}/catalog.json`);
+});
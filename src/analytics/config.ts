@@ -0,0 +1,50 @@
+import Constants from 'expo-constants';
+import { createAnalyticsDispatcher, AnalyticsDispatcher } from './dispatcher';
+import { createConsoleSink } from './consoleSink';
+import { createHttpSink } from './httpSink';
+import { AnalyticsSink } from './types';
+
+type AnalyticsSinkConfig =
+  | { type: 'console' }
+  | { type: 'http'; url: string; headers?: Record<string, string>; timeoutMs?: number };
+
+interface AnalyticsConfig {
+  sinks?: AnalyticsSinkConfig[];
+  batchSize?: number;
+  flushIntervalMs?: number;
+}
+
+// Development builds log events unless app.json says otherwise; release builds send nothing by default
+function readAnalyticsConfig(): AnalyticsConfig {
+  const config = Constants.expoConfig?.extra?.analytics;
+  return config && typeof config === 'object' ? config : { sinks: __DEV__ ? [{ type: 'console' }] : [] };
+}
+
+function createSink(config: AnalyticsSinkConfig): AnalyticsSink | null {
+  switch (config?.type) {
+    case 'console':
+      return createConsoleSink();
+    case 'http':
+      if (config.url) {
+        return createHttpSink(config);
+      }
+      break;
+  }
+  console.warn('Invalid analytics sink config, ignoring it:', config);
+  return null;
+}
+
+let analytics: AnalyticsDispatcher | null = null;
+
+// Built from `expo.extra.analytics` in app.json the first time something is tracked
+export function getAnalytics(): AnalyticsDispatcher {
+  if (!analytics) {
+    const { sinks = [], batchSize, flushIntervalMs } = readAnalyticsConfig();
+    analytics = createAnalyticsDispatcher({
+      sinks: sinks.map(createSink).filter((sink): sink is AnalyticsSink => sink !== null),
+      batchSize,
+      flushIntervalMs,
+    });
+  }
+  return analytics;
+}
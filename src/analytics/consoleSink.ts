@@ -0,0 +1,14 @@
+import { AnalyticsSink } from './types';
+
+export function createConsoleSink(): AnalyticsSink {
+  return {
+    kind: 'console',
+    name: 'console',
+    send: async (events) => {
+      for (const event of events) {
+        const { type, sessionId, videoId, timestamp, position, ...details } = event;
+        console.log(`[analytics] ${type} ${videoId} @${position.toFixed(1)}s`, details);
+      }
+    },
+  };
+}
@@ -0,0 +1,119 @@
+import { readQueuedEvents, writeQueuedEvents, QueuedEvents } from './retryQueue';
+import { AnalyticsEvent, AnalyticsSink } from './types';
+
+export interface AnalyticsDispatcherOptions {
+  sinks: AnalyticsSink[];
+  // Events sent to a sink in one delivery
+  batchSize?: number;
+  // How often pending events go out, also the first retry delay after a failed delivery
+  flushIntervalMs?: number;
+  // Per sink; past this the oldest undelivered events are dropped so an offline box doesn't fill its storage
+  maxQueuedEvents?: number;
+  // Where undelivered events wait between launches, AsyncStorage unless replaced (in tests, say)
+  storage?: { read: () => Promise<QueuedEvents>; write: (queued: QueuedEvents) => Promise<void> };
+}
+
+export interface AnalyticsDispatcher {
+  track: (event: AnalyticsEvent) => void;
+  // Sends whatever each sink has pending, and persists what couldn't be delivered
+  flush: () => Promise<void>;
+  // Stops the flush timer after one last flush
+  stop: () => Promise<void>;
+}
+
+const DEFAULT_BATCH_SIZE = 20;
+const DEFAULT_FLUSH_INTERVAL_MS = 15000;
+const DEFAULT_MAX_QUEUED_EVENTS = 1000;
+
+// Retries after a failure back off by doubling, up to this
+const MAX_RETRY_DELAY_MS = 10 * 60 * 1000;
+
+/**
+ * Fans events out to every sink in batches. Each sink has its own queue and backoff, so a dead
+ * endpoint never holds back the others, and events it couldn't take survive a restart.
+ */
+export function createAnalyticsDispatcher({
+  sinks,
+  batchSize = DEFAULT_BATCH_SIZE,
+  flushIntervalMs = DEFAULT_FLUSH_INTERVAL_MS,
+  maxQueuedEvents = DEFAULT_MAX_QUEUED_EVENTS,
+  storage = { read: readQueuedEvents, write: writeQueuedEvents },
+}: AnalyticsDispatcherOptions): AnalyticsDispatcher {
+  const pending: QueuedEvents = Object.fromEntries(sinks.map((sink) => [sink.name, []]));
+  const failures: Record<string, number> = {};
+  const retryAt: Record<string, number> = {};
+  let hasPersistedEvents = false;
+  let inFlightFlush: Promise<void> | null = null;
+
+  // Events left over from an earlier launch go out ahead of new ones
+  const restored = storage.read().then((queued) => {
+    for (const sink of sinks) {
+      const leftOver = queued[sink.name] ?? [];
+      hasPersistedEvents ||= leftOver.length > 0;
+      pending[sink.name] = [...leftOver, ...pending[sink.name]];
+    }
+  });
+
+  const deliver = async (sink: AnalyticsSink) => {
+    if (Date.now() < (retryAt[sink.name] ?? 0)) {
+      return;
+    }
+    while (pending[sink.name].length > 0) {
+      const batch = pending[sink.name].slice(0, batchSize);
+      try {
+        await sink.send(batch);
+      } catch (error) {
+        failures[sink.name] = (failures[sink.name] ?? 0) + 1;
+        const delay = Math.min(MAX_RETRY_DELAY_MS, flushIntervalMs * 2 ** (failures[sink.name] - 1));
+        retryAt[sink.name] = Date.now() + delay;
+        console.warn(`Analytics delivery to ${sink.name} failed, retrying in ${Math.round(delay / 1000)}s:`, error);
+        return;
+      }
+      // Events tracked during the send were appended, so the batch is still at the front
+      pending[sink.name] = pending[sink.name].slice(batch.length);
+      failures[sink.name] = 0;
+    }
+  };
+
+  const flush = () => {
+    if (!inFlightFlush) {
+      inFlightFlush = (async () => {
+        await restored;
+        await Promise.all(sinks.map(deliver));
+
+        for (const sink of sinks) {
+          if (pending[sink.name].length > maxQueuedEvents) {
+            pending[sink.name] = pending[sink.name].slice(-maxQueuedEvents);
+          }
+        }
+        // Storage is only touched while something is (or was) waiting for a retry
+        const hasPendingEvents = Object.values(pending).some((events) => events.length > 0);
+        if (hasPendingEvents || hasPersistedEvents) {
+          await storage.write(pending);
+          hasPersistedEvents = hasPendingEvents;
+        }
+      })().finally(() => {
+        inFlightFlush = null;
+      });
+    }
+    return inFlightFlush;
+  };
+
+  const timer = setInterval(flush, flushIntervalMs);
+
+  return {
+    track: (event) => {
+      for (const sink of sinks) {
+        pending[sink.name].push(event);
+      }
+      if (sinks.some((sink) => pending[sink.name].length >= batchSize)) {
+        flush();
+      }
+    },
+    flush,
+    stop: async () => {
+      clearInterval(timer);
+      await flush();
+    },
+  };
+}
@@ -0,0 +1,46 @@
+import { AnalyticsDeliveryError, AnalyticsSink } from './types';
+
+export interface HttpSinkConfig {
+  url: string;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+// Posts each batch as `{ events: [...] }`; any 2xx counts as delivered
+export function createHttpSink({ url, headers = {}, timeoutMs = DEFAULT_TIMEOUT_MS }: HttpSinkConfig): AnalyticsSink {
+  return {
+    kind: 'http',
+    name: `http:${url}`,
+    send: async (events) => {
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...headers,
+          },
+          body: JSON.stringify({ events }),
+          signal: controller.signal,
+        });
+      } catch (error) {
+        if (controller.signal.aborted) {
+          throw new AnalyticsDeliveryError(`Analytics request timed out after ${timeoutMs / 1000}s`);
+        }
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new AnalyticsDeliveryError(`Unable to reach the analytics endpoint (${reason})`);
+      } finally {
+        clearTimeout(timeout);
+      }
+
+      if (!response.ok) {
+        throw new AnalyticsDeliveryError(`Analytics request failed with HTTP ${response.status}`, response.status);
+      }
+    },
+  };
+}
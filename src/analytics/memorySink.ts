@@ -0,0 +1,29 @@
+import { AnalyticsEvent, AnalyticsSink } from './types';
+
+export interface MemorySink extends AnalyticsSink {
+  // Everything delivered so far, oldest first
+  events: AnalyticsEvent[];
+  clear: () => void;
+  // While set, deliveries fail the way an unreachable endpoint would
+  failing: boolean;
+}
+
+// Keeps delivered events in memory, for tests and for checking what a session reports
+export function createMemorySink(name = 'memory'): MemorySink {
+  const sink: MemorySink = {
+    kind: 'memory',
+    name,
+    events: [],
+    failing: false,
+    clear: () => {
+      sink.events = [];
+    },
+    send: async (events) => {
+      if (sink.failing) {
+        throw new Error('Memory sink is set to fail');
+      }
+      sink.events = [...sink.events, ...events];
+    },
+  };
+  return sink;
+}
@@ -0,0 +1,121 @@
+import { PlaybackError } from '@/src/playback/playbackErrors';
+import { AnalyticsDispatcher } from './dispatcher';
+import { PlaybackEvent } from './types';
+
+// Position samples further apart than this are seeks or stalls, not watching
+const MAX_WATCHED_STEP = 5;
+
+export interface PlaybackSession {
+  id: string;
+  firstFrame: (position: number) => void;
+  bufferingStarted: () => void;
+  bufferingEnded: (position: number) => void;
+  seek: (from: number, to: number) => void;
+  videoTrackChanged: (position: number, fromBitrate: number | null, toBitrate: number | null, height?: number) => void;
+  error: (position: number, error: PlaybackError) => void;
+  // Called with the playhead every second or so while playing, to count time actually watched
+  progress: (position: number) => void;
+  completed: (duration: number) => void;
+  end: (position: number, duration: number) => void;
+}
+
+interface PlaybackSessionOptions {
+  videoId: string;
+  // The stream being played
+  source: string;
+  startPosition: number;
+  analytics: AnalyticsDispatcher;
+}
+
+/**
+ * Turns what the player reports into QoE events for one title, keeping the running totals
+ * (rebuffering, time watched) that the closing `session-end` event summarises.
+ */
+export function createPlaybackSession({ videoId, source, startPosition, analytics }: PlaybackSessionOptions): PlaybackSession {
+  const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  const startedAt = Date.now();
+  let hasFirstFrame = false;
+  let bufferingSince: number | null = null;
+  let rebufferCount = 0;
+  let rebufferDurationMs = 0;
+  let watchedSeconds = 0;
+  let lastPosition = startPosition;
+  let completed = false;
+  let hasEnded = false;
+
+  const track = (position: number, event: PlaybackEvent) => {
+    if (!hasEnded) {
+      analytics.track({ sessionId: id, videoId, timestamp: Date.now(), position, ...event });
+    }
+  };
+
+  track(startPosition, { type: 'session-start', source, startPosition });
+
+  return {
+    id,
+    firstFrame: (position) => {
+      if (!hasFirstFrame) {
+        hasFirstFrame = true;
+        track(position, { type: 'first-frame', timeToFirstFrameMs: Date.now() - startedAt });
+      }
+    },
+    // Waiting for the first frame is startup time, not a rebuffer
+    bufferingStarted: () => {
+      if (hasFirstFrame && bufferingSince === null) {
+        bufferingSince = Date.now();
+      }
+    },
+    bufferingEnded: (position) => {
+      if (bufferingSince !== null) {
+        const durationMs = Date.now() - bufferingSince;
+        bufferingSince = null;
+        rebufferCount += 1;
+        rebufferDurationMs += durationMs;
+        track(position, { type: 'rebuffer', durationMs });
+      }
+    },
+    seek: (from, to) => {
+      lastPosition = to;
+      track(from, { type: 'seek', from, to });
+    },
+    videoTrackChanged: (position, fromBitrate, toBitrate, height) => {
+      if (fromBitrate !== toBitrate) {
+        track(position, { type: 'bitrate-switch', fromBitrate, toBitrate, height });
+      }
+    },
+    error: (position, { code, detail }) => {
+      track(position, { type: 'error', code, detail });
+    },
+    progress: (position) => {
+      const step = position - lastPosition;
+      if (step > 0 && step <= MAX_WATCHED_STEP) {
+        watchedSeconds += step;
+      }
+      lastPosition = position;
+    },
+    completed: (duration) => {
+      if (!completed) {
+        completed = true;
+        track(duration, { type: 'completion', duration });
+      }
+    },
+    end: (position, duration) => {
+      // A stall still going when the viewer gives up counts towards the total
+      if (bufferingSince !== null) {
+        rebufferCount += 1;
+        rebufferDurationMs += Date.now() - bufferingSince;
+        bufferingSince = null;
+      }
+      track(position, {
+        type: 'session-end',
+        duration,
+        watchedSeconds: Math.round(watchedSeconds),
+        rebufferCount,
+        rebufferDurationMs,
+        completed,
+      });
+      hasEnded = true;
+      analytics.flush();
+    },
+  };
+}
@@ -0,0 +1,30 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AnalyticsEvent } from './types';
+
+const QUEUE_KEY = 'analytics-queue';
+
+// Undelivered events keyed by sink name
+export type QueuedEvents = Record<string, AnalyticsEvent[]>;
+
+export async function readQueuedEvents(): Promise<QueuedEvents> {
+  try {
+    const raw = await AsyncStorage.getItem(QUEUE_KEY);
+    const queued = raw ? JSON.parse(raw) : {};
+    return queued && typeof queued === 'object' && !Array.isArray(queued) ? queued : {};
+  } catch (error) {
+    console.warn('Failed to read queued analytics events:', error);
+    return {};
+  }
+}
+
+export async function writeQueuedEvents(queued: QueuedEvents) {
+  try {
+    if (Object.values(queued).every((events) => events.length === 0)) {
+      await AsyncStorage.removeItem(QUEUE_KEY);
+    } else {
+      await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(queued));
+    }
+  } catch (error) {
+    console.warn('Failed to write queued analytics events:', error);
+  }
+}
@@ -0,0 +1,53 @@
+import { PlaybackErrorCode } from '@/src/playback/playbackErrors';
+
+// Every event belongs to one playback session: one title, from opening the player to leaving it
+interface SessionEventBase {
+  sessionId: string;
+  videoId: string;
+  // Epoch milliseconds
+  timestamp: number;
+  // Playback position in seconds when the event happened
+  position: number;
+}
+
+export type PlaybackEvent =
+  | { type: 'session-start'; source: string; startPosition: number }
+  | { type: 'first-frame'; timeToFirstFrameMs: number }
+  // Sent once playback recovers, so it always carries how long the stall lasted
+  | { type: 'rebuffer'; durationMs: number }
+  | { type: 'seek'; from: number; to: number }
+  | { type: 'bitrate-switch'; fromBitrate: number | null; toBitrate: number | null; height?: number }
+  | { type: 'error'; code: PlaybackErrorCode; detail?: string }
+  | { type: 'completion'; duration: number }
+  | {
+    type: 'session-end';
+    duration: number;
+    watchedSeconds: number;
+    rebufferCount: number;
+    rebufferDurationMs: number;
+    completed: boolean;
+  };
+
+export type PlaybackEventType = PlaybackEvent['type'];
+
+export type AnalyticsEvent = SessionEventBase & PlaybackEvent;
+
+export type AnalyticsSinkKind = 'console' | 'http' | 'memory';
+
+export interface AnalyticsSink {
+  kind: AnalyticsSinkKind;
+  // Identifies the sink's retry queue, so it has to stay the same between launches
+  name: string;
+  // Rejects when the batch wasn't delivered, which keeps it queued for another try
+  send: (events: AnalyticsEvent[]) => Promise<void>;
+}
+
+export class AnalyticsDeliveryError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'AnalyticsDeliveryError';
+    this.status = status;
+  }
+}
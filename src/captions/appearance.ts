@@ -0,0 +1,44 @@
+import { MessageKey } from '@/src/i18n/types';
+
+export type CaptionSize = 'small' | 'medium' | 'large';
+
+export interface CaptionAppearance {
+  size: CaptionSize;
+  color: string;
+  // 0 is no box behind the text, 1 is a solid black box
+  backgroundOpacity: number;
+}
+
+export const DEFAULT_CAPTION_APPEARANCE: CaptionAppearance = {
+  size: 'medium',
+  color: '#FFFFFF',
+  backgroundOpacity: 0.75,
+};
+
+// Unscaled font sizes; the overlay multiplies these by useScale()
+export const CAPTION_FONT_SIZES: Record<CaptionSize, number> = {
+  small: 20,
+  medium: 28,
+  large: 36,
+};
+
+export const CAPTION_SIZE_OPTIONS: { value: CaptionSize; labelKey: MessageKey }[] = [
+  { value: 'small', labelKey: 'captions.small' },
+  { value: 'medium', labelKey: 'captions.medium' },
+  { value: 'large', labelKey: 'captions.large' },
+];
+
+export const CAPTION_COLOR_OPTIONS: { value: string; labelKey: MessageKey }[] = [
+  { value: '#FFFFFF', labelKey: 'captions.white' },
+  { value: '#FFEB3B', labelKey: 'captions.yellow' },
+  { value: '#4DD0E1', labelKey: 'captions.cyan' },
+  { value: '#81C784', labelKey: 'captions.green' },
+];
+
+// Options without a label are shown as a percentage in the viewer's locale
+export const CAPTION_BACKGROUND_OPTIONS: { value: number; labelKey?: MessageKey }[] = [
+  { value: 0, labelKey: 'captions.none' },
+  { value: 0.5 },
+  { value: 0.75 },
+  { value: 1, labelKey: 'captions.solid' },
+];
@@ -0,0 +1,97 @@
+import { SubtitleFormat } from '@/src/types/video';
+
+export interface CaptionCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// "00:01:02.500" (WebVTT, hours optional) or "00:01:02,500" (SRT)
+const TIMING_PATTERN = /^((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s+-->\s+((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+
+// Block types in a WebVTT file that never carry cue text
+const VTT_METADATA_BLOCKS = /^(NOTE|STYLE|REGION)(\s|$)/;
+
+function parseTimestamp(value: string): number {
+  const [clock, fraction = '0'] = value.split(/[.,]/);
+  const seconds = clock.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+  return seconds + Number(fraction.padEnd(3, '0')) / 1000;
+}
+
+// Cues are rendered as plain text, so markup (<i>, <c.yellow>, <v Speaker>, SRT {\an8}) is dropped
+function cleanCueText(lines: string[]): string {
+  return lines
+    .join('\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/\{\\[^}]*\}/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+function splitBlocks(text: string): string[][] {
+  return text
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n[ \t]*\n/)
+    .map((block) => block.split('\n').filter((line) => line.trim().length > 0))
+    .filter((lines) => lines.length > 0);
+}
+
+// Both formats share the block layout: optional identifier, timing line, then text lines
+function parseCueBlock(lines: string[]): CaptionCue | null {
+  const timingIndex = lines.findIndex((line) => TIMING_PATTERN.test(line.trim()));
+  if (timingIndex === -1 || timingIndex > 1) {
+    return null;
+  }
+
+  const [, start, end] = lines[timingIndex].trim().match(TIMING_PATTERN) as RegExpMatchArray;
+  const text = cleanCueText(lines.slice(timingIndex + 1));
+  const cue = { start: parseTimestamp(start), end: parseTimestamp(end), text };
+
+  return text && cue.end > cue.start ? cue : null;
+}
+
+function collectCues(blocks: string[][]): CaptionCue[] {
+  return blocks
+    .map(parseCueBlock)
+    .filter((cue): cue is CaptionCue => cue !== null)
+    .sort((a, b) => a.start - b.start);
+}
+
+export function parseWebVTT(text: string): CaptionCue[] {
+  const [header, ...blocks] = splitBlocks(text);
+  if (!header || !/^WEBVTT(\s|$)/.test(header[0])) {
+    throw new Error('Missing WEBVTT header');
+  }
+
+  return collectCues(blocks.filter((lines) => !VTT_METADATA_BLOCKS.test(lines[0])));
+}
+
+export function parseSRT(text: string): CaptionCue[] {
+  const cues = collectCues(splitBlocks(text));
+  if (cues.length === 0 && text.trim().length > 0) {
+    throw new Error('No SRT cues found');
+  }
+  return cues;
+}
+
+export function parseCaptions(text: string, format: SubtitleFormat): CaptionCue[] {
+  return format === 'vtt' ? parseWebVTT(text) : parseSRT(text);
+}
+
+// Cues may overlap (e.g. two speakers), so every cue covering the time is returned
+export function findActiveCues(cues: CaptionCue[], time: number): CaptionCue[] {
+  const active: CaptionCue[] = [];
+  for (const cue of cues) {
+    if (cue.start > time) {
+      break;
+    }
+    if (time < cue.end) {
+      active.push(cue);
+    }
+  }
+  return active;
+}
@@ -0,0 +1,10 @@
+import videosData from '@/src/data/videos.json';
+import { CatalogSource } from './types';
+
+export function createBundledSource(): CatalogSource {
+  return {
+    kind: 'bundled',
+    description: 'bundled videos.json',
+    load: async () => ({ kind: 'fresh', data: videosData }),
+  };
+}
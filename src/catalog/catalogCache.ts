@@ -0,0 +1,41 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const CACHE_KEY = 'catalog-cache';
+
+export interface CachedCatalog {
+  // Raw payload as returned by the source, validated again on read
+  data: unknown;
+  etag?: string;
+  fetchedAt: number;
+  // Description of the source that produced it, so a config change invalidates the cache
+  source: string;
+}
+
+export async function readCachedCatalog(source: string): Promise<CachedCatalog | null> {
+  try {
+    const raw = await AsyncStorage.getItem(CACHE_KEY);
+    if (!raw) {
+      return null;
+    }
+    const cached: CachedCatalog = JSON.parse(raw);
+    return cached.source === source ? cached : null;
+  } catch (error) {
+    console.warn('Failed to read cached catalog:', error);
+    return null;
+  }
+}
+
+export async function writeCachedCatalog(cached: CachedCatalog) {
+  try {
+    await AsyncStorage.setItem(CACHE_KEY, JSON.stringify(cached));
+  } catch (error) {
+    console.warn('Failed to write cached catalog:', error);
+  }
+}
+
+export async function touchCachedCatalog(source: string, fetchedAt: number) {
+  const cached = await readCachedCatalog(source);
+  if (cached) {
+    await writeCachedCatalog({ ...cached, fetchedAt });
+  }
+}
@@ -0,0 +1,38 @@
+import Constants from 'expo-constants';
+import { createBundledSource } from './bundledSource';
+import { createHttpSource } from './httpSource';
+import { createFileSource } from './fileSource';
+import { CatalogSource } from './types';
+
+type CatalogConfig =
+  | { source: 'bundled' }
+  | { source: 'http'; url: string; headers?: Record<string, string>; timeoutMs?: number }
+  | { source: 'file'; path: string };
+
+function readCatalogConfig(): CatalogConfig {
+  const config = Constants.expoConfig?.extra?.catalog;
+  return config && typeof config === 'object' ? config : { source: 'bundled' };
+}
+
+// Builds the source named by `expo.extra.catalog` in app.json, falling back to the bundle
+export function getConfiguredCatalogSource(): CatalogSource {
+  const config = readCatalogConfig();
+
+  switch (config.source) {
+    case 'http':
+      if (config.url) {
+        return createHttpSource(config);
+      }
+      break;
+    case 'file':
+      if (config.path) {
+        return createFileSource(config);
+      }
+      break;
+    case 'bundled':
+      return createBundledSource();
+  }
+
+  console.warn('Invalid catalog config, using bundled catalog:', config);
+  return createBundledSource();
+}
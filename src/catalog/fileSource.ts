@@ -0,0 +1,36 @@
+import * as FileSystem from 'expo-file-system';
+import { CatalogSource, CatalogSourceError } from './types';
+
+export interface FileSourceConfig {
+  // Absolute file:// URI, or a path relative to the app's document directory
+  path: string;
+}
+
+function resolveFileUri(path: string) {
+  if (path.includes('://')) {
+    return path;
+  }
+  return `${FileSystem.documentDirectory ?? ''}${path.replace(/^\/+/, '')}`;
+}
+
+export function createFileSource({ path }: FileSourceConfig): CatalogSource {
+  const uri = resolveFileUri(path);
+
+  return {
+    kind: 'file',
+    description: uri,
+    load: async () => {
+      const info = await FileSystem.getInfoAsync(uri);
+      if (!info.exists) {
+        throw new CatalogSourceError('not-found', `Catalog file not found at ${uri}`);
+      }
+
+      const contents = await FileSystem.readAsStringAsync(uri);
+      try {
+        return { kind: 'fresh', data: JSON.parse(contents) };
+      } catch {
+        throw new CatalogSourceError('parse', `Catalog file at ${uri} is not valid JSON`);
+      }
+    },
+  };
+}
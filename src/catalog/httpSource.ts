@@ -0,0 +1,69 @@
+import { CatalogSource, CatalogSourceError } from './types';
+
+export interface HttpSourceConfig {
+  url: string;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+export function createHttpSource({
+  url,
+  headers = {},
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+}: HttpSourceConfig): CatalogSource {
+  return {
+    kind: 'http',
+    description: url,
+    load: async ({ etag, signal } = {}) => {
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), timeoutMs);
+      const abortFromCaller = () => controller.abort();
+      signal?.addEventListener('abort', abortFromCaller);
+
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          headers: {
+            Accept: 'application/json',
+            ...headers,
+            ...(etag ? { 'If-None-Match': etag } : {}),
+          },
+          signal: controller.signal,
+        });
+      } catch (error) {
+        if (controller.signal.aborted && !signal?.aborted) {
+          throw new CatalogSourceError('timeout', `Catalog request timed out after ${timeoutMs / 1000}s`);
+        }
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new CatalogSourceError('network', `Unable to reach the catalog server (${reason})`);
+      } finally {
+        clearTimeout(timeout);
+        signal?.removeEventListener('abort', abortFromCaller);
+      }
+
+      if (response.status === 304) {
+        return { kind: 'not-modified' };
+      }
+
+      if (!response.ok) {
+        const code = response.status === 404 ? 'not-found' : 'http';
+        throw new CatalogSourceError(code, `Catalog request failed with HTTP ${response.status}`, response.status);
+      }
+
+      let data: unknown;
+      try {
+        data = await response.json();
+      } catch {
+        throw new CatalogSourceError('parse', 'Catalog response is not valid JSON');
+      }
+
+      return {
+        kind: 'fresh',
+        data,
+        etag: response.headers.get('ETag') ?? undefined,
+      };
+    },
+  };
+}
@@ -0,0 +1,57 @@
+import { LocalizedVideoFields, Video } from '@/src/types/video';
+
+export const LOCALIZABLE_FIELDS: (keyof LocalizedVideoFields)[] = ['title', 'description', 'starring', 'thumbnail', 'hero'];
+
+// "pt-BR" is looked up as "pt-BR" and then "pt", before falling back to the entry's own fields
+export function languageFallbacks(language: string): string[] {
+  const base = language.split('-')[0];
+  return base === language ? [language] : [language, base];
+}
+
+function findVariant(video: Video, tag: string): LocalizedVideoFields | undefined {
+  if (!video.localized) {
+    return undefined;
+  }
+  const key = Object.keys(video.localized).find((candidate) => candidate.toLowerCase() === tag.toLowerCase());
+  return key ? video.localized[key] : undefined;
+}
+
+// Each field falls back on its own, so a variant can translate the title and keep the English cast list
+export function localizeVideo(video: Video, language: string): Video {
+  if (!video.localized) {
+    return video;
+  }
+
+  const variants = languageFallbacks(language).map((tag) => findVariant(video, tag)).filter((variant): variant is LocalizedVideoFields => !!variant);
+  if (variants.length === 0) {
+    return video;
+  }
+
+  const localized: Video = { ...video };
+  for (const field of LOCALIZABLE_FIELDS) {
+    // Broken variants only raise a validation warning, so anything that isn't a usable string is skipped
+    const value = variants.map((variant) => variant[field]).find((candidate) => typeof candidate === 'string' && candidate.trim());
+    if (value) {
+      localized[field] = value;
+    }
+  }
+  return localized;
+}
+
+const localizedCatalogs = new WeakMap<Video[], Map<string, Video[]>>();
+
+// Memoized per catalog and language, so store selectors keep returning the same array
+export function localizeCatalog(videos: Video[], language: string): Video[] {
+  let byLanguage = localizedCatalogs.get(videos);
+  if (!byLanguage) {
+    byLanguage = new Map();
+    localizedCatalogs.set(videos, byLanguage);
+  }
+
+  let localized = byLanguage.get(language);
+  if (!localized) {
+    localized = videos.map((video) => localizeVideo(video, language));
+    byLanguage.set(language, localized);
+  }
+  return localized;
+}
@@ -0,0 +1,530 @@
+import { Video } from '@/src/types/video';
+import { LiveChannel } from '@/src/types/live';
+import { MATURITY_RATINGS, isMaturityRating } from '@/src/parental/ratings';
+import { LOCALIZABLE_FIELDS } from './localize';
+
+/**
+ * Catalog documents are versioned. Version 1 was a bare array of videos; from version 2 on
+ * the document is `{ version, videos }`, optionally with live `channels` and the XMLTV
+ * `guide` they are scheduled in. Older documents are migrated step by step up to
+ * CATALOG_SCHEMA_VERSION before their entries are validated.
+ */
+export const CATALOG_SCHEMA_VERSION = 2;
+
+export type IssueSeverity = 'error' | 'warning';
+
+export interface FieldIssue {
+  field: string;
+  message: string;
+  severity: IssueSeverity;
+}
+
+export interface EntryReport {
+  index: number;
+  id?: string;
+  title?: string;
+  issues: FieldIssue[];
+}
+
+export interface CatalogValidationReport {
+  schemaVersion: number;
+  // Version the document declared before migration
+  documentVersion: number;
+  source: string;
+  checkedAt: number;
+  totalEntries: number;
+  acceptedCount: number;
+  // Entries dropped because of at least one error
+  rejected: EntryReport[];
+  // Accepted entries that still had something worth fixing
+  warnings: EntryReport[];
+  catalogIssues: string[];
+}
+
+interface CatalogDocument {
+  version: number;
+  videos: unknown[];
+  channels?: unknown;
+  guide?: unknown;
+}
+
+// Each step only knows the shape it migrates from; the end result is checked once the chain is done
+type Migration = (document: unknown) => unknown;
+
+// Keyed by the version being migrated from
+const MIGRATIONS: Record<number, Migration> = {
+  1: (videos) => ({ version: 2, videos }),
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Array.isArray alone narrows to any[], which would let element checks skip the record guard
+function isList(value: unknown): value is unknown[] {
+  return Array.isArray(value);
+}
+
+function isCatalogDocument(value: unknown): value is CatalogDocument {
+  return isRecord(value) && typeof value.version === 'number' && Array.isArray(value.videos);
+}
+
+function readDocumentVersion(document: unknown): number {
+  if (Array.isArray(document)) {
+    return 1;
+  }
+  if (isRecord(document) && typeof document.version === 'number') {
+    return document.version;
+  }
+  throw new Error('Catalog document has no version');
+}
+
+export function migrateCatalog(document: unknown): { document: CatalogDocument; fromVersion: number } {
+  const fromVersion = readDocumentVersion(document);
+  if (fromVersion > CATALOG_SCHEMA_VERSION) {
+    throw new Error(`Catalog version ${fromVersion} is newer than this app supports (${CATALOG_SCHEMA_VERSION})`);
+  }
+
+  let current = document;
+  for (let version = fromVersion; version < CATALOG_SCHEMA_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration from catalog version ${version}`);
+    }
+    current = migrate(current);
+  }
+
+  if (!isCatalogDocument(current)) {
+    throw new Error('Invalid video data format');
+  }
+  return { document: current, fromVersion };
+}
+
+type FieldCheck = (value: unknown) => string | null;
+
+interface FieldRule {
+  required: boolean;
+  check: FieldCheck;
+  // Severity of a failed check; a missing required field is always an error
+  severity?: IssueSeverity;
+  // Left off the accepted entry when its check fails, rather than kept as it was
+  dropInvalid?: boolean;
+}
+
+const nonEmptyString: FieldCheck = (value) =>
+  typeof value === 'string' && value.trim().length > 0 ? null : 'must be a non-empty string';
+
+const httpUrl: FieldCheck = (value) => {
+  if (typeof value !== 'string') {
+    return 'must be a URL string';
+  }
+  return /^https?:\/\/[^\s/$.?#].[^\s]*$/i.test(value) ? null : `"${value}" is not an http(s) URL`;
+};
+
+const hlsUrl: FieldCheck = (value) => {
+  const urlError = httpUrl(value);
+  if (urlError) {
+    return urlError;
+  }
+  return /\.m3u8(\?|$)/i.test(value as string) ? null : 'does not point to an .m3u8 playlist';
+};
+
+// Accepts "2h 14m", "2h", "22m", "22m per episode", "10:34" and "1:02:03"
+const DURATION_PATTERN = /^(?:\d+h(?: \d{1,2}m)?|\d+m)(?: per episode)?$|^\d{1,2}(?::\d{2}){1,2}$/;
+
+const duration: FieldCheck = (value) => {
+  if (typeof value !== 'string') {
+    return 'must be a string';
+  }
+  return DURATION_PATTERN.test(value) ? null : `"${value}" is not a recognised duration`;
+};
+
+const SUBTITLE_FORMATS = ['vtt', 'srt'];
+
+const STREAM_FORMATS = ['hls', 'dash', 'mp4'];
+
+const streamSources: FieldCheck = (value) => {
+  if (!isList(value)) {
+    return 'must be an array of sources';
+  }
+  for (const [index, source] of value.entries()) {
+    if (!isRecord(source)) {
+      return `source ${index} must be an object`;
+    }
+    const urlError = httpUrl(source.url);
+    if (urlError) {
+      return `source ${index} url ${urlError}`;
+    }
+    if (typeof source.format !== 'string' || !STREAM_FORMATS.includes(source.format)) {
+      return `source ${index} format must be one of ${STREAM_FORMATS.join(', ')}`;
+    }
+    if (source.codecs !== undefined && nonEmptyString(source.codecs)) {
+      return `source ${index} codecs must be a codec list such as "avc1.640028,mp4a.40.2"`;
+    }
+    if (source.height !== undefined && !positiveInteger(source.height)) {
+      return `source ${index} height must be a positive number of lines`;
+    }
+  }
+  return null;
+};
+
+function subtitleTrackProblem(track: unknown): string | null {
+  if (!isRecord(track)) {
+    return 'must be an object';
+  }
+  if (nonEmptyString(track.language)) {
+    return 'needs a language';
+  }
+  if (nonEmptyString(track.label)) {
+    return 'needs a label';
+  }
+  const urlError = httpUrl(track.url);
+  if (urlError) {
+    return `url ${urlError}`;
+  }
+  if (typeof track.format !== 'string' || !SUBTITLE_FORMATS.includes(track.format)) {
+    return `format must be one of ${SUBTITLE_FORMATS.join(', ')}`;
+  }
+  return null;
+}
+
+const subtitleTracks: FieldCheck = (value) => {
+  if (!Array.isArray(value)) {
+    return 'must be an array of subtitle tracks';
+  }
+  for (const [index, track] of value.entries()) {
+    const problem = subtitleTrackProblem(track);
+    if (problem) {
+      return `track ${index} ${problem}`;
+    }
+  }
+  return null;
+};
+
+const seconds = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const chapterList: FieldCheck = (value) => {
+  if (!isList(value)) {
+    return 'must be an array of chapters';
+  }
+  let previousStart = -1;
+  for (const [index, chapter] of value.entries()) {
+    if (!isRecord(chapter) || !seconds(chapter.start)) {
+      return `chapter ${index} needs a start in seconds`;
+    }
+    if (nonEmptyString(chapter.title)) {
+      return `chapter ${index} needs a title`;
+    }
+    if (chapter.start <= previousStart) {
+      return `chapter ${index} starts before the one listed ahead of it`;
+    }
+    previousStart = chapter.start;
+  }
+  return null;
+};
+
+const skippableRange: FieldCheck = (value) => {
+  if (!isRecord(value) || !seconds(value.start) || !seconds(value.end)) {
+    return 'needs a start and end in seconds';
+  }
+  return value.start < value.end ? null : 'must end after it starts';
+};
+
+const positiveInteger = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+function episodeProblem(episode: unknown): string | null {
+  if (!isRecord(episode)) {
+    return 'must be an object';
+  }
+  if (nonEmptyString(episode.id)) {
+    return 'needs an id';
+  }
+  if (!positiveInteger(episode.number)) {
+    return 'needs a positive episode number';
+  }
+  if (nonEmptyString(episode.title)) {
+    return 'needs a title';
+  }
+  const durationError = duration(episode.duration);
+  if (durationError) {
+    return `duration ${durationError}`;
+  }
+  const urlError = httpUrl(episode.url) ?? hlsUrl(episode.hlsUrl);
+  if (urlError) {
+    return `stream ${urlError}`;
+  }
+  if (episode.sources !== undefined) {
+    const sourcesError = streamSources(episode.sources);
+    if (sourcesError) {
+      return `sources ${sourcesError}`;
+    }
+  }
+  if (episode.previewThumbnails !== undefined) {
+    const trackError = httpUrl(episode.previewThumbnails);
+    if (trackError) {
+      return `previewThumbnails ${trackError}`;
+    }
+  }
+  for (const [field, check] of [['chapters', chapterList], ['intro', skippableRange], ['credits', skippableRange]] as const) {
+    const timingError = episode[field] === undefined ? null : check(episode[field]);
+    if (timingError) {
+      return `${field} ${timingError}`;
+    }
+  }
+  return episode.subtitles === undefined ? null : subtitleTracks(episode.subtitles);
+}
+
+const seasons: FieldCheck = (value) => {
+  if (!isList(value) || value.length === 0) {
+    return 'must be a non-empty array of seasons';
+  }
+
+  const episodeIds = new Set<string>();
+  for (const [seasonIndex, season] of value.entries()) {
+    if (!isRecord(season) || !positiveInteger(season.number)) {
+      return `season ${seasonIndex} needs a positive season number`;
+    }
+    if (!isList(season.episodes) || season.episodes.length === 0) {
+      return `season ${season.number} has no episodes`;
+    }
+    for (const episode of season.episodes) {
+      const problem = episodeProblem(episode);
+      if (problem || !isRecord(episode)) {
+        const number = isRecord(episode) && positiveInteger(episode.number) ? episode.number : '?';
+        return `S${season.number} episode ${number} ${problem}`;
+      }
+      const id = episode.id as string;
+      if (episodeIds.has(id)) {
+        return `episode id "${id}" is used more than once`;
+      }
+      episodeIds.add(id);
+    }
+  }
+  return null;
+};
+
+const maturityRating: FieldCheck = (value) =>
+  isMaturityRating(value) ? null : `must be one of ${MATURITY_RATINGS.join(', ')}`;
+
+// "ar", "pt-BR", "zh-Hant"
+const LANGUAGE_TAG_PATTERN = /^[a-z]{2,3}(?:-[a-z0-9]{2,8})*$/i;
+
+const URL_FIELDS = ['thumbnail', 'hero'];
+
+const localizedVariants: FieldCheck = (value) => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return 'must be an object keyed by language tag';
+  }
+  for (const [tag, variant] of Object.entries(value)) {
+    if (!LANGUAGE_TAG_PATTERN.test(tag)) {
+      return `"${tag}" is not a language tag`;
+    }
+    if (!variant || typeof variant !== 'object' || Array.isArray(variant)) {
+      return `${tag} must be an object`;
+    }
+    for (const [field, fieldValue] of Object.entries(variant)) {
+      if (!(LOCALIZABLE_FIELDS as string[]).includes(field)) {
+        return `${tag}.${field} can't be localized`;
+      }
+      const problem = URL_FIELDS.includes(field) ? httpUrl(fieldValue) : nonEmptyString(fieldValue);
+      if (problem) {
+        return `${tag}.${field} ${problem}`;
+      }
+    }
+  }
+  return null;
+};
+
+const VIDEO_SCHEMA: Record<keyof Video, FieldRule> = {
+  id: { required: true, check: nonEmptyString },
+  title: { required: true, check: nonEmptyString },
+  thumbnail: { required: true, check: httpUrl },
+  hero: { required: false, check: httpUrl, severity: 'warning' },
+  description: { required: true, check: nonEmptyString },
+  duration: { required: true, check: duration },
+  url: { required: true, check: httpUrl },
+  hlsUrl: { required: true, check: hlsUrl },
+  // Left off when broken; the required url and hlsUrl are still there to fall back on
+  sources: { required: false, check: streamSources, severity: 'warning', dropInvalid: true },
+  category: { required: true, check: nonEmptyString },
+  starring: { required: false, check: nonEmptyString, severity: 'warning' },
+  // A broken track list costs the viewer captions, not the whole title
+  subtitles: { required: false, check: subtitleTracks, severity: 'warning', dropInvalid: true },
+  // Without the track scrubbing shows just the timecode
+  previewThumbnails: { required: false, check: httpUrl, severity: 'warning' },
+  // Bad timings only cost the ticks and skip buttons, never playback, so they're left off
+  chapters: { required: false, check: chapterList, severity: 'warning', dropInvalid: true },
+  intro: { required: false, check: skippableRange, severity: 'warning', dropInvalid: true },
+  credits: { required: false, check: skippableRange, severity: 'warning', dropInvalid: true },
+  // An unknown rating leaves the title unrated, which parental controls treat as adults-only
+  maturityRating: { required: false, check: maturityRating, severity: 'warning' },
+  // A bad translation falls back to the entry's own fields
+  localized: { required: false, check: localizedVariants, severity: 'warning' },
+  seasons: { required: false, check: seasons },
+};
+
+function validateEntry(entry: unknown, index: number, seenIds: Set<string>): EntryReport {
+  const issues: FieldIssue[] = [];
+
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+    return { index, issues: [{ field: '(entry)', message: 'must be an object', severity: 'error' }] };
+  }
+
+  const record = entry as Record<string, unknown>;
+  for (const [field, rule] of Object.entries(VIDEO_SCHEMA)) {
+    const value = record[field];
+    if (value === undefined || value === null || value === '') {
+      if (rule.required) {
+        issues.push({ field, message: 'is required', severity: 'error' });
+      } else if (field === 'hero') {
+        issues.push({ field, message: 'is missing, the thumbnail will be used as hero art', severity: 'warning' });
+      }
+      continue;
+    }
+
+    const message = rule.check(value);
+    if (message) {
+      issues.push({ field, message, severity: rule.severity ?? 'error' });
+    }
+  }
+
+  const id = typeof record.id === 'string' ? record.id : undefined;
+  if (id && seenIds.has(id)) {
+    issues.push({ field: 'id', message: `duplicates an earlier entry's id "${id}"`, severity: 'error' });
+  }
+
+  return {
+    index,
+    id,
+    title: typeof record.title === 'string' ? record.title : undefined,
+    issues,
+  };
+}
+
+// The entry as the app will use it, without the broken fields that would only get in the way
+function acceptedVideo(entry: unknown, report: EntryReport): Video {
+  const video = { ...(entry as Record<string, unknown>) };
+  for (const issue of report.issues) {
+    if (VIDEO_SCHEMA[issue.field as keyof Video]?.dropInvalid) {
+      delete video[issue.field];
+    }
+  }
+  return video as unknown as Video;
+}
+
+function channelProblem(channel: unknown): string | null {
+  if (!isRecord(channel)) {
+    return 'must be an object';
+  }
+  if (nonEmptyString(channel.id)) {
+    return 'needs an id';
+  }
+  if (!positiveInteger(channel.number)) {
+    return 'needs a positive channel number';
+  }
+  if (nonEmptyString(channel.name)) {
+    return 'needs a name';
+  }
+  const streamError = httpUrl(channel.streamUrl);
+  if (streamError) {
+    return `streamUrl ${streamError}`;
+  }
+  const logoError = channel.logo === undefined ? null : httpUrl(channel.logo);
+  if (logoError) {
+    return `logo ${logoError}`;
+  }
+  if (channel.guideId !== undefined && nonEmptyString(channel.guideId)) {
+    return 'guideId must be a non-empty string';
+  }
+  return null;
+}
+
+// Broken channels are left out of the lineup and reported with the catalog's own issues
+function validateChannels(document: CatalogDocument, catalogIssues: string[]): LiveChannel[] {
+  if (document.channels === undefined) {
+    return [];
+  }
+  if (!Array.isArray(document.channels)) {
+    catalogIssues.push('channels must be an array, no live channels will be shown');
+    return [];
+  }
+
+  const channels: LiveChannel[] = [];
+  const seenIds = new Set<string>();
+  const seenNumbers = new Set<number>();
+  document.channels.forEach((channel, index) => {
+    const problem = channelProblem(channel)
+      ?? (seenIds.has(channel.id) ? `id "${channel.id}" is used more than once` : null)
+      ?? (seenNumbers.has(channel.number) ? `number ${channel.number} is used more than once` : null);
+    if (problem) {
+      catalogIssues.push(`Channel ${index} left out: ${problem}`);
+      return;
+    }
+    seenIds.add(channel.id);
+    seenNumbers.add(channel.number);
+    channels.push(channel as LiveChannel);
+  });
+  return channels.sort((a, b) => a.number - b.number);
+}
+
+export function validateCatalog(data: unknown, source: string): {
+  videos: Video[];
+  channels: LiveChannel[];
+  // XMLTV document the channels' schedules come from
+  guideUrl: string | null;
+  report: CatalogValidationReport;
+} {
+  const { document, fromVersion } = migrateCatalog(data);
+
+  const videos: Video[] = [];
+  const rejected: EntryReport[] = [];
+  const warnings: EntryReport[] = [];
+  const seenIds = new Set<string>();
+
+  document.videos.forEach((entry, index) => {
+    const entryReport = validateEntry(entry, index, seenIds);
+    if (entryReport.issues.some((issue) => issue.severity === 'error')) {
+      rejected.push(entryReport);
+      return;
+    }
+
+    if (entryReport.issues.length > 0) {
+      warnings.push(entryReport);
+    }
+    seenIds.add(entryReport.id as string);
+    videos.push(acceptedVideo(entry, entryReport));
+  });
+
+  const catalogIssues: string[] = [];
+  if (videos.length > 0 && !videos.some((video) => video.hero)) {
+    catalogIssues.push('No accepted video has hero art, the home screen will fall back to thumbnails');
+  }
+
+  const channels = validateChannels(document, catalogIssues);
+  let guideUrl: string | null = null;
+  if (document.guide !== undefined) {
+    const guideError = httpUrl(document.guide);
+    if (guideError) {
+      catalogIssues.push(`guide ${guideError}, channels will have no schedule`);
+    } else {
+      guideUrl = document.guide as string;
+    }
+  }
+
+  return {
+    videos,
+    channels,
+    guideUrl,
+    report: {
+      schemaVersion: CATALOG_SCHEMA_VERSION,
+      documentVersion: fromVersion,
+      source,
+      checkedAt: Date.now(),
+      totalEntries: document.videos.length,
+      acceptedCount: videos.length,
+      rejected,
+      warnings,
+      catalogIssues,
+    },
+  };
+}
@@ -0,0 +1,116 @@
+import { Video, Season, Episode, WatchProgress } from '@/src/types/video';
+
+export interface EpisodeRef {
+  series: Video;
+  season: Season;
+  episode: Episode;
+}
+
+export interface ResumePoint {
+  ref: EpisodeRef;
+  // False when the series hasn't been started, or the last episode watched was finished
+  isResume: boolean;
+}
+
+export function isSeries(video: Video): boolean {
+  return !!video.seasons && video.seasons.length > 0;
+}
+
+export function formatEpisodeLabel({ season, episode }: Pick<EpisodeRef, 'season' | 'episode'>) {
+  return `S${season.number}:E${episode.number}`;
+}
+
+export function listEpisodes(series: Video): EpisodeRef[] {
+  return [...(series.seasons ?? [])]
+    .sort((a, b) => a.number - b.number)
+    .flatMap((season) =>
+      [...season.episodes]
+        .sort((a, b) => a.number - b.number)
+        .map((episode) => ({ series, season, episode }))
+    );
+}
+
+export function findEpisode(videos: Video[], episodeId: string): EpisodeRef | null {
+  for (const video of videos) {
+    const ref = video.seasons && listEpisodes(video).find((candidate) => candidate.episode.id === episodeId);
+    if (ref) {
+      return ref;
+    }
+  }
+  return null;
+}
+
+export function getNextEpisode(ref: EpisodeRef): EpisodeRef | null {
+  const episodes = listEpisodes(ref.series);
+  const index = episodes.findIndex((candidate) => candidate.episode.id === ref.episode.id);
+  return episodes[index + 1] ?? null;
+}
+
+// Episodes play through the same player and route as films, so they are handed around as videos
+export function episodeAsVideo({ series, season, episode }: EpisodeRef): Video {
+  return {
+    id: episode.id,
+    title: `${series.title} ${formatEpisodeLabel({ season, episode })} - ${episode.title}`,
+    thumbnail: episode.thumbnail ?? series.thumbnail,
+    hero: series.hero,
+    description: episode.description ?? series.description,
+    duration: episode.duration,
+    url: episode.url,
+    hlsUrl: episode.hlsUrl,
+    sources: episode.sources,
+    category: series.category,
+    starring: series.starring,
+    subtitles: episode.subtitles ?? series.subtitles,
+    // The series' own track and timings describe the trailer, so they never stand in for an episode's
+    previewThumbnails: episode.previewThumbnails,
+    chapters: episode.chapters,
+    intro: episode.intro,
+    credits: episode.credits,
+    maturityRating: series.maturityRating,
+  };
+}
+
+// Looks up a catalog title or an episode by id
+export function resolvePlayable(videos: Video[], id: string): Video | undefined {
+  const video = videos.find((candidate) => candidate.id === id);
+  if (video) {
+    return video;
+  }
+  const ref = findEpisode(videos, id);
+  return ref ? episodeAsVideo(ref) : undefined;
+}
+
+/**
+ * Picks the episode the Play button should start: the most recently watched one if it's
+ * unfinished, the one after it if it was finished, and the first episode otherwise.
+ */
+export function getResumePoint(
+  series: Video,
+  progress: Record<string, WatchProgress>,
+  completedAt: Record<string, number>
+): ResumePoint | null {
+  const episodes = listEpisodes(series);
+  if (episodes.length === 0) {
+    return null;
+  }
+
+  let latest: { ref: EpisodeRef; at: number; finished: boolean } | null = null;
+  for (const ref of episodes) {
+    const inProgress = progress[ref.episode.id];
+    const finishedAt = completedAt[ref.episode.id];
+    if (inProgress && (!latest || inProgress.updatedAt > latest.at)) {
+      latest = { ref, at: inProgress.updatedAt, finished: false };
+    }
+    if (finishedAt && (!latest || finishedAt > latest.at)) {
+      latest = { ref, at: finishedAt, finished: true };
+    }
+  }
+
+  if (!latest) {
+    return { ref: episodes[0], isResume: false };
+  }
+  if (!latest.finished) {
+    return { ref: latest.ref, isResume: true };
+  }
+  return { ref: getNextEpisode(latest.ref) ?? episodes[0], isResume: false };
+}
@@ -0,0 +1,32 @@
+export type CatalogSourceKind = 'bundled' | 'http' | 'file';
+
+export interface CatalogLoadOptions {
+  // Validator from the last successful load, sent so unchanged feeds can answer 304
+  etag?: string;
+  signal?: AbortSignal;
+}
+
+export type CatalogResponse =
+  | { kind: 'fresh'; data: unknown; etag?: string }
+  | { kind: 'not-modified' };
+
+export interface CatalogSource {
+  kind: CatalogSourceKind;
+  // Human readable origin, used in logs and diagnostics
+  description: string;
+  load: (options?: CatalogLoadOptions) => Promise<CatalogResponse>;
+}
+
+export type CatalogErrorCode = 'network' | 'timeout' | 'http' | 'parse' | 'not-found';
+
+export class CatalogSourceError extends Error {
+  code: CatalogErrorCode;
+  status?: number;
+
+  constructor(code: CatalogErrorCode, message: string, status?: number) {
+    super(message);
+    this.name = 'CatalogSourceError';
+    this.code = code;
+    this.status = status;
+  }
+}
@@ -0,0 +1,99 @@
+import React from 'react';
+import { StyleSheet, View, Pressable } from 'react-native';
+import { ThemedText } from '@/src/components/ThemedText';
+import { CatalogStaleReason } from '@/src/store/types';
+import { useScale } from '@/src/hooks/useScale';
+import { useTranslation } from '@/src/hooks/useTranslation';
+import { AppLocale } from '@/src/i18n/locales';
+import { MessageParams, Translate } from '@/src/i18n/types';
+import { Colors } from '@/src/constants/Colors';
+import Ionicons from '@expo/vector-icons/Ionicons';
+
+interface OfflineBannerProps {
+  reason: CatalogStaleReason;
+  fetchedAt: number | null;
+  onRetry: () => void;
+}
+
+function formatSavedContent(status: string, fetchedAt: number | null, t: Translate, locale: AppLocale) {
+  const params: MessageParams = { status };
+  if (!fetchedAt) {
+    return t('offline.savedContent', params);
+  }
+  const minutes = Math.floor((Date.now() - fetchedAt) / 60000);
+  if (minutes < 1) {
+    return t('offline.savedJustNow', params);
+  }
+  if (minutes < 60) {
+    return t('offline.savedMinutesAgo', { ...params, count: minutes });
+  }
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) {
+    return t('offline.savedHoursAgo', { ...params, count: hours });
+  }
+  return t('offline.savedOn', { ...params, date: new Date(fetchedAt).toLocaleDateString(locale) });
+}
+
+export function OfflineBanner({ reason, fetchedAt, onRetry }: OfflineBannerProps) {
+  const scale = useScale();
+  const styles = useOfflineBannerStyles();
+  const { t, locale } = useTranslation();
+
+  const title = t(reason === 'offline' ? 'offline.offline' : 'offline.refreshFailed');
+
+  return (
+    <View style={styles.container}>
+      <Ionicons
+        name={reason === 'offline' ? 'cloud-offline' : 'warning'}
+        size={16 * scale}
+        color={Colors.white}
+      />
+      <ThemedText style={styles.text} numberOfLines={1}>
+        {formatSavedContent(title, fetchedAt, t, locale)}
+      </ThemedText>
+      <Pressable
+        style={({ pressed, focused }) => [
+          styles.retryButton,
+          (pressed || focused) && styles.retryButtonFocused,
+        ]}
+        onPress={onRetry}
+      >
+        <Ionicons name="refresh" size={14 * scale} color={Colors.black} />
+      </Pressable>
+    </View>
+  );
+}
+
+const useOfflineBannerStyles = function () {
+  const scale = useScale();
+
+  return StyleSheet.create({
+    container: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      alignSelf: 'flex-start',
+      gap: 8 * scale,
+      backgroundColor: 'rgba(0, 0, 0, 0.6)',
+      paddingHorizontal: 12 * scale,
+      paddingVertical: 6 * scale,
+      borderRadius: 16 * scale,
+      borderWidth: 1,
+      borderColor: 'rgba(255, 255, 255, 0.2)',
+    },
+    text: {
+      color: 'rgba(255, 255, 255, 0.9)',
+      fontSize: 12 * scale,
+      lineHeight: 16 * scale,
+      fontWeight: '500',
+    },
+    retryButton: {
+      backgroundColor: 'rgba(255, 255, 255, 0.8)',
+      padding: 4 * scale,
+      borderRadius: 10 * scale,
+    },
+    retryButtonFocused: {
+      backgroundColor: Colors.dark.primary,
+      transform: [{ scale: 1.1 }],
+    },
+  });
+};
@@ -0,0 +1,237 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { StyleSheet, View, Pressable, ScrollView, Image, HWEvent, LayoutChangeEvent, useTVEventHandler } from 'react-native';
+import { useIsFocused } from '@react-navigation/native';
+import { ThemedText } from '@/src/components/ThemedText';
+import { LiveChannel, Programme } from '@/src/types/live';
+import {
+  GUIDE_FUTURE_MS,
+  GUIDE_PAST_MS,
+  GUIDE_SLOT_MS,
+  GUIDE_VISIBLE_SLOTS,
+  GuideCell,
+  buildGuideRow,
+  slotStart,
+} from '@/src/live/guide';
+import { guideIdOf } from '@/src/live/channels';
+import { useScale } from '@/src/hooks/useScale';
+import { useTranslation } from '@/src/hooks/useTranslation';
+import { Colors } from '@/src/constants/Colors';
+import { useColorScheme } from '@/src/hooks/useColorScheme';
+
+const CHANNEL_COLUMN_WIDTH = 160;
+const WINDOW_MS = GUIDE_SLOT_MS * GUIDE_VISIBLE_SLOTS;
+
+export interface GuideFocus {
+  channel: LiveChannel;
+  cell: GuideCell;
+}
+
+interface ProgramGuideProps {
+  channels: LiveChannel[];
+  // Keyed by XMLTV channel id
+  programmes: Map<string, Programme[]>;
+  now: number;
+  onFocusCell: (focus: GuideFocus) => void;
+  onSelectChannel: (channel: LiveChannel) => void;
+}
+
+// Channels down the side and two hours across; Left/Right at either edge of the grid moves it by half an hour
+export function ProgramGuide({ channels, programmes, now, onFocusCell, onSelectChannel }: ProgramGuideProps) {
+  const scale = useScale();
+  const styles = useProgramGuideStyles();
+  const { t, isRTL, formatTime, formatNumber } = useTranslation();
+
+  const [windowStart, setWindowStart] = useState(() => slotStart(now));
+  const [timelineWidth, setTimelineWidth] = useState(0);
+  // The focused cell's channel and span, kept so focus stays on the same programme when the window moves
+  const [focused, setFocused] = useState<{ channelId: string; start: number; end: number } | null>(null);
+  const windowEnd = windowStart + WINDOW_MS;
+
+  const rows = useMemo(
+    () => channels.map((channel) => ({
+      channel,
+      cells: buildGuideRow(programmes.get(guideIdOf(channel)), windowStart, windowEnd),
+    })),
+    [channels, programmes, windowStart, windowEnd]
+  );
+
+  // Until something has focus, the first channel's programme on air takes it
+  const isFocusTarget = (channel: LiveChannel, cell: GuideCell) => focused
+    ? focused.channelId === channel.id && cell.start < focused.end && cell.end > focused.start
+    : channel.id === channels[0]?.id && cell.start <= now && now < cell.end;
+
+  const focusedCell = focused
+    ? rows.find(({ channel }) => channel.id === focused.channelId)?.cells.find((cell) => cell.start < focused.end && cell.end > focused.start)
+    : undefined;
+
+  // Remote events are global, so the grid stays put while a channel plays on top of it
+  const isFocused = useIsFocused();
+
+  // Native focus has nowhere to go past the first or last cell of a row, so those presses page the grid
+  const handleRemoteKey = useCallback((evt: HWEvent) => {
+    if (evt.eventKeyAction !== 1 || !isFocused || !focusedCell) {
+      return;
+    }
+    const later = isRTL ? 'left' : 'right';
+    const earlier = isRTL ? 'right' : 'left';
+    if (evt.eventType === later && focusedCell.end >= windowEnd && windowEnd < slotStart(now) + GUIDE_FUTURE_MS) {
+      setWindowStart(windowStart + GUIDE_SLOT_MS);
+    } else if (evt.eventType === earlier && focusedCell.start <= windowStart && windowStart > slotStart(now) - GUIDE_PAST_MS) {
+      setWindowStart(windowStart - GUIDE_SLOT_MS);
+    }
+  }, [isFocused, focusedCell, isRTL, now, windowStart, windowEnd]);
+
+  useTVEventHandler(handleRemoteKey);
+
+  const handleLayout = useCallback((event: LayoutChangeEvent) => {
+    setTimelineWidth(Math.max(0, event.nativeEvent.layout.width - CHANNEL_COLUMN_WIDTH * scale));
+  }, [scale]);
+
+  const widthOf = (start: number, end: number) => ((end - start) / WINDOW_MS) * timelineWidth;
+
+  return (
+    <View style={styles.container} onLayout={handleLayout}>
+      <View style={styles.timeHeader}>
+        <View style={styles.channelColumn} />
+        {Array.from({ length: GUIDE_VISIBLE_SLOTS }, (_, index) => (
+          <ThemedText key={index} style={[styles.slotLabel, { width: timelineWidth / GUIDE_VISIBLE_SLOTS }]}>
+            {formatTime(windowStart + index * GUIDE_SLOT_MS)}
+          </ThemedText>
+        ))}
+      </View>
+
+      <ScrollView contentContainerStyle={styles.rows}>
+        {timelineWidth > 0 && rows.map(({ channel, cells }) => (
+          <View key={channel.id} style={styles.row}>
+            <View style={[styles.channelColumn, styles.channelCell]}>
+              <ThemedText style={styles.channelNumber}>{formatNumber(channel.number)}</ThemedText>
+              {channel.logo ? (
+                <Image source={{ uri: channel.logo }} style={styles.channelLogo} resizeMode="contain" />
+              ) : (
+                <ThemedText style={styles.channelName} numberOfLines={2}>{channel.name}</ThemedText>
+              )}
+            </View>
+            {cells.map((cell) => {
+              const isOnNow = !!cell.programme && cell.programme.start <= now && now < cell.programme.end;
+              return (
+                <Pressable
+                  key={cell.programme ? `programme-${cell.programme.start}` : `gap-${cell.start}`}
+                  hasTVPreferredFocus={isFocusTarget(channel, cell)}
+                  style={({ focused: isFocused }) => [
+                    styles.cell,
+                    { width: widthOf(cell.start, cell.end) },
+                    isOnNow && styles.cellOnNow,
+                    isFocused && styles.cellFocused,
+                  ]}
+                  onFocus={() => {
+                    setFocused({ channelId: channel.id, start: cell.start, end: cell.end });
+                    onFocusCell({ channel, cell });
+                  }}
+                  onPress={() => onSelectChannel(channel)}
+                  accessibilityLabel={`${t('live.channelLabel', { number: channel.number, name: channel.name })}, ${cell.programme?.title ?? t('live.noInformation')}`}
+                >
+                  <ThemedText style={styles.cellTitle} numberOfLines={1}>
+                    {cell.programme?.title ?? t('live.noInformation')}
+                  </ThemedText>
+                  {cell.programme && (
+                    <ThemedText style={styles.cellTime} numberOfLines={1}>
+                      {formatTime(cell.programme.start)}
+                    </ThemedText>
+                  )}
+                </Pressable>
+              );
+            })}
+          </View>
+        ))}
+      </ScrollView>
+
+      {now >= windowStart && now < windowEnd && timelineWidth > 0 && (
+        <View
+          pointerEvents="none"
+          style={[styles.nowLine, { start: CHANNEL_COLUMN_WIDTH * scale + widthOf(windowStart, now) }]}
+        />
+      )}
+    </View>
+  );
+}
+
+const useProgramGuideStyles = function () {
+  const scale = useScale();
+  const colorScheme = useColorScheme();
+
+  return StyleSheet.create({
+    container: {
+      flex: 1,
+    },
+    timeHeader: {
+      flexDirection: 'row',
+      paddingBottom: 8 * scale,
+    },
+    channelColumn: {
+      width: CHANNEL_COLUMN_WIDTH * scale,
+    },
+    slotLabel: {
+      color: 'rgba(255, 255, 255, 0.7)',
+      fontSize: 14 * scale,
+      fontWeight: '600',
+      paddingStart: 8 * scale,
+    },
+    rows: {
+      gap: 4 * scale,
+    },
+    row: {
+      flexDirection: 'row',
+      height: 64 * scale,
+    },
+    channelCell: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8 * scale,
+      paddingHorizontal: 8 * scale,
+      backgroundColor: 'rgba(255, 255, 255, 0.08)',
+    },
+    channelNumber: {
+      color: 'white',
+      fontSize: 16 * scale,
+      fontWeight: 'bold',
+    },
+    channelLogo: {
+      flex: 1,
+      height: 40 * scale,
+    },
+    channelName: {
+      flex: 1,
+      color: 'white',
+      fontSize: 13 * scale,
+    },
+    cell: {
+      justifyContent: 'center',
+      paddingHorizontal: 10 * scale,
+      borderStartWidth: 2 * scale,
+      borderColor: Colors.dark.background,
+      backgroundColor: 'rgba(255, 255, 255, 0.12)',
+    },
+    cellOnNow: {
+      backgroundColor: 'rgba(255, 255, 255, 0.22)',
+    },
+    cellFocused: {
+      backgroundColor: Colors[colorScheme ?? 'light'].primary,
+    },
+    cellTitle: {
+      color: 'white',
+      fontSize: 14 * scale,
+      fontWeight: '600',
+    },
+    cellTime: {
+      color: 'rgba(255, 255, 255, 0.7)',
+      fontSize: 12 * scale,
+    },
+    nowLine: {
+      position: 'absolute',
+      top: 0,
+      bottom: 0,
+      width: 2 * scale,
+      backgroundColor: '#e50914',
+    },
+  });
+};
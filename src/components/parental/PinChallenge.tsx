@@ -0,0 +1,99 @@
+import React, { useCallback, useState } from 'react';
+import { StyleSheet, View, Pressable } from 'react-native';
+import { ThemedText } from '@/src/components/ThemedText';
+import { PinPad } from './PinPad';
+import { useLibraryStore } from '@/src/store/libraryStore';
+import { useScale } from '@/src/hooks/useScale';
+import { useTranslation } from '@/src/hooks/useTranslation';
+import { Colors } from '@/src/constants/Colors';
+import Ionicons from '@expo/vector-icons/Ionicons';
+
+interface PinChallengeProps {
+  title: string;
+  message?: string;
+  onSuccess: () => void;
+  onCancel: () => void;
+}
+
+// Full-screen PIN prompt standing in front of anything parental controls guard
+export function PinChallenge({ title, message, onSuccess, onCancel }: PinChallengeProps) {
+  const scale = useScale();
+  const styles = usePinChallengeStyles();
+  const { t } = useTranslation();
+  const parentalPin = useLibraryStore((state) => state.parentalPin);
+  const [attemptFailed, setAttemptFailed] = useState(false);
+
+  const handleComplete = useCallback((pin: string) => {
+    if (pin === parentalPin) {
+      onSuccess();
+    } else {
+      setAttemptFailed(true);
+    }
+  }, [parentalPin, onSuccess]);
+
+  return (
+    <View style={styles.container}>
+      <Ionicons name="lock-closed" size={40 * scale} color={Colors.white} />
+      <ThemedText style={styles.title} numberOfLines={2}>{title}</ThemedText>
+      <ThemedText style={[styles.message, attemptFailed && styles.error]}>
+        {attemptFailed ? t('pin.incorrect') : message ?? t('pin.prompt')}
+      </ThemedText>
+
+      <PinPad onComplete={handleComplete} />
+
+      <Pressable
+        style={({ pressed, focused }) => [styles.cancelButton, (pressed || focused) && styles.buttonFocused]}
+        onPress={onCancel}
+      >
+        <ThemedText style={styles.cancelText}>{t('common.cancel')}</ThemedText>
+      </Pressable>
+    </View>
+  );
+}
+
+const usePinChallengeStyles = function () {
+  const scale = useScale();
+
+  return StyleSheet.create({
+    container: {
+      ...StyleSheet.absoluteFillObject,
+      justifyContent: 'center',
+      alignItems: 'center',
+      gap: 12 * scale,
+      backgroundColor: Colors.black,
+    },
+    title: {
+      color: 'white',
+      fontSize: 24 * scale,
+      lineHeight: 32 * scale,
+      fontWeight: 'bold',
+      textAlign: 'center',
+      maxWidth: 600 * scale,
+    },
+    message: {
+      color: 'rgba(255, 255, 255, 0.7)',
+      fontSize: 16 * scale,
+      marginBottom: 8 * scale,
+    },
+    error: {
+      color: '#ff4757',
+    },
+    cancelButton: {
+      marginTop: 8 * scale,
+      paddingHorizontal: 16 * scale,
+      paddingVertical: 8 * scale,
+      borderRadius: 6 * scale,
+      backgroundColor: 'rgba(255, 255, 255, 0.7)',
+    },
+    cancelText: {
+      color: Colors.black,
+      fontSize: 12 * scale,
+      fontWeight: 'bold',
+      letterSpacing: 1,
+    },
+    buttonFocused: {
+      backgroundColor: Colors.dark.primary,
+      transform: [{ scale: 1.05 }],
+    },
+  });
+};
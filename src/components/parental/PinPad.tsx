@@ -0,0 +1,142 @@
+import React, { useCallback, useState } from 'react';
+import { StyleSheet, View, Pressable } from 'react-native';
+import { ThemedText } from '@/src/components/ThemedText';
+import { PIN_LENGTH } from '@/src/parental/ratings';
+import { useScale } from '@/src/hooks/useScale';
+import { useTranslation } from '@/src/hooks/useTranslation';
+import { Colors } from '@/src/constants/Colors';
+import { useColorScheme } from '@/src/hooks/useColorScheme';
+import Ionicons from '@expo/vector-icons/Ionicons';
+
+const DIGIT_ROWS = [
+  ['1', '2', '3'],
+  ['4', '5', '6'],
+  ['7', '8', '9'],
+];
+
+interface PinPadProps {
+  // Called with the full PIN once the last digit is entered; the pad then clears itself
+  onComplete: (pin: string) => void;
+}
+
+interface PinKeyProps {
+  label?: string;
+  icon?: keyof typeof Ionicons.glyphMap;
+  accessibilityLabel?: string;
+  hasTVPreferredFocus?: boolean;
+  onPress: () => void;
+}
+
+function PinKey({ label, icon, accessibilityLabel, hasTVPreferredFocus, onPress }: PinKeyProps) {
+  const scale = useScale();
+  const styles = usePinPadStyles();
+
+  return (
+    <Pressable
+      hasTVPreferredFocus={hasTVPreferredFocus}
+      style={({ pressed, focused }) => [styles.key, (pressed || focused) && styles.keyFocused]}
+      onPress={onPress}
+      accessibilityLabel={accessibilityLabel ?? label}
+    >
+      {({ pressed, focused }) => {
+        const color = pressed || focused ? Colors.black : Colors.white;
+        return icon
+          ? <Ionicons name={icon} size={22 * scale} color={color} />
+          : <ThemedText style={[styles.keyText, { color }]}>{label}</ThemedText>;
+      }}
+    </Pressable>
+  );
+}
+
+export function PinPad({ onComplete }: PinPadProps) {
+  const styles = usePinPadStyles();
+  const { t } = useTranslation();
+  const [digits, setDigits] = useState('');
+
+  const handleDigit = useCallback((digit: string) => {
+    const next = digits + digit;
+    if (next.length < PIN_LENGTH) {
+      setDigits(next);
+      return;
+    }
+    setDigits('');
+    onComplete(next);
+  }, [digits, onComplete]);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.dots} accessibilityLabel={t('pin.progress', { entered: digits.length, count: PIN_LENGTH })}>
+        {Array.from({ length: PIN_LENGTH }, (_, index) => (
+          <View key={index} style={[styles.dot, index < digits.length && styles.dotFilled]} />
+        ))}
+      </View>
+
+      {DIGIT_ROWS.map((row, rowIndex) => (
+        <View key={rowIndex} style={styles.row}>
+          {row.map((digit) => (
+            <PinKey
+              key={digit}
+              label={digit}
+              hasTVPreferredFocus={digit === '1'}
+              onPress={() => handleDigit(digit)}
+            />
+          ))}
+        </View>
+      ))}
+      <View style={styles.row}>
+        <PinKey icon="close" accessibilityLabel={t('common.clear')} onPress={() => setDigits('')} />
+        <PinKey label="0" onPress={() => handleDigit('0')} />
+        <PinKey icon="backspace-outline" accessibilityLabel={t('common.delete')} onPress={() => setDigits(digits.slice(0, -1))} />
+      </View>
+    </View>
+  );
+}
+
+const usePinPadStyles = function () {
+  const scale = useScale();
+  const colorScheme = useColorScheme();
+
+  return StyleSheet.create({
+    container: {
+      alignItems: 'center',
+      gap: 10 * scale,
+    },
+    dots: {
+      flexDirection: 'row',
+      gap: 16 * scale,
+      marginBottom: 12 * scale,
+    },
+    dot: {
+      width: 16 * scale,
+      height: 16 * scale,
+      borderRadius: 8 * scale,
+      borderWidth: 2 * scale,
+      borderColor: 'rgba(255, 255, 255, 0.7)',
+    },
+    dotFilled: {
+      backgroundColor: Colors.white,
+      borderColor: Colors.white,
+    },
+    row: {
+      flexDirection: 'row',
+      gap: 10 * scale,
+    },
+    key: {
+      width: 64 * scale,
+      height: 52 * scale,
+      borderRadius: 8 * scale,
+      justifyContent: 'center',
+      alignItems: 'center',
+      backgroundColor: 'rgba(255, 255, 255, 0.12)',
+    },
+    keyFocused: {
+      backgroundColor: Colors[colorScheme ?? 'light'].primary,
+      transform: [{ scale: 1.1 }],
+    },
+    keyText: {
+      fontSize: 22 * scale,
+      lineHeight: 28 * scale,
+      fontWeight: '600',
+    },
+  });
+};
@@ -0,0 +1,31 @@
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+import { getAvatar } from '@/src/profiles/avatars';
+import { useScale } from '@/src/hooks/useScale';
+import { Colors } from '@/src/constants/Colors';
+import Ionicons from '@expo/vector-icons/Ionicons';
+
+interface ProfileAvatarProps {
+  avatar: string;
+  // Unscaled edge length
+  size?: number;
+}
+
+export function ProfileAvatar({ avatar, size = 96 }: ProfileAvatarProps) {
+  const scale = useScale();
+  const { icon, color } = getAvatar(avatar);
+  const edge = size * scale;
+
+  return (
+    <View style={[styles.avatar, { width: edge, height: edge, borderRadius: edge / 6, backgroundColor: color }]}>
+      <Ionicons name={icon} size={edge * 0.55} color={Colors.black} />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  avatar: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
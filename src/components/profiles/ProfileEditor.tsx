@@ -0,0 +1,282 @@
+import React, { useCallback, useState } from 'react';
+import { StyleSheet, View, Pressable } from 'react-native';
+import { ThemedText } from '@/src/components/ThemedText';
+import { OnScreenKeyboard } from '@/src/components/search/OnScreenKeyboard';
+import { ProfileAvatar } from './ProfileAvatar';
+import { Profile } from '@/src/types/profile';
+import { useLibraryStore } from '@/src/store/libraryStore';
+import { MAX_PROFILE_NAME_LENGTH, PROFILE_AVATARS } from '@/src/profiles/avatars';
+import { KIDS_MAX_RATING } from '@/src/parental/ratings';
+import { AppLocale, LOCALE_NAMES, SUPPORTED_LOCALES } from '@/src/i18n/locales';
+import { useScale } from '@/src/hooks/useScale';
+import { useTranslation } from '@/src/hooks/useTranslation';
+import { Colors } from '@/src/constants/Colors';
+import { useColorScheme } from '@/src/hooks/useColorScheme';
+import Ionicons from '@expo/vector-icons/Ionicons';
+
+interface ProfileEditorProps {
+  // Left out to create a new profile
+  profile?: Profile;
+  onDone: () => void;
+}
+
+export function ProfileEditor({ profile, onDone }: ProfileEditorProps) {
+  const scale = useScale();
+  const styles = useProfileEditorStyles();
+  const { t } = useTranslation();
+  const profileCount = useLibraryStore((state) => state.profiles.length);
+  const addProfile = useLibraryStore((state) => state.addProfile);
+  const updateProfile = useLibraryStore((state) => state.updateProfile);
+  const removeProfile = useLibraryStore((state) => state.removeProfile);
+
+  const [name, setName] = useState(profile?.name ?? '');
+  const [avatar, setAvatar] = useState(profile?.avatar ?? PROFILE_AVATARS[profileCount % PROFILE_AVATARS.length].id);
+  const [isKids, setIsKids] = useState(profile?.isKids ?? false);
+  const [language, setLanguage] = useState<AppLocale | undefined>(profile?.language);
+
+  const trimmedName = name.trim();
+
+  const handleKeyPress = useCallback((key: string) => {
+    setName((prev) => {
+      if (prev.length >= MAX_PROFILE_NAME_LENGTH || (key === ' ' && (prev === '' || prev.endsWith(' ')))) {
+        return prev;
+      }
+      // Names read better capitalised than in the keyboard's lowercase
+      return prev === '' || prev.endsWith(' ') ? prev + key.toUpperCase() : prev + key;
+    });
+  }, []);
+
+  const handleSave = useCallback(() => {
+    if (!trimmedName) {
+      return;
+    }
+    if (profile) {
+      updateProfile(profile.id, { name: trimmedName, avatar, isKids, language });
+    } else {
+      addProfile({ name: trimmedName, avatar, isKids, language });
+    }
+    onDone();
+  }, [trimmedName, avatar, isKids, language, profile, addProfile, updateProfile, onDone]);
+
+  const handleDelete = useCallback(() => {
+    if (profile) {
+      removeProfile(profile.id);
+    }
+    onDone();
+  }, [profile, removeProfile, onDone]);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.column}>
+        <ThemedText style={styles.heading}>{t(profile ? 'profiles.editTitle' : 'profiles.add')}</ThemedText>
+        <View style={styles.nameBox}>
+          <ThemedText style={[styles.nameText, !name && styles.placeholder]} numberOfLines={1}>
+            {name || t('profiles.namePlaceholder')}
+          </ThemedText>
+        </View>
+        <OnScreenKeyboard
+          onKeyPress={handleKeyPress}
+          onBackspace={() => setName((prev) => prev.slice(0, -1))}
+          onClear={() => setName('')}
+        />
+      </View>
+
+      <View style={styles.column}>
+        <View style={styles.preview}>
+          <ProfileAvatar avatar={avatar} size={120} />
+        </View>
+
+        <ThemedText style={styles.label}>{t('profiles.avatar')}</ThemedText>
+        <View style={styles.row}>
+          {PROFILE_AVATARS.map((option) => (
+            <Pressable
+              key={option.id}
+              style={({ pressed, focused }) => [
+                styles.avatarOption,
+                option.id === avatar && styles.avatarSelected,
+                (pressed || focused) && styles.avatarFocused,
+              ]}
+              onPress={() => setAvatar(option.id)}
+              accessibilityLabel={t('profiles.avatarLabel', { name: option.id })}
+              accessibilityState={{ selected: option.id === avatar }}
+            >
+              <ProfileAvatar avatar={option.id} size={40} />
+            </Pressable>
+          ))}
+        </View>
+
+        <Pressable
+          style={({ pressed, focused }) => [styles.toggle, (pressed || focused) && styles.buttonFocused]}
+          onPress={() => setIsKids((prev) => !prev)}
+          accessibilityRole="switch"
+          accessibilityState={{ checked: isKids }}
+        >
+          <Ionicons name={isKids ? 'checkbox' : 'square-outline'} size={18 * scale} color={Colors.white} />
+          <ThemedText style={styles.toggleText}>{t('profiles.kids')}</ThemedText>
+        </Pressable>
+        <ThemedText style={styles.hint}>{t('profiles.kidsHint', { rating: KIDS_MAX_RATING })}</ThemedText>
+
+        <ThemedText style={styles.label}>{t('profiles.language')}</ThemedText>
+        <View style={styles.row}>
+          {[undefined, ...SUPPORTED_LOCALES].map((option) => (
+            <Pressable
+              key={option ?? 'device'}
+              style={({ pressed, focused }) => [
+                styles.languageOption,
+                option === language && styles.avatarSelected,
+                (pressed || focused) && styles.buttonFocused,
+              ]}
+              onPress={() => setLanguage(option)}
+              accessibilityState={{ selected: option === language }}
+            >
+              <ThemedText style={styles.toggleText}>
+                {option ? LOCALE_NAMES[option] : t('profiles.languageDevice')}
+              </ThemedText>
+            </Pressable>
+          ))}
+        </View>
+
+        <View style={styles.row}>
+          <Pressable
+            disabled={!trimmedName}
+            style={({ pressed, focused }) => [
+              styles.primaryButton,
+              !trimmedName && styles.buttonDisabled,
+              (pressed || focused) && styles.buttonFocused,
+            ]}
+            onPress={handleSave}
+          >
+            <ThemedText style={styles.buttonText}>{t('profiles.save')}</ThemedText>
+          </Pressable>
+          {profile && profileCount > 1 && (
+            <Pressable
+              style={({ pressed, focused }) => [styles.secondaryButton, (pressed || focused) && styles.buttonFocused]}
+              onPress={handleDelete}
+            >
+              <ThemedText style={styles.buttonText}>{t('profiles.delete')}</ThemedText>
+            </Pressable>
+          )}
+          <Pressable
+            style={({ pressed, focused }) => [styles.secondaryButton, (pressed || focused) && styles.buttonFocused]}
+            onPress={onDone}
+          >
+            <ThemedText style={styles.buttonText}>{t('common.cancel')}</ThemedText>
+          </Pressable>
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const useProfileEditorStyles = function () {
+  const scale = useScale();
+  const colorScheme = useColorScheme();
+
+  return StyleSheet.create({
+    container: {
+      flexDirection: 'row',
+      justifyContent: 'center',
+      gap: 64 * scale,
+    },
+    column: {
+      gap: 12 * scale,
+    },
+    heading: {
+      color: 'white',
+      fontSize: 28 * scale,
+      lineHeight: 36 * scale,
+      fontWeight: 'bold',
+    },
+    nameBox: {
+      paddingHorizontal: 12 * scale,
+      paddingVertical: 10 * scale,
+      borderRadius: 6 * scale,
+      backgroundColor: 'rgba(255, 255, 255, 0.12)',
+    },
+    nameText: {
+      color: 'white',
+      fontSize: 18 * scale,
+    },
+    placeholder: {
+      color: 'rgba(255, 255, 255, 0.5)',
+    },
+    preview: {
+      alignItems: 'center',
+      marginBottom: 8 * scale,
+    },
+    label: {
+      color: 'rgba(255, 255, 255, 0.7)',
+      fontSize: 14 * scale,
+      fontWeight: '600',
+    },
+    row: {
+      flexDirection: 'row',
+      gap: 8 * scale,
+    },
+    avatarOption: {
+      padding: 3 * scale,
+      borderRadius: 10 * scale,
+      borderWidth: 2 * scale,
+      borderColor: 'transparent',
+    },
+    avatarSelected: {
+      borderColor: 'rgba(255, 255, 255, 0.6)',
+    },
+    avatarFocused: {
+      borderColor: Colors[colorScheme ?? 'light'].primary,
+      transform: [{ scale: 1.1 }],
+    },
+    toggle: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8 * scale,
+      alignSelf: 'flex-start',
+      paddingHorizontal: 12 * scale,
+      paddingVertical: 8 * scale,
+      borderRadius: 6 * scale,
+      backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    },
+    toggleText: {
+      color: 'white',
+      fontSize: 14 * scale,
+      fontWeight: '600',
+    },
+    languageOption: {
+      paddingHorizontal: 12 * scale,
+      paddingVertical: 8 * scale,
+      borderRadius: 6 * scale,
+      borderWidth: 2 * scale,
+      borderColor: 'transparent',
+      backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    },
+    hint: {
+      color: 'rgba(255, 255, 255, 0.6)',
+      fontSize: 12 * scale,
+    },
+    primaryButton: {
+      paddingHorizontal: 16 * scale,
+      paddingVertical: 8 * scale,
+      borderRadius: 6 * scale,
+      backgroundColor: Colors.white,
+    },
+    secondaryButton: {
+      paddingHorizontal: 16 * scale,
+      paddingVertical: 8 * scale,
+      borderRadius: 6 * scale,
+      backgroundColor: 'rgba(255, 255, 255, 0.7)',
+    },
+    buttonDisabled: {
+      opacity: 0.4,
+    },
+    buttonFocused: {
+      backgroundColor: Colors[colorScheme ?? 'light'].primary,
+      transform: [{ scale: 1.05 }],
+    },
+    buttonText: {
+      color: Colors.black,
+      fontSize: 12 * scale,
+      fontWeight: 'bold',
+      letterSpacing: 1,
+    },
+  });
+};
@@ -0,0 +1,183 @@
+import React, { useCallback, useState } from 'react';
+import { StyleSheet, View, Pressable } from 'react-native';
+import { ThemedText } from '@/src/components/ThemedText';
+import { ProfileAvatar } from './ProfileAvatar';
+import { ProfileEditor } from './ProfileEditor';
+import { Profile } from '@/src/types/profile';
+import { useLibraryStore } from '@/src/store/libraryStore';
+import { MAX_PROFILES } from '@/src/profiles/avatars';
+import { useScale } from '@/src/hooks/useScale';
+import { useTranslation } from '@/src/hooks/useTranslation';
+import { Colors } from '@/src/constants/Colors';
+import { useColorScheme } from '@/src/hooks/useColorScheme';
+import Ionicons from '@expo/vector-icons/Ionicons';
+
+interface ProfilePickerProps {
+  // Called once a profile has been picked and made active
+  onDone: () => void;
+}
+
+// "Who's watching?" grid, which also hosts adding, editing and removing profiles
+export function ProfilePicker({ onDone }: ProfilePickerProps) {
+  const scale = useScale();
+  const styles = useProfilePickerStyles();
+  const { t } = useTranslation();
+  const profiles = useLibraryStore((state) => state.profiles);
+  const activeProfileId = useLibraryStore((state) => state.activeProfileId);
+  const switchProfile = useLibraryStore((state) => state.switchProfile);
+
+  const [isManaging, setIsManaging] = useState(false);
+  // Null while the grid shows, undefined while adding a new profile
+  const [editing, setEditing] = useState<Profile | undefined | null>(null);
+
+  const handleSelect = useCallback((profile: Profile) => {
+    if (isManaging) {
+      setEditing(profile);
+      return;
+    }
+    switchProfile(profile.id);
+    onDone();
+  }, [isManaging, switchProfile, onDone]);
+
+  if (editing !== null) {
+    return (
+      <View style={styles.container}>
+        <ProfileEditor profile={editing} onDone={() => setEditing(null)} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <ThemedText style={styles.heading}>{t(isManaging ? 'profiles.manageTitle' : 'profiles.whosWatching')}</ThemedText>
+
+      <View style={styles.grid}>
+        {profiles.map((profile) => (
+          <Pressable
+            key={profile.id}
+            hasTVPreferredFocus={profile.id === activeProfileId}
+            style={({ pressed, focused }) => [styles.tile, (pressed || focused) && styles.tileFocused]}
+            onPress={() => handleSelect(profile)}
+            accessibilityLabel={isManaging ? t('profiles.edit', { name: profile.name }) : profile.name}
+          >
+            <View>
+              <ProfileAvatar avatar={profile.avatar} />
+              {isManaging && (
+                <View style={styles.editBadge}>
+                  <Ionicons name="pencil" size={24 * scale} color={Colors.white} />
+                </View>
+              )}
+            </View>
+            <ThemedText style={styles.name} numberOfLines={1}>{profile.name}</ThemedText>
+            {profile.isKids && <ThemedText style={styles.kidsBadge}>{t('profiles.kidsBadge')}</ThemedText>}
+          </Pressable>
+        ))}
+
+        {profiles.length < MAX_PROFILES && (
+          <Pressable
+            style={({ pressed, focused }) => [styles.tile, (pressed || focused) && styles.tileFocused]}
+            onPress={() => setEditing(undefined)}
+            accessibilityLabel={t('profiles.addLabel')}
+          >
+            <View style={styles.addAvatar}>
+              <Ionicons name="add" size={48 * scale} color={Colors.white} />
+            </View>
+            <ThemedText style={styles.name}>{t('profiles.add')}</ThemedText>
+          </Pressable>
+        )}
+      </View>
+
+      <Pressable
+        style={({ pressed, focused }) => [styles.manageButton, (pressed || focused) && styles.manageButtonFocused]}
+        onPress={() => setIsManaging((prev) => !prev)}
+      >
+        <ThemedText style={styles.manageText}>{t(isManaging ? 'profiles.done' : 'profiles.manage')}</ThemedText>
+      </Pressable>
+    </View>
+  );
+}
+
+const useProfilePickerStyles = function () {
+  const scale = useScale();
+  const colorScheme = useColorScheme();
+
+  return StyleSheet.create({
+    container: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      gap: 32 * scale,
+      backgroundColor: Colors.dark.background,
+    },
+    heading: {
+      color: 'white',
+      fontSize: 36 * scale,
+      lineHeight: 44 * scale,
+      fontWeight: 'bold',
+    },
+    grid: {
+      flexDirection: 'row',
+      gap: 24 * scale,
+    },
+    tile: {
+      alignItems: 'center',
+      gap: 8 * scale,
+      width: 128 * scale,
+      padding: 12 * scale,
+      borderRadius: 12 * scale,
+      borderWidth: 2 * scale,
+      borderColor: 'transparent',
+    },
+    tileFocused: {
+      borderColor: Colors[colorScheme ?? 'light'].primary,
+      transform: [{ scale: 1.08 }],
+    },
+    editBadge: {
+      ...StyleSheet.absoluteFillObject,
+      justifyContent: 'center',
+      alignItems: 'center',
+      borderRadius: 16 * scale,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    },
+    addAvatar: {
+      width: 96 * scale,
+      height: 96 * scale,
+      borderRadius: 16 * scale,
+      justifyContent: 'center',
+      alignItems: 'center',
+      borderWidth: 2 * scale,
+      borderColor: 'rgba(255, 255, 255, 0.4)',
+    },
+    name: {
+      color: 'white',
+      fontSize: 16 * scale,
+      fontWeight: '600',
+    },
+    kidsBadge: {
+      color: Colors.black,
+      fontSize: 10 * scale,
+      lineHeight: 14 * scale,
+      fontWeight: 'bold',
+      letterSpacing: 1,
+      paddingHorizontal: 6 * scale,
+      borderRadius: 4 * scale,
+      backgroundColor: Colors.dark.primary,
+    },
+    manageButton: {
+      paddingHorizontal: 16 * scale,
+      paddingVertical: 8 * scale,
+      borderRadius: 6 * scale,
+      borderWidth: 1,
+      borderColor: 'rgba(255, 255, 255, 0.5)',
+    },
+    manageButtonFocused: {
+      backgroundColor: Colors[colorScheme ?? 'light'].primary,
+    },
+    manageText: {
+      color: 'white',
+      fontSize: 12 * scale,
+      fontWeight: 'bold',
+      letterSpacing: 1,
+    },
+  });
+};
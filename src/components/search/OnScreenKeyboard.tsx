@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { StyleSheet, View, Pressable } from 'react-native';
+import { ThemedText } from '@/src/components/ThemedText';
+import { useScale } from '@/src/hooks/useScale';
+import { useTranslation } from '@/src/hooks/useTranslation';
+import { AppLocale } from '@/src/i18n/locales';
+import { Colors } from '@/src/constants/Colors';
+import { useColorScheme } from '@/src/hooks/useColorScheme';
+import Ionicons from '@expo/vector-icons/Ionicons';
+
+type KeyboardLayout = 'latin' | 'arabic';
+
+const KEY_ROWS: Record<KeyboardLayout, string[][]> = {
+  latin: [
+    ['a', 'b', 'c', 'd', 'e', 'f'],
+    ['g', 'h', 'i', 'j', 'k', 'l'],
+    ['m', 'n', 'o', 'p', 'q', 'r'],
+    ['s', 't', 'u', 'v', 'w', 'x'],
+    ['y', 'z', '1', '2', '3', '4'],
+    ['5', '6', '7', '8', '9', '0'],
+  ],
+  arabic: [
+    ['ا', 'ب', 'ت', 'ث', 'ج', 'ح'],
+    ['خ', 'د', 'ذ', 'ر', 'ز', 'س'],
+    ['ش', 'ص', 'ض', 'ط', 'ظ', 'ع'],
+    ['غ', 'ف', 'ق', 'ك', 'ل', 'م'],
+    ['ن', 'ه', 'و', 'ي', 'ة', 'ء'],
+    ['1', '2', '3', '4', '5', '6'],
+    ['7', '8', '9', '0'],
+  ],
+};
+
+// Each UI language starts on its own alphabet; cast names and untranslated titles still need Latin
+const DEFAULT_LAYOUTS: Record<AppLocale, KeyboardLayout> = {
+  en: 'latin',
+  ar: 'arabic',
+};
+
+interface OnScreenKeyboardProps {
+  onKeyPress: (key: string) => void;
+  onBackspace: () => void;
+  onClear: () => void;
+}
+
+interface KeyProps {
+  label?: string;
+  icon?: keyof typeof Ionicons.glyphMap;
+  accessibilityLabel?: string;
+  wide?: boolean;
+  hasTVPreferredFocus?: boolean;
+  onPress: () => void;
+}
+
+function Key({ label, icon, accessibilityLabel, wide, hasTVPreferredFocus, onPress }: KeyProps) {
+  const scale = useScale();
+  const styles = useOnScreenKeyboardStyles();
+
+  return (
+    <Pressable
+      hasTVPreferredFocus={hasTVPreferredFocus}
+      style={({ pressed, focused }) => [
+        styles.key,
+        wide && styles.wideKey,
+        (pressed || focused) && styles.keyFocused,
+      ]}
+      onPress={onPress}
+      accessibilityLabel={accessibilityLabel ?? label}
+    >
+      {({ pressed, focused }) => {
+        const color = pressed || focused ? Colors.black : Colors.white;
+        return icon
+          ? <Ionicons name={icon} size={18 * scale} color={color} />
+          : <ThemedText style={[styles.keyText, { color }]}>{label}</ThemedText>;
+      }}
+    </Pressable>
+  );
+}
+
+export function OnScreenKeyboard({ onKeyPress, onBackspace, onClear }: OnScreenKeyboardProps) {
+  const styles = useOnScreenKeyboardStyles();
+  const { t, locale } = useTranslation();
+  const [layout, setLayout] = useState(DEFAULT_LAYOUTS[locale]);
+  const otherLayout = layout === 'latin' ? 'arabic' : 'latin';
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <Key label={t('keyboard.space')} accessibilityLabel={t('keyboard.spaceLabel')} wide onPress={() => onKeyPress(' ')} />
+        <Key icon="backspace-outline" accessibilityLabel={t('common.delete')} onPress={onBackspace} />
+        <Key icon="close" accessibilityLabel={t('common.clear')} onPress={onClear} />
+        <Key
+          icon="globe-outline"
+          accessibilityLabel={t(otherLayout === 'latin' ? 'keyboard.latin' : 'keyboard.arabic')}
+          onPress={() => setLayout(otherLayout)}
+        />
+      </View>
+      {KEY_ROWS[layout].map((row, rowIndex) => (
+        <View key={rowIndex} style={styles.row}>
+          {row.map((key, keyIndex) => (
+            <Key
+              key={key}
+              label={key.toUpperCase()}
+              hasTVPreferredFocus={rowIndex === 0 && keyIndex === 0}
+              onPress={() => onKeyPress(key)}
+            />
+          ))}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const useOnScreenKeyboardStyles = function () {
+  const scale = useScale();
+  const colorScheme = useColorScheme();
+
+  return StyleSheet.create({
+    container: {
+      gap: 6 * scale,
+    },
+    row: {
+      flexDirection: 'row',
+      gap: 6 * scale,
+    },
+    key: {
+      width: 40 * scale,
+      height: 40 * scale,
+      borderRadius: 6 * scale,
+      justifyContent: 'center',
+      alignItems: 'center',
+      backgroundColor: 'rgba(255, 255, 255, 0.12)',
+    },
+    wideKey: {
+      width: 126 * scale,
+    },
+    keyFocused: {
+      backgroundColor: Colors[colorScheme ?? 'light'].primary,
+      transform: [{ scale: 1.1 }],
+    },
+    keyText: {
+      fontSize: 14 * scale,
+      lineHeight: 18 * scale,
+      fontWeight: '600',
+    },
+  });
+};
@@ -0,0 +1,87 @@
+import React from 'react';
+import { SubtitleTrack } from '@/src/types/video';
+import {
+  CaptionAppearance,
+  CAPTION_SIZE_OPTIONS,
+  CAPTION_COLOR_OPTIONS,
+  CAPTION_BACKGROUND_OPTIONS,
+} from '@/src/captions/appearance';
+import { useTranslation } from '@/src/hooks/useTranslation';
+import { PlayerMenu, PlayerMenuSection, PlayerMenuOption, PlayerMenuMessage } from './PlayerMenu';
+
+interface CaptionMenuProps {
+  tracks: SubtitleTrack[];
+  activeTrack: SubtitleTrack | null;
+  appearance: CaptionAppearance;
+  error: string | null;
+  onSelectTrack: (track: SubtitleTrack | null) => void;
+  onChangeAppearance: (changes: Partial<CaptionAppearance>) => void;
+}
+
+export function CaptionMenu({
+  tracks,
+  activeTrack,
+  appearance,
+  error,
+  onSelectTrack,
+  onChangeAppearance,
+}: CaptionMenuProps) {
+  const { t, formatNumber } = useTranslation();
+
+  return (
+    <PlayerMenu>
+      <PlayerMenuSection title={t('menu.subtitles')}>
+        <PlayerMenuOption
+          label={t('menu.off')}
+          selected={!activeTrack}
+          hasTVPreferredFocus={!activeTrack}
+          onPress={() => onSelectTrack(null)}
+        />
+        {tracks.map((track) => (
+          <PlayerMenuOption
+            key={track.url}
+            label={track.label}
+            selected={track === activeTrack}
+            hasTVPreferredFocus={track === activeTrack}
+            onPress={() => onSelectTrack(track)}
+          />
+        ))}
+        {error && <PlayerMenuMessage>{error}</PlayerMenuMessage>}
+      </PlayerMenuSection>
+
+      <PlayerMenuSection title={t('menu.size')} inline>
+        {CAPTION_SIZE_OPTIONS.map((option) => (
+          <PlayerMenuOption
+            key={option.value}
+            label={t(option.labelKey)}
+            selected={appearance.size === option.value}
+            onPress={() => onChangeAppearance({ size: option.value })}
+          />
+        ))}
+      </PlayerMenuSection>
+
+      <PlayerMenuSection title={t('menu.color')} inline>
+        {CAPTION_COLOR_OPTIONS.map((option) => (
+          <PlayerMenuOption
+            key={option.value}
+            label={t(option.labelKey)}
+            swatch={option.value}
+            selected={appearance.color === option.value}
+            onPress={() => onChangeAppearance({ color: option.value })}
+          />
+        ))}
+      </PlayerMenuSection>
+
+      <PlayerMenuSection title={t('menu.background')} inline>
+        {CAPTION_BACKGROUND_OPTIONS.map((option) => (
+          <PlayerMenuOption
+            key={option.value}
+            label={option.labelKey ? t(option.labelKey) : formatNumber(option.value, { style: 'percent' })}
+            selected={appearance.backgroundOpacity === option.value}
+            onPress={() => onChangeAppearance({ backgroundOpacity: option.value })}
+          />
+        ))}
+      </PlayerMenuSection>
+    </PlayerMenu>
+  );
+}
@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, View } from 'react-native';
+import { VideoPlayer } from 'expo-video';
+import { ThemedText } from '@/src/components/ThemedText';
+import { CaptionCue, findActiveCues } from '@/src/captions/parseCaptions';
+import { CaptionAppearance, CAPTION_FONT_SIZES } from '@/src/captions/appearance';
+import { useScale } from '@/src/hooks/useScale';
+
+// Playback state only ticks once a second, which is too coarse for dialogue
+const CAPTION_POLL_INTERVAL = 250;
+
+interface CaptionOverlayProps {
+  player: VideoPlayer;
+  cues: CaptionCue[];
+  appearance: CaptionAppearance;
+  // Lift captions clear of the progress bar while the controls are showing
+  raised?: boolean;
+}
+
+export function CaptionOverlay({ player, cues, appearance, raised = false }: CaptionOverlayProps) {
+  const scale = useScale();
+  const styles = useCaptionOverlayStyles();
+  const [activeCues, setActiveCues] = useState<CaptionCue[]>([]);
+
+  useEffect(() => {
+    const update = () => {
+      const next = findActiveCues(cues, player.currentTime);
+      // Only re-render when the visible cues actually change
+      setActiveCues((previous) =>
+        previous.length === next.length && previous.every((cue, index) => cue === next[index])
+          ? previous
+          : next
+      );
+    };
+
+    update();
+    const interval = setInterval(update, CAPTION_POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [player, cues]);
+
+  if (activeCues.length === 0) {
+    return null;
+  }
+
+  const fontSize = CAPTION_FONT_SIZES[appearance.size] * scale;
+
+  return (
+    <View pointerEvents="none" style={[styles.container, raised && styles.raised]}>
+      {activeCues.map((cue) => (
+        <ThemedText
+          key={`${cue.start}-${cue.text}`}
+          style={[
+            styles.cueText,
+            {
+              fontSize,
+              lineHeight: fontSize * 1.3,
+              color: appearance.color,
+              backgroundColor: `rgba(0, 0, 0, ${appearance.backgroundOpacity})`,
+            },
+          ]}
+        >
+          {cue.text}
+        </ThemedText>
+      ))}
+    </View>
+  );
+}
+
+const useCaptionOverlayStyles = function () {
+  const scale = useScale();
+
+  return StyleSheet.create({
+    container: {
+      position: 'absolute',
+      left: 80 * scale,
+      right: 80 * scale,
+      bottom: 48 * scale,
+      alignItems: 'center',
+      gap: 4 * scale,
+    },
+    raised: {
+      bottom: 140 * scale,
+    },
+    cueText: {
+      textAlign: 'center',
+      fontWeight: '600',
+      paddingHorizontal: 10 * scale,
+      paddingVertical: 2 * scale,
+      borderRadius: 4 * scale,
+      textShadowColor: 'rgba(0, 0, 0, 0.9)',
+      textShadowOffset: { width: 1, height: 1 },
+      textShadowRadius: 2,
+    },
+  });
+};
@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { StyleSheet, View, Pressable, ScrollView, Image } from 'react-native';
+import { ThemedText } from '@/src/components/ThemedText';
+import { Video } from '@/src/types/video';
+import { EpisodeRef, listEpisodes } from '@/src/catalog/series';
+import { useLibraryStore } from '@/src/store/libraryStore';
+import { selectProgress, getProgressFraction } from '@/src/store/selectors';
+import { useScale } from '@/src/hooks/useScale';
+import { useTranslation } from '@/src/hooks/useTranslation';
+import { Colors } from '@/src/constants/Colors';
+import { useColorScheme } from '@/src/hooks/useColorScheme';
+import Ionicons from '@expo/vector-icons/Ionicons';
+
+interface EpisodeListProps {
+  series: Video;
+  // Season to open on, usually the one holding the episode Play would start
+  initialSeason?: number;
+  onSelectEpisode: (ref: EpisodeRef) => void;
+}
+
+export function EpisodeList({ series, initialSeason, onSelectEpisode }: EpisodeListProps) {
+  const scale = useScale();
+  const styles = useEpisodeListStyles();
+  const { t } = useTranslation();
+  const progress = useLibraryStore(selectProgress);
+  const completedAt = useLibraryStore((state) => state.completedAt);
+
+  const episodes = listEpisodes(series);
+  const seasonNumbers = [...new Set(episodes.map((ref) => ref.season.number))];
+  const [selectedSeason, setSelectedSeason] = useState(initialSeason ?? seasonNumbers[0]);
+  const seasonEpisodes = episodes.filter((ref) => ref.season.number === selectedSeason);
+
+  return (
+    <View style={styles.container}>
+      {seasonNumbers.length > 1 && (
+        <View style={styles.seasonPicker}>
+          {seasonNumbers.map((number) => (
+            <Pressable
+              key={number}
+              style={({ pressed, focused }) => [
+                styles.seasonChip,
+                number === selectedSeason && styles.seasonChipSelected,
+                (pressed || focused) && styles.focused,
+              ]}
+              // Focusing a season is enough to show it, as on most TV apps
+              onFocus={() => setSelectedSeason(number)}
+              onPress={() => setSelectedSeason(number)}
+            >
+              <ThemedText style={styles.seasonText}>{t('details.season', { number })}</ThemedText>
+            </Pressable>
+          ))}
+        </View>
+      )}
+
+      <ScrollView contentContainerStyle={styles.episodes} showsVerticalScrollIndicator={false}>
+        {seasonEpisodes.map((ref) => {
+          const { episode } = ref;
+          const fraction = getProgressFraction(progress[episode.id]);
+          const isWatched = !progress[episode.id] && !!completedAt[episode.id];
+
+          return (
+            <Pressable
+              key={episode.id}
+              style={({ pressed, focused }) => [styles.episode, (pressed || focused) && styles.focused]}
+              onPress={() => onSelectEpisode(ref)}
+            >
+              <Image
+                style={styles.thumbnail}
+                source={{ uri: episode.thumbnail ?? series.thumbnail }}
+                resizeMode="cover"
+              />
+              <View style={styles.episodeDetails}>
+                <View style={styles.episodeHeader}>
+                  <ThemedText style={styles.episodeTitle} numberOfLines={1}>
+                    {episode.number}. {episode.title}
+                  </ThemedText>
+                  {isWatched && <Ionicons name="checkmark-circle" size={16 * scale} color="white" />}
+                  <ThemedText style={styles.episodeDuration}>{episode.duration}</ThemedText>
+                </View>
+                {episode.description && (
+                  <ThemedText style={styles.episodeDescription} numberOfLines={2}>
+                    {episode.description}
+                  </ThemedText>
+                )}
+                {fraction > 0 && (
+                  <View style={styles.progressTrack}>
+                    <View style={[styles.progressFill, { width: `${fraction * 100}%` }]} />
+                  </View>
+                )}
+              </View>
+            </Pressable>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+}
+
+const useEpisodeListStyles = function () {
+  const scale = useScale();
+  const colorScheme = useColorScheme();
+
+  return StyleSheet.create({
+    container: {
+      flex: 1,
+      gap: 12 * scale,
+    },
+    seasonPicker: {
+      flexDirection: 'row',
+      gap: 8 * scale,
+    },
+    seasonChip: {
+      paddingHorizontal: 14 * scale,
+      paddingVertical: 6 * scale,
+      borderRadius: 6 * scale,
+      backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    },
+    seasonChipSelected: {
+      backgroundColor: 'rgba(255, 255, 255, 0.3)',
+    },
+    seasonText: {
+      color: 'white',
+      fontSize: 14 * scale,
+      fontWeight: '600',
+    },
+    focused: {
+      backgroundColor: Colors[colorScheme ?? 'light'].primary,
+    },
+    episodes: {
+      gap: 8 * scale,
+      paddingBottom: 16 * scale,
+    },
+    episode: {
+      flexDirection: 'row',
+      gap: 12 * scale,
+      padding: 8 * scale,
+      borderRadius: 8 * scale,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    },
+    thumbnail: {
+      width: 160 * scale,
+      height: 90 * scale,
+      borderRadius: 4 * scale,
+    },
+    episodeDetails: {
+      flex: 1,
+      gap: 4 * scale,
+    },
+    episodeHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8 * scale,
+    },
+    episodeTitle: {
+      flex: 1,
+      color: 'white',
+      fontSize: 16 * scale,
+      fontWeight: 'bold',
+    },
+    episodeDuration: {
+      color: 'rgba(255, 255, 255, 0.7)',
+      fontSize: 13 * scale,
+    },
+    episodeDescription: {
+      color: 'rgba(255, 255, 255, 0.8)',
+      fontSize: 13 * scale,
+      lineHeight: 18 * scale,
+    },
+    progressTrack: {
+      height: 3 * scale,
+      borderRadius: 2 * scale,
+      backgroundColor: 'rgba(255, 255, 255, 0.3)',
+    },
+    progressFill: {
+      height: '100%',
+      borderRadius: 2 * scale,
+      backgroundColor: Colors[colorScheme ?? 'light'].primary,
+    },
+  });
+};
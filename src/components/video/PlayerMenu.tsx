@@ -0,0 +1,152 @@
+import React from 'react';
+import { StyleSheet, View, Pressable, ScrollView } from 'react-native';
+import { ThemedText } from '@/src/components/ThemedText';
+import { useScale } from '@/src/hooks/useScale';
+import { Colors } from '@/src/constants/Colors';
+import Ionicons from '@expo/vector-icons/Ionicons';
+
+interface PlayerMenuProps {
+  children: React.ReactNode;
+}
+
+interface PlayerMenuSectionProps {
+  title: string;
+  // Lay options out side by side instead of one per line
+  inline?: boolean;
+  children: React.ReactNode;
+}
+
+interface PlayerMenuOptionProps {
+  label: string;
+  detail?: string;
+  selected: boolean;
+  swatch?: string;
+  hasTVPreferredFocus?: boolean;
+  onPress: () => void;
+}
+
+// Side panel for player settings. Options use native focus, so the player stops handling the
+// D-pad itself while a menu is open
+export function PlayerMenu({ children }: PlayerMenuProps) {
+  const styles = usePlayerMenuStyles();
+
+  return (
+    <View style={styles.panel}>
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        {children}
+      </ScrollView>
+    </View>
+  );
+}
+
+export function PlayerMenuSection({ title, inline = false, children }: PlayerMenuSectionProps) {
+  const styles = usePlayerMenuStyles();
+
+  return (
+    <>
+      <ThemedText style={styles.sectionTitle}>{title}</ThemedText>
+      {inline ? <View style={styles.optionRow}>{children}</View> : children}
+    </>
+  );
+}
+
+export function PlayerMenuOption({
+  label,
+  detail,
+  selected,
+  swatch,
+  hasTVPreferredFocus,
+  onPress,
+}: PlayerMenuOptionProps) {
+  const scale = useScale();
+  const styles = usePlayerMenuStyles();
+
+  return (
+    <Pressable
+      hasTVPreferredFocus={hasTVPreferredFocus}
+      style={({ pressed, focused }) => [styles.option, (pressed || focused) && styles.optionFocused]}
+      onPress={onPress}
+      accessibilityState={{ selected }}
+    >
+      <Ionicons
+        name="checkmark"
+        size={16 * scale}
+        color="white"
+        style={{ opacity: selected ? 1 : 0 }}
+      />
+      {swatch && <View style={[styles.swatch, { backgroundColor: swatch }]} />}
+      <ThemedText style={styles.optionText} numberOfLines={1}>{label}</ThemedText>
+      {detail && <ThemedText style={styles.optionDetail} numberOfLines={1}>{detail}</ThemedText>}
+    </Pressable>
+  );
+}
+
+export function PlayerMenuMessage({ children }: { children: React.ReactNode }) {
+  const styles = usePlayerMenuStyles();
+
+  return <ThemedText style={styles.message}>{children}</ThemedText>;
+}
+
+const usePlayerMenuStyles = function () {
+  const scale = useScale();
+
+  return StyleSheet.create({
+    panel: {
+      position: 'absolute',
+      top: 0,
+      end: 0,
+      bottom: 0,
+      width: 420 * scale,
+      backgroundColor: 'rgba(20, 20, 20, 0.95)',
+    },
+    content: {
+      padding: 24 * scale,
+      gap: 6 * scale,
+    },
+    sectionTitle: {
+      color: 'rgba(255, 255, 255, 0.7)',
+      fontSize: 14 * scale,
+      fontWeight: '600',
+      marginTop: 12 * scale,
+    },
+    optionRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 6 * scale,
+    },
+    option: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8 * scale,
+      paddingHorizontal: 12 * scale,
+      paddingVertical: 8 * scale,
+      borderRadius: 6 * scale,
+      backgroundColor: 'rgba(255, 255, 255, 0.06)',
+    },
+    optionFocused: {
+      backgroundColor: Colors.dark.primary,
+    },
+    optionText: {
+      color: 'white',
+      fontSize: 16 * scale,
+      lineHeight: 22 * scale,
+    },
+    optionDetail: {
+      marginStart: 'auto',
+      color: 'rgba(255, 255, 255, 0.6)',
+      fontSize: 13 * scale,
+      lineHeight: 18 * scale,
+    },
+    swatch: {
+      width: 14 * scale,
+      height: 14 * scale,
+      borderRadius: 7 * scale,
+      borderWidth: 1,
+      borderColor: 'rgba(255, 255, 255, 0.6)',
+    },
+    message: {
+      color: 'rgba(255, 255, 255, 0.6)',
+      fontSize: 13 * scale,
+    },
+  });
+};
@@ -0,0 +1,142 @@
+import React from 'react';
+import { StyleSheet, View, Pressable, Image } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { ThemedText } from '@/src/components/ThemedText';
+import { VideoRail } from './VideoRail';
+import { Video } from '@/src/types/video';
+import { useLibraryStore } from '@/src/store/libraryStore';
+import { selectVideos, selectFavoriteIds } from '@/src/store/selectors';
+import { useRelatedVideos } from '@/src/hooks/useRelatedVideos';
+import { useScale } from '@/src/hooks/useScale';
+import { useTranslation } from '@/src/hooks/useTranslation';
+import { Colors } from '@/src/constants/Colors';
+import Ionicons from '@expo/vector-icons/Ionicons';
+
+interface PostPlayScreenProps {
+  video: Video;
+  onReplay: () => void;
+  onSelect: (video: Video) => void;
+  onClose: () => void;
+}
+
+export function PostPlayScreen({ video, onReplay, onSelect, onClose }: PostPlayScreenProps) {
+  const scale = useScale();
+  const styles = usePostPlayScreenStyles();
+  const { t } = useTranslation();
+  const videos = useLibraryStore(selectVideos);
+  const favoriteIds = useLibraryStore(selectFavoriteIds);
+  const recommendations = useRelatedVideos(video, videos);
+
+  return (
+    <View style={styles.container}>
+      <Image
+        style={styles.backdrop}
+        source={{ uri: video.hero || video.thumbnail }}
+        resizeMode="cover"
+        blurRadius={8}
+      />
+      <LinearGradient
+        colors={['rgba(0,0,0,0.95)', 'rgba(0,0,0,0.6)']}
+        start={{ x: 0, y: 1 }}
+        end={{ x: 0, y: 0 }}
+        style={styles.backdrop}
+      />
+
+      <View style={styles.summary}>
+        <ThemedText style={styles.finished}>{t('postPlay.finished')}</ThemedText>
+        <ThemedText style={styles.title} numberOfLines={2}>{video.title}</ThemedText>
+        <View style={styles.buttons}>
+          <Pressable
+            hasTVPreferredFocus
+            style={({ pressed, focused }) => [styles.primaryButton, (pressed || focused) && styles.buttonFocused]}
+            onPress={onReplay}
+          >
+            <Ionicons name="refresh" size={16 * scale} color={Colors.black} />
+            <ThemedText style={styles.buttonText}>{t('postPlay.replay')}</ThemedText>
+          </Pressable>
+          <Pressable
+            style={({ pressed, focused }) => [styles.secondaryButton, (pressed || focused) && styles.buttonFocused]}
+            onPress={onClose}
+          >
+            <Ionicons name="close" size={16 * scale} color={Colors.black} />
+            <ThemedText style={styles.buttonText}>{t('common.close')}</ThemedText>
+          </Pressable>
+        </View>
+      </View>
+
+      {recommendations.length > 0 && (
+        <VideoRail
+          title={t('postPlay.related')}
+          videos={recommendations}
+          isFavorite={(videoId) => favoriteIds.includes(videoId)}
+          onSelect={onSelect}
+        />
+      )}
+    </View>
+  );
+}
+
+const usePostPlayScreenStyles = function () {
+  const scale = useScale();
+
+  return StyleSheet.create({
+    container: {
+      ...StyleSheet.absoluteFillObject,
+      justifyContent: 'flex-end',
+      paddingBottom: 32 * scale,
+      gap: 32 * scale,
+      backgroundColor: Colors.black,
+    },
+    backdrop: {
+      ...StyleSheet.absoluteFillObject,
+    },
+    summary: {
+      paddingHorizontal: 32 * scale,
+      gap: 8 * scale,
+    },
+    finished: {
+      color: 'rgba(255, 255, 255, 0.7)',
+      fontSize: 16 * scale,
+      fontWeight: '600',
+    },
+    title: {
+      color: 'white',
+      fontSize: 32 * scale,
+      lineHeight: 40 * scale,
+      fontWeight: 'bold',
+    },
+    buttons: {
+      flexDirection: 'row',
+      gap: 16 * scale,
+      marginTop: 8 * scale,
+    },
+    primaryButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6 * scale,
+      backgroundColor: Colors.white,
+      paddingHorizontal: 16 * scale,
+      paddingVertical: 8 * scale,
+      borderRadius: 6 * scale,
+    },
+    secondaryButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6 * scale,
+      backgroundColor: 'rgba(255, 255, 255, 0.7)',
+      paddingHorizontal: 16 * scale,
+      paddingVertical: 8 * scale,
+      borderRadius: 6 * scale,
+    },
+    buttonText: {
+      color: Colors.black,
+      fontSize: 12 * scale,
+      fontWeight: 'bold',
+      letterSpacing: 1,
+    },
+    buttonFocused: {
+      backgroundColor: Colors.dark.primary,
+      transform: [{ scale: 1.05 }],
+    },
+  });
+};
@@ -1,38 +1,61 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { StyleSheet, View, Pressable } from 'react-native';
 import { ThemedText } from '@/src/components/ThemedText';
+import { ScrubPreview, SCRUB_PREVIEW_WIDTH } from './ScrubPreview';
+import { PreviewThumbnail } from '@/src/playback/previewThumbnails';
+import { chapterMarks, findChapter } from '@/src/playback/chapters';
+import { Chapter } from '@/src/types/video';
 import { useScale } from '@/src/hooks/useScale';
+import { useTranslation } from '@/src/hooks/useTranslation';
 import { Colors } from '@/src/constants/Colors';
 
 interface ProgressBarProps {
   currentTime: number;
   duration: number;
+  // Remaining time is shown in real time at this speed
+  playbackRate?: number;
   onSeek: (position: number) => void;
   isFocused?: boolean;
+  // Where the viewer has scrubbed to but not yet seeked, null when not scrubbing
+  scrubTime?: number | null;
+  previewFrame?: PreviewThumbnail | null;
+  // Drawn as ticks on the track, and named in the scrub preview
+  chapters?: Chapter[];
 }
 
-export function ProgressBar({ currentTime, duration, onSeek, isFocused = false }: ProgressBarProps) {
+export function ProgressBar({
+  currentTime,
+  duration,
+  playbackRate = 1,
+  onSeek,
+  isFocused = false,
+  scrubTime = null,
+  previewFrame,
+  chapters,
+}: ProgressBarProps) {
   const scale = useScale();
   const styles = useProgressBarStyles();
+  // Clock times use the locale's digits
+  const { t, isRTL, formatClock: formatTime } = useTranslation();
+
+  const [trackWidth, setTrackWidth] = useState(0);
 
   const progressPercentage = duration > 0 ? (currentTime / duration) * 100 : 0;
+  // The thumb follows the scrub position, the fill keeps showing what is playing
+  const thumbPercentage = scrubTime !== null && duration > 0 ? (scrubTime / duration) * 100 : progressPercentage;
+  // Centred over the thumb, but kept from hanging off either end of the bar
+  const previewWidth = SCRUB_PREVIEW_WIDTH * scale;
+  const previewOffset = Math.max(0, Math.min(trackWidth - previewWidth, (thumbPercentage / 100) * trackWidth - previewWidth / 2));
 
-  const formatTime = (seconds: number) => {
-    const hours = Math.floor(seconds / 3600);
-    const mins = Math.floor((seconds % 3600) / 60);
-    const secs = Math.floor(seconds % 60);
-
-    if (hours > 0) {
-      return `${hours}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
-    }
-    return `${mins}:${secs.toString().padStart(2, '0')}`;
-  };
+  const remainingTime = Math.max(0, duration - currentTime) / playbackRate;
 
   const handleSeek = (event: any) => {
     if (duration > 0) {
       const { locationX } = event.nativeEvent;
       const barWidth = 400 * scale;
-      const seekPosition = (locationX / barWidth) * duration;
+      // The bar fills from the right in right-to-left layouts
+      const offset = isRTL ? barWidth - locationX : locationX;
+      const seekPosition = (offset / barWidth) * duration;
       onSeek(Math.max(0, Math.min(duration, seekPosition)));
     }
   };
@@ -44,7 +67,12 @@ export function ProgressBar({ currentTime, duration, onSeek, isFocused = false }
           {formatTime(currentTime)}
         </ThemedText>
         <ThemedText style={styles.timeText}>
-          {formatTime(duration)}
+          {playbackRate !== 1
+            ? t('player.remainingAtRate', {
+              time: formatTime(remainingTime),
+              rate: t('playbackRate.value', { rate: playbackRate }),
+            })
+            : t('player.remaining', { time: formatTime(remainingTime) })}
         </ThemedText>
       </View>
 
@@ -52,7 +80,10 @@ export function ProgressBar({ currentTime, duration, onSeek, isFocused = false }
         style={styles.progressContainer}
         onPress={handleSeek}
       >
-        <View style={[styles.progressTrack, isFocused && styles.focusedProgressTrack]}>
+        <View
+          style={[styles.progressTrack, isFocused && styles.focusedProgressTrack]}
+          onLayout={(event) => setTrackWidth(event.nativeEvent.layout.width)}
+        >
           <View
             style={[
               styles.progressFill,
@@ -60,14 +91,22 @@ export function ProgressBar({ currentTime, duration, onSeek, isFocused = false }
               isFocused && styles.focusedProgressFill
             ]}
           />
+          {chapterMarks(chapters, duration).map((fraction) => (
+            <View key={fraction} style={[styles.chapterTick, { start: `${fraction * 100}%` }]} />
+          ))}
           {isFocused && (
             <View
               style={[
                 styles.progressThumb,
-                { left: `${Math.max(0, progressPercentage)}%` }
+                { start: `${Math.max(0, thumbPercentage)}%` }
               ]}
             />
           )}
+          {isFocused && scrubTime !== null && (
+            <View style={[styles.preview, { start: previewOffset }]}>
+              <ScrubPreview time={scrubTime} frame={previewFrame} chapterTitle={findChapter(chapters, scrubTime)?.title} />
+            </View>
+          )}
         </View>
       </Pressable>
     </View>
@@ -119,6 +158,14 @@ const useProgressBarStyles = function () {
     focusedProgressFill: {
       backgroundColor: Colors.white,
     },
+    chapterTick: {
+      position: 'absolute',
+      top: 0,
+      bottom: 0,
+      width: 2 * scale,
+      marginStart: -1 * scale,
+      backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    },
     progressThumb: {
       position: 'absolute',
       width: 16 * scale,
@@ -126,10 +173,14 @@ const useProgressBarStyles = function () {
       backgroundColor: Colors.white,
       borderRadius: 8 * scale,
       top: -6 * scale,
-      marginLeft: -8 * scale,
+      marginStart: -8 * scale,
       borderWidth: 2,
       borderColor: Colors.dark.primary,
     },
+    preview: {
+      position: 'absolute',
+      bottom: 20 * scale,
+    },
     instructionContainer: {
       marginTop: 8 * scale,
       alignItems: 'center',
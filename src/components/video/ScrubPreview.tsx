@@ -0,0 +1,95 @@
+import React from 'react';
+import { StyleSheet, View, Image } from 'react-native';
+import { ThemedText } from '@/src/components/ThemedText';
+import { PreviewThumbnail } from '@/src/playback/previewThumbnails';
+import { useScale } from '@/src/hooks/useScale';
+import { useTranslation } from '@/src/hooks/useTranslation';
+import { Colors } from '@/src/constants/Colors';
+
+// Unscaled width of the preview frame; its height follows the thumbnails' aspect ratio
+export const SCRUB_PREVIEW_WIDTH = 192;
+
+interface ScrubPreviewProps {
+  time: number;
+  // Left out when the title has no thumbnail track, leaving just the timecode
+  frame?: PreviewThumbnail | null;
+  // The chapter the time falls in
+  chapterTitle?: string;
+}
+
+// The frame and time a seek would land on, shown above the progress bar thumb while scrubbing
+export function ScrubPreview({ time, frame, chapterTitle }: ScrubPreviewProps) {
+  const scale = useScale();
+  const styles = useScrubPreviewStyles();
+  const { formatClock } = useTranslation();
+
+  const width = SCRUB_PREVIEW_WIDTH * scale;
+
+  return (
+    <View style={styles.container}>
+      {frame && (
+        <View
+          style={[
+            styles.frame,
+            {
+              height: frame.region
+                ? (width * frame.region.height) / frame.region.width
+                : (width * frame.imageHeight) / frame.imageWidth,
+            },
+          ]}
+        >
+          {frame.region ? (
+            // Only the frame's part of the sprite sheet shows through; offsets are physical, not reading order
+            <Image
+              source={{ uri: frame.url }}
+              style={{
+                position: 'absolute',
+                left: -frame.region.x * (width / frame.region.width),
+                top: -frame.region.y * (width / frame.region.width),
+                width: frame.imageWidth * (width / frame.region.width),
+                height: frame.imageHeight * (width / frame.region.width),
+              }}
+            />
+          ) : (
+            <Image source={{ uri: frame.url }} style={StyleSheet.absoluteFill} resizeMode="cover" />
+          )}
+        </View>
+      )}
+      {chapterTitle && <ThemedText style={styles.chapter} numberOfLines={1}>{chapterTitle}</ThemedText>}
+      <ThemedText style={styles.time}>{formatClock(time)}</ThemedText>
+    </View>
+  );
+}
+
+const useScrubPreviewStyles = function () {
+  const scale = useScale();
+
+  return StyleSheet.create({
+    container: {
+      width: SCRUB_PREVIEW_WIDTH * scale,
+      alignItems: 'center',
+      gap: 6 * scale,
+    },
+    frame: {
+      width: '100%',
+      overflow: 'hidden',
+      borderRadius: 6 * scale,
+      borderWidth: 2 * scale,
+      borderColor: Colors.white,
+      backgroundColor: Colors.black,
+    },
+    chapter: {
+      color: Colors.white,
+      fontSize: 14 * scale,
+      fontWeight: '600',
+    },
+    time: {
+      color: Colors.white,
+      fontSize: 16 * scale,
+      fontWeight: 'bold',
+      paddingHorizontal: 8 * scale,
+      borderRadius: 4 * scale,
+      backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    },
+  });
+};
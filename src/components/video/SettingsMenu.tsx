@@ -0,0 +1,66 @@
+import React from 'react';
+import { AudioTrack } from 'expo-video';
+import { QualityOption, AUTO_QUALITY } from '@/src/playback/hlsManifest';
+import { useTranslation } from '@/src/hooks/useTranslation';
+import { Translate } from '@/src/i18n/types';
+import { PlayerMenu, PlayerMenuSection, PlayerMenuOption, PlayerMenuMessage } from './PlayerMenu';
+
+interface SettingsMenuProps {
+  audioTracks: AudioTrack[];
+  activeAudioTrack: AudioTrack | null;
+  qualities: QualityOption[];
+  activeQuality: QualityOption;
+  onSelectAudioTrack: (track: AudioTrack) => void;
+  onSelectQuality: (quality: QualityOption) => void;
+}
+
+function audioTrackLabel(track: AudioTrack, t: Translate) {
+  return track.label || track.language.toUpperCase() || t('menu.unknownAudio');
+}
+
+export function SettingsMenu({
+  audioTracks,
+  activeAudioTrack,
+  qualities,
+  activeQuality,
+  onSelectAudioTrack,
+  onSelectQuality,
+}: SettingsMenuProps) {
+  const { t } = useTranslation();
+
+  return (
+    <PlayerMenu>
+      <PlayerMenuSection title={t('menu.audio')}>
+        {audioTracks.length > 0 ? (
+          audioTracks.map((track) => (
+            <PlayerMenuOption
+              key={track.id}
+              label={audioTrackLabel(track, t)}
+              detail={track.label ? track.language : undefined}
+              selected={track.id === activeAudioTrack?.id}
+              onPress={() => onSelectAudioTrack(track)}
+            />
+          ))
+        ) : (
+          <PlayerMenuMessage>{t('menu.singleAudioTrack')}</PlayerMenuMessage>
+        )}
+      </PlayerMenuSection>
+
+      <PlayerMenuSection title={t('menu.quality')}>
+        {[AUTO_QUALITY, ...qualities].map((quality) => (
+          <PlayerMenuOption
+            key={quality.id}
+            label={quality.id === AUTO_QUALITY.id ? t('menu.autoQuality') : quality.label}
+            detail={quality.detail}
+            selected={quality.id === activeQuality.id}
+            hasTVPreferredFocus={quality.id === activeQuality.id}
+            onPress={() => onSelectQuality(quality)}
+          />
+        ))}
+        {qualities.length === 0 && (
+          <PlayerMenuMessage>{t('menu.autoQualityHint')}</PlayerMenuMessage>
+        )}
+      </PlayerMenuSection>
+    </PlayerMenu>
+  );
+}
@@ -0,0 +1,29 @@
+import React from 'react';
+import { PLAYBACK_RATES, formatPlaybackRate } from '@/src/playback/playbackRate';
+import { useTranslation } from '@/src/hooks/useTranslation';
+import { PlayerMenu, PlayerMenuSection, PlayerMenuOption } from './PlayerMenu';
+
+interface SpeedMenuProps {
+  playbackRate: number;
+  onSelectRate: (rate: number) => void;
+}
+
+export function SpeedMenu({ playbackRate, onSelectRate }: SpeedMenuProps) {
+  const { t } = useTranslation();
+
+  return (
+    <PlayerMenu>
+      <PlayerMenuSection title={t('menu.playbackSpeed')}>
+        {PLAYBACK_RATES.map((rate) => (
+          <PlayerMenuOption
+            key={rate}
+            label={formatPlaybackRate(rate, t)}
+            selected={rate === playbackRate}
+            hasTVPreferredFocus={rate === playbackRate}
+            onPress={() => onSelectRate(rate)}
+          />
+        ))}
+      </PlayerMenuSection>
+    </PlayerMenu>
+  );
+}
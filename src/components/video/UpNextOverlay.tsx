@@ -0,0 +1,113 @@
+import React from 'react';
+import { StyleSheet, View, Pressable, Image } from 'react-native';
+import { ThemedText } from '@/src/components/ThemedText';
+import { Video } from '@/src/types/video';
+import { useScale } from '@/src/hooks/useScale';
+import { useTranslation } from '@/src/hooks/useTranslation';
+import { Colors } from '@/src/constants/Colors';
+import Ionicons from '@expo/vector-icons/Ionicons';
+
+interface UpNextOverlayProps {
+  video: Video;
+  secondsLeft: number;
+  onPlayNow: () => void;
+  onCancel: () => void;
+}
+
+export function UpNextOverlay({ video, secondsLeft, onPlayNow, onCancel }: UpNextOverlayProps) {
+  const scale = useScale();
+  const styles = useUpNextOverlayStyles();
+  const { t } = useTranslation();
+
+  return (
+    <View style={styles.card}>
+      <Image style={styles.thumbnail} source={{ uri: video.thumbnail }} resizeMode="cover" />
+      <View style={styles.details}>
+        <ThemedText style={styles.countdown}>{t('upNext.countdown', { count: secondsLeft })}</ThemedText>
+        <ThemedText style={styles.title} numberOfLines={1}>{video.title}</ThemedText>
+        <View style={styles.buttons}>
+          <Pressable
+            hasTVPreferredFocus
+            style={({ pressed, focused }) => [styles.playButton, (pressed || focused) && styles.buttonFocused]}
+            onPress={onPlayNow}
+          >
+            <Ionicons name="play" size={14 * scale} color={Colors.black} />
+            <ThemedText style={styles.buttonText}>{t('upNext.playNow')}</ThemedText>
+          </Pressable>
+          <Pressable
+            style={({ pressed, focused }) => [styles.cancelButton, (pressed || focused) && styles.buttonFocused]}
+            onPress={onCancel}
+          >
+            <ThemedText style={styles.buttonText}>{t('common.cancel')}</ThemedText>
+          </Pressable>
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const useUpNextOverlayStyles = function () {
+  const scale = useScale();
+
+  return StyleSheet.create({
+    card: {
+      position: 'absolute',
+      end: 40 * scale,
+      bottom: 40 * scale,
+      flexDirection: 'row',
+      gap: 16 * scale,
+      padding: 16 * scale,
+      borderRadius: 10 * scale,
+      backgroundColor: 'rgba(20, 20, 20, 0.92)',
+      width: 520 * scale,
+    },
+    thumbnail: {
+      width: 180 * scale,
+      height: 101 * scale,
+      borderRadius: 6 * scale,
+    },
+    details: {
+      flex: 1,
+      justifyContent: 'space-between',
+    },
+    countdown: {
+      color: 'rgba(255, 255, 255, 0.7)',
+      fontSize: 14 * scale,
+      fontWeight: '600',
+    },
+    title: {
+      color: 'white',
+      fontSize: 18 * scale,
+      fontWeight: 'bold',
+    },
+    buttons: {
+      flexDirection: 'row',
+      gap: 10 * scale,
+    },
+    playButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6 * scale,
+      backgroundColor: Colors.white,
+      paddingHorizontal: 14 * scale,
+      paddingVertical: 6 * scale,
+      borderRadius: 6 * scale,
+    },
+    cancelButton: {
+      backgroundColor: 'rgba(255, 255, 255, 0.7)',
+      paddingHorizontal: 14 * scale,
+      paddingVertical: 6 * scale,
+      borderRadius: 6 * scale,
+    },
+    buttonText: {
+      color: Colors.black,
+      fontSize: 12 * scale,
+      fontWeight: 'bold',
+      letterSpacing: 1,
+    },
+    buttonFocused: {
+      backgroundColor: Colors.dark.primary,
+      transform: [{ scale: 1.05 }],
+    },
+  });
+};
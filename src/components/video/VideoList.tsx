@@ -1,13 +1,14 @@
 import React, { useState } from 'react';
-import { StyleSheet, FlatList, View, Alert, Pressable } from 'react-native';
+import { StyleSheet, FlatList, View, Pressable } from 'react-native';
+import { useRouter } from 'expo-router';
 import { ThemedText } from '@/src/components/ThemedText';
 import { ThemedView } from '@/src/components/ThemedView';
 import { VideoListItem } from './VideoListItem';
-import { VideoPlayer } from './VideoPlayer';
 import { Video } from '@/src/types/video';
 import { useVideoData } from '@/src/hooks/useVideoData';
 import { useScale } from '@/src/hooks/useScale';
 import { useTextStyles } from '@/src/hooks/useTextStyles';
+import { useTranslation } from '@/src/hooks/useTranslation';
 import { Colors } from '@/src/constants/Colors';
 import { useColorScheme } from '@/src/hooks/useColorScheme';
 import Ionicons from '@expo/vector-icons/Ionicons';
@@ -20,6 +21,8 @@ export function VideoList({ showFavoritesOnly = false }: VideoListProps) {
   const scale = useScale();
   const textStyles = useTextStyles();
   const styles = useVideoListStyles();
+  const router = useRouter();
+  const { t } = useTranslation();
 
   const {
     videos,
@@ -32,54 +35,25 @@ export function VideoList({ showFavoritesOnly = false }: VideoListProps) {
   } = useVideoData();
 
   const [selectedVideo, setSelectedVideo] = useState<Video | null>(null);
-  const [playingVideo, setPlayingVideo] = useState<Video | null>(null);
 
   const displayVideos = showFavoritesOnly ? getFavoriteVideos() : videos;
 
   const handleVideoSelect = (video: Video) => {
     setSelectedVideo(video);
-    setPlayingVideo(video);
-  };
-
-  const handleClosePlayer = () => {
-    setPlayingVideo(null);
-    setSelectedVideo(null);
-  };
-
-  const handlePlayerError = (errorMessage: string) => {
-    Alert.alert(
-      'Playback Error',
-      errorMessage,
-      [
-        {
-          text: 'OK',
-          onPress: () => handleClosePlayer(),
-        },
-      ]
-    );
+    router.push(`/video/${video.id}`);
   };
 
   const handleRetry = () => {
     retryLoading();
   };
 
-  if (playingVideo) {
-    return (
-      <VideoPlayer
-        video={playingVideo}
-        onClose={handleClosePlayer}
-        onError={handlePlayerError}
-      />
-    );
-  }
-
   if (isLoading) {
     return (
       <ThemedView style={styles.centerContainer}>
         <View style={styles.loadingContainer}>
           <Ionicons name="play-circle" size={64 * scale} color={Colors.light.tint} />
           <ThemedText style={[textStyles.title, styles.loadingText]}>
-            Loading Videos...
+            {t('videoList.loading')}
           </ThemedText>
         </View>
       </ThemedView>
@@ -92,7 +66,7 @@ export function VideoList({ showFavoritesOnly = false }: VideoListProps) {
         <View style={styles.errorContainer}>
           <Ionicons name="alert-circle" size={64 * scale} color={Colors.light.tint} />
           <ThemedText style={[textStyles.title, styles.errorTitle]}>
-            Unable to Load Videos
+            {t('videoList.errorTitle')}
           </ThemedText>
           <ThemedText style={[textStyles.default, styles.errorMessage]}>
             {error}
@@ -102,7 +76,7 @@ export function VideoList({ showFavoritesOnly = false }: VideoListProps) {
             (pressed || focused) && styles.buttonFocused,
           ]} onPress={handleRetry}>
             <Ionicons name="refresh" size={20 * scale} color="#fff" />
-            <ThemedText style={styles.retryButtonText}>Retry</ThemedText>
+            <ThemedText style={styles.retryButtonText}>{t('videoList.retry')}</ThemedText>
           </Pressable>
         </View>
       </ThemedView>
@@ -115,10 +89,10 @@ export function VideoList({ showFavoritesOnly = false }: VideoListProps) {
         <View style={styles.emptyContainer}>
           <Ionicons name="heart-outline" size={64 * scale} color={Colors.light.tint} />
           <ThemedText style={[textStyles.title, styles.emptyTitle]}>
-            No Favorites Yet
+            {t('videoList.emptyTitle')}
           </ThemedText>
           <ThemedText style={[textStyles.default, styles.emptyMessage]}>
-            Add videos to your favorites by tapping the heart icon
+            {t('videoList.emptyMessage')}
           </ThemedText>
         </View>
       </ThemedView>
@@ -129,10 +103,10 @@ export function VideoList({ showFavoritesOnly = false }: VideoListProps) {
     <ThemedView style={styles.container}>
       <View style={styles.header}>
         <ThemedText style={[textStyles.title, styles.headerTitle]}>
-          {showFavoritesOnly ? 'Favorite Videos' : 'Video Library'}
+          {t(showFavoritesOnly ? 'videoList.favoritesTitle' : 'videoList.libraryTitle')}
         </ThemedText>
         <ThemedText style={[textStyles.caption, styles.videoCount]}>
-          {displayVideos.length} video{displayVideos.length !== 1 ? 's' : ''}
+          {t('videoList.count', { count: displayVideos.length })}
         </ThemedText>
       </View>
 
@@ -140,7 +140,7 @@ const useVideoListItemStyles = function () {
     },
     thumbnailContainer: {
       position: 'relative',
-      marginRight: 12 * scale,
+      marginEnd: 12 * scale,
     },
     thumbnail: {
       width: 120 * scale,
@@ -151,7 +151,7 @@ const useVideoListItemStyles = function () {
     durationBadge: {
       position: 'absolute',
       bottom: 4 * scale,
-      right: 4 * scale,
+      end: 4 * scale,
       backgroundColor: 'rgba(0, 0, 0, 0.8)',
       paddingHorizontal: 6 * scale,
       paddingVertical: 2 * scale,
@@ -165,7 +165,7 @@ const useVideoListItemStyles = function () {
     favoriteIcon: {
       position: 'absolute',
       top: 4 * scale,
-      right: 4 * scale,
+      end: 4 * scale,
       backgroundColor: 'rgba(255, 255, 255, 0.9)',
       borderRadius: 12 * scale,
       width: 24 * scale,
@@ -192,7 +192,7 @@ const useVideoListItemStyles = function () {
     },
     favoriteButton: {
       padding: 8 * scale,
-      marginLeft: 8 * scale,
+      marginStart: 8 * scale,
     },
   });
 };
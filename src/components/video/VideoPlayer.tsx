@@ -1,39 +1,227 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { StyleSheet, View, Pressable, Platform, BackHandler, TVEventHandler } from 'react-native';
 import { VideoView } from 'expo-video';
 import { ThemedText } from '@/src/components/ThemedText';
 import { ThemedView } from '@/src/components/ThemedView';
 import { ProgressBar } from './ProgressBar';
-import { VideoPlayerProps } from '@/src/types/video';
+import { CaptionOverlay } from './CaptionOverlay';
+import { CaptionMenu } from './CaptionMenu';
+import { SettingsMenu } from './SettingsMenu';
+import { SpeedMenu } from './SpeedMenu';
+import { UpNextOverlay } from './UpNextOverlay';
+import { PostPlayScreen } from './PostPlayScreen';
+import { Video, VideoPlayerProps } from '@/src/types/video';
 import { useScale } from '@/src/hooks/useScale';
 import { useTextStyles } from '@/src/hooks/useTextStyles';
 import { useVideoHandler } from '@/src/hooks/useVideoHandler';
+import { useCaptions } from '@/src/hooks/useCaptions';
+import { useStreamOptions } from '@/src/hooks/useStreamOptions';
+import { usePreviewThumbnails } from '@/src/hooks/usePreviewThumbnails';
+import { useScrubbing } from '@/src/hooks/useScrubbing';
+import { useLiveEdge } from '@/src/hooks/useLiveEdge';
+import { useTranslation } from '@/src/hooks/useTranslation';
+import { useLibraryStore } from '@/src/store/libraryStore';
+import { findPreviewThumbnail } from '@/src/playback/previewThumbnails';
+import { findActiveSkip, nextChapterStart, previousChapterStart } from '@/src/playback/chapters';
+import { playbackErrorLabelKey, playbackErrorMessageKey } from '@/src/playback/playbackErrors';
+import { MAX_RETRIES_PER_SOURCE } from '@/src/playback/retryPolicy';
+import { formatSourceLabel, listVideoSources } from '@/src/playback/sourceSelection';
+import { hostOf } from '@/src/playback/hostHealth';
 import { Colors } from '@/src/constants/Colors';
 import Ionicons from '@expo/vector-icons/Ionicons';
 
-export function VideoPlayer({ video, onClose, onError }: VideoPlayerProps) {
+type PlayerControl = 'back' | 'captions' | 'speed' | 'settings' | 'seekBackward' | 'playPause' | 'seekForward' | 'progress' | 'skip' | 'goLive';
+
+type PlayerMenuKind = 'captions' | 'speed' | 'settings';
+
+const CENTER_CONTROLS: PlayerControl[] = ['seekBackward', 'playPause', 'seekForward'];
+
+// Live streams only pause; the way forward again is Go Live
+const LIVE_CENTER_CONTROLS: PlayerControl[] = ['playPause'];
+
+// Seconds of (real) time left when the Up Next countdown appears
+const UP_NEXT_COUNTDOWN = 10;
+
+// Left and right follow reading order, so in right-to-left layouts the D-pad swaps them
+function toReadingDirection(eventType: string, isRTL: boolean) {
+    if (isRTL && (eventType === 'left' || eventType === 'longLeft')) {
+        return eventType === 'left' ? 'right' : 'longRight';
+    }
+    if (isRTL && (eventType === 'right' || eventType === 'longRight')) {
+        return eventType === 'right' ? 'left' : 'longLeft';
+    }
+    return eventType;
+}
+
+export function VideoPlayer({ video, startTime, upNext, onPlayVideo, onClose, onError, live }: VideoPlayerProps) {
     const scale = useScale();
     const textStyles = useTextStyles();
     const styles = useVideoPlayerStyles();
+    const { t, isRTL, formatTime } = useTranslation();
+    const catalogSources = useMemo(() => listVideoSources(video), [video]);
+
+    const isLive = !!live;
 
     const {
         player,
         playbackState,
+        updatePlaybackState,
         handlePlayPause,
         handleSeek,
+        handleSeekWithPause,
         handleSeekForward,
         handleSeekBackward,
+        handleSetPlaybackRate,
+        handleReplay,
         handleRetry,
+        handleSelectRendition,
+        handleFirstFrame,
+        sources,
+        activeSource,
+        activeRendition,
+        attempts,
+        scheduledRetry,
     } = useVideoHandler({
         videoId: video.id,
-        url: video.url,
-        hlsUrl: video.hlsUrl,
+        sources: catalogSources,
+        startTime,
+        isLive,
     });
+    const { isBehindLive, jumpToLive } = useLiveEdge(player, isLive);
+
+    const {
+        tracks: captionTracks,
+        activeTrack: activeCaptionTrack,
+        cues: captionCues,
+        error: captionError,
+        selectTrack: selectCaptionTrack,
+    } = useCaptions(video.subtitles);
+    const {
+        audioTracks,
+        activeAudioTrack,
+        selectAudioTrack,
+        qualities,
+        activeQuality,
+        selectQuality,
+    } = useStreamOptions({
+        player,
+        videoId: video.id,
+        hlsUrl: activeSource?.format === 'hls' ? activeSource.url : undefined,
+        rendition: activeRendition,
+        onSelectRendition: handleSelectRendition,
+    });
+    const previewFrames = usePreviewThumbnails(video.previewThumbnails);
+    const captionAppearance = useLibraryStore((state) => state.captionAppearance);
+    const updateCaptionAppearance = useLibraryStore((state) => state.updateCaptionAppearance);
 
     const [showControls, setShowControls] = useState(true);
+    const [openMenu, setOpenMenu] = useState<PlayerMenuKind | null>(null);
     const [isRetrying, setIsRetrying] = useState(false);
-    const [focusedControl, setFocusedControl] = useState<'back' | 'seekBackward' | 'playPause' | 'seekForward' | 'progress' | null>('playPause');
+    const [isUpNextDismissed, setIsUpNextDismissed] = useState(false);
+    const [focusedControl, setFocusedControl] = useState<PlayerControl | null>('playPause');
+    const hasCaptions = captionTracks.length > 0;
+    // Speeding up can't get ahead of a live stream, so live channels leave the speed button out
+    const topControls = useMemo<PlayerControl[]>(
+        () => [
+            'back',
+            ...(hasCaptions ? ['captions' as const] : []),
+            ...(isLive ? [] : ['speed' as const]),
+            'settings',
+        ],
+        [hasCaptions, isLive]
+    );
+    const centerControls = isLive ? LIVE_CENTER_CONTROLS : CENTER_CONTROLS;
     const hideControlsTimeout = useRef<number | null>(null);
+    // Left/right on the progress bar move a preview position, and the player only seeks once at the end
+    const {
+        scrubTime,
+        isScrubbing,
+        nudge: nudgeScrub,
+        startHold: startScrubHold,
+        commit: commitScrub,
+        cancel: cancelScrub,
+    } = useScrubbing({
+        currentTime: playbackState.currentTime,
+        duration: playbackState.duration,
+        onCommit: handleSeekWithPause,
+    });
+
+    const canPlayUpNext = !!upNext && !!onPlayVideo && !isUpNextDismissed;
+    const secondsLeft = Math.ceil(Math.max(0, playbackState.duration - playbackState.currentTime) / playbackState.playbackRate);
+    const showUpNext = canPlayUpNext
+        && !playbackState.hasEnded
+        && !playbackState.error
+        && playbackState.duration > 0
+        && secondsLeft > 0
+        && secondsLeft <= UP_NEXT_COUNTDOWN;
+    const showPostPlay = playbackState.hasEnded && !canPlayUpNext;
+    // The end-of-video screens take over from Skip Credits
+    const activeSkip = useMemo(
+        () => (showUpNext || showPostPlay ? null : findActiveSkip(video, playbackState.currentTime)),
+        [showUpNext, showPostPlay, video, playbackState.currentTime]
+    );
+    const activeSkipKind = activeSkip?.kind;
+
+    const handlePlayUpNext = useCallback(() => {
+        if (upNext && onPlayVideo) {
+            onPlayVideo(upNext);
+        }
+    }, [upNext, onPlayVideo]);
+
+    const handlePostPlaySelect = useCallback((selected: Video) => {
+        onPlayVideo?.(selected);
+    }, [onPlayVideo]);
+
+    const handleReplayFromStart = useCallback(() => {
+        setIsUpNextDismissed(false);
+        handleReplay();
+    }, [handleReplay]);
+
+    const handleSkip = useCallback(() => {
+        if (!activeSkip) {
+            return;
+        }
+        // Credits that run to the end lead straight into whatever plays next
+        if (activeSkip.kind === 'credits' && activeSkip.range.end >= playbackState.duration - 1 && canPlayUpNext) {
+            handlePlayUpNext();
+            return;
+        }
+        handleSeekWithPause(Math.min(activeSkip.range.end, playbackState.duration));
+    }, [activeSkip, playbackState.duration, canPlayUpNext, handlePlayUpNext, handleSeekWithPause]);
+
+    const handleJumpToLive = useCallback(() => {
+        jumpToLive();
+        updatePlaybackState({ isPlaying: true });
+    }, [jumpToLive, updatePlaybackState]);
+
+    // Go Live goes away once playback has caught up, so focus can't stay on it
+    useEffect(() => {
+        if (!isBehindLive) {
+            setFocusedControl((current) => (current === 'goLive' ? 'playPause' : current));
+        }
+    }, [isBehindLive]);
+
+    const jumpToChapter = useCallback((position: number | null) => {
+        if (position !== null) {
+            handleSeekWithPause(position);
+        }
+    }, [handleSeekWithPause]);
+
+    // The skip button takes focus when it appears and hands it back when it goes
+    useEffect(() => {
+        if (activeSkipKind) {
+            setFocusedControl((current) => (current === 'progress' ? current : 'skip'));
+        } else {
+            setFocusedControl((current) => (current === 'skip' ? 'playPause' : current));
+        }
+    }, [activeSkipKind]);
+
+    // The countdown ran out without being cancelled
+    useEffect(() => {
+        if (playbackState.hasEnded && canPlayUpNext) {
+            handlePlayUpNext();
+        }
+    }, [playbackState.hasEnded, canPlayUpNext, handlePlayUpNext]);
 
     const showControlsWithTimer = useCallback(() => {
         setShowControls(true);
@@ -45,15 +233,68 @@ export function VideoPlayer({ video, onClose, onError }: VideoPlayerProps) {
         }, 3000);
     }, []);
 
+    // Moves focus along whichever row of controls currently has it
+    const moveFocusInRow = useCallback((step: number) => {
+        const row = topControls.includes(focusedControl as PlayerControl) ? topControls : centerControls;
+        const currentIndex = row.indexOf(focusedControl as PlayerControl);
+        const newIndex = Math.min(row.length - 1, Math.max(0, currentIndex + step));
+        setFocusedControl(row[newIndex]);
+    }, [focusedControl, topControls, centerControls]);
+
     const handleTVRemoteKey = useCallback((evt: any) => {
         const { eventType, eventKeyAction } = evt;
 
+        // The end-of-video screens use native focus too; Back cancels the countdown or leaves
+        if (showUpNext || showPostPlay) {
+            if (eventKeyAction === 1 && (eventType === 'menu' || eventType === 'back')) {
+                if (showUpNext) {
+                    setIsUpNextDismissed(true);
+                } else {
+                    onClose();
+                }
+            }
+            return;
+        }
+
+        // Menus use native focus, so only Back is handled while one is open
+        if (openMenu) {
+            if (eventKeyAction === 1 && (eventType === 'menu' || eventType === 'back')) {
+                setOpenMenu(null);
+                showControlsWithTimer();
+            }
+            return;
+        }
+
+        // Holding Left/Right scrubs from the progress bar or the row above it, and letting go seeks
+        const direction = toReadingDirection(eventType, isRTL);
+        if (direction === 'longLeft' || direction === 'longRight') {
+            if (isLive) {
+                // There is no progress bar to scrub on a live stream
+            } else if (eventKeyAction === 0 && (focusedControl === 'progress' || CENTER_CONTROLS.includes(focusedControl as PlayerControl))) {
+                setFocusedControl('progress');
+                startScrubHold(direction === 'longLeft' ? -1 : 1);
+            } else if (eventKeyAction === 1) {
+                commitScrub();
+            }
+            showControlsWithTimer();
+            return;
+        }
+
         if (eventKeyAction === 1) { // Key press (not release)
-            switch (eventType) {
+            switch (direction) {
                 case 'playPause':
                 case 'select':
-                    if (focusedControl === 'back') {
+                    if (isScrubbing) {
+                        // Seeks straight away instead of waiting for the scrub to settle
+                        commitScrub();
+                    } else if (focusedControl === 'skip') {
+                        handleSkip();
+                    } else if (focusedControl === 'goLive') {
+                        handleJumpToLive();
+                    } else if (focusedControl === 'back') {
                         onClose();
+                    } else if (focusedControl === 'captions' || focusedControl === 'speed' || focusedControl === 'settings') {
+                        setOpenMenu(focusedControl);
                     } else if (focusedControl === 'playPause') {
                         handlePlayPause();
                     } else if (focusedControl === 'seekBackward') {
@@ -68,36 +309,26 @@ export function VideoPlayer({ video, onClose, onError }: VideoPlayerProps) {
 
                 case 'left':
                     if (focusedControl === 'progress') {
-                        // Handle seek backward in progress bar
-                        const newTime = Math.max(0, playbackState.currentTime - 10);
-                        handleSeek(newTime);
-                    } else {
-                        // Navigate between controls
-                        const controls = ['back', 'seekBackward', 'playPause', 'seekForward'];
-                        const currentIndex = controls.indexOf(focusedControl as string);
-                        const newIndex = Math.max(0, currentIndex - 1);
-                        setFocusedControl(controls[newIndex] as any);
+                        nudgeScrub(-1);
+                    } else if (focusedControl !== 'skip' && focusedControl !== 'goLive') {
+                        moveFocusInRow(-1);
                     }
                     showControlsWithTimer();
                     break;
 
                 case 'right':
                     if (focusedControl === 'progress') {
-                        // Handle seek forward in progress bar
-                        const newTime = Math.min(playbackState.duration, playbackState.currentTime + 10);
-                        handleSeek(newTime);
-                    } else {
-                        // Navigate between controls
-                        const controls = ['back', 'seekBackward', 'playPause', 'seekForward'];
-                        const currentIndex = controls.indexOf(focusedControl as string);
-                        const newIndex = Math.min(controls.length - 1, currentIndex + 1);
-                        setFocusedControl(controls[newIndex] as any);
+                        nudgeScrub(1);
+                    } else if (focusedControl !== 'skip' && focusedControl !== 'goLive') {
+                        moveFocusInRow(1);
                     }
                     showControlsWithTimer();
                     break;
 
                 case 'up':
-                    if (focusedControl === 'progress') {
+                    if (focusedControl === 'skip') {
+                        setFocusedControl('progress');
+                    } else if (focusedControl === 'progress' || focusedControl === 'goLive') {
                         setFocusedControl('playPause');
                     } else {
                         setFocusedControl('back');
@@ -106,15 +337,54 @@ export function VideoPlayer({ video, onClose, onError }: VideoPlayerProps) {
                     break;
 
                 case 'down':
-                    if (focusedControl !== 'progress') {
+                    if (topControls.includes(focusedControl as PlayerControl)) {
+                        setFocusedControl('playPause');
+                    } else if (isLive) {
+                        if (isBehindLive) {
+                            setFocusedControl('goLive');
+                        }
+                    } else if (focusedControl === 'progress' && activeSkip) {
+                        setFocusedControl('skip');
+                    } else if (focusedControl !== 'progress' && focusedControl !== 'skip') {
                         setFocusedControl('progress');
                     }
                     showControlsWithTimer();
                     break;
 
+                // Media next/previous keys move between chapters, or change channel on live TV
+                case 'next':
+                    if (live) {
+                        live.onChangeChannel(1);
+                    } else {
+                        jumpToChapter(nextChapterStart(video.chapters, playbackState.currentTime));
+                    }
+                    showControlsWithTimer();
+                    break;
+
+                case 'previous':
+                    if (live) {
+                        live.onChangeChannel(-1);
+                    } else {
+                        jumpToChapter(previousChapterStart(video.chapters, playbackState.currentTime));
+                    }
+                    showControlsWithTimer();
+                    break;
+
+                case 'channelUp':
+                case 'channelDown':
+                    live?.onChangeChannel(direction === 'channelUp' ? 1 : -1);
+                    showControlsWithTimer();
+                    break;
+
                 case 'menu':
                 case 'back':
-                    onClose();
+                    // While scrubbing, Back drops the scrub without seeking instead of leaving
+                    if (isScrubbing) {
+                        cancelScrub();
+                        showControlsWithTimer();
+                    } else {
+                        onClose();
+                    }
                     break;
 
                 default:
@@ -122,17 +392,25 @@ export function VideoPlayer({ video, onClose, onError }: VideoPlayerProps) {
                     break;
             }
         }
-    }, [focusedControl, handlePlayPause, handleSeekBackward, handleSeekForward, handleSeek, playbackState.currentTime, playbackState.duration, onClose, showControlsWithTimer]);
+    }, [focusedControl, openMenu, showUpNext, showPostPlay, isRTL, topControls, moveFocusInRow, handlePlayPause, handleSeekBackward, handleSeekForward, isScrubbing, nudgeScrub, startScrubHold, commitScrub, cancelScrub, activeSkip, handleSkip, jumpToChapter, video.chapters, playbackState.currentTime, live, isLive, isBehindLive, handleJumpToLive, onClose, showControlsWithTimer]);
 
     useEffect(() => {
         if (Platform.OS === 'android') {
             const backHandler = BackHandler.addEventListener('hardwareBackPress', () => {
-                onClose();
+                if (openMenu) {
+                    setOpenMenu(null);
+                } else if (isScrubbing) {
+                    cancelScrub();
+                } else if (showUpNext) {
+                    setIsUpNextDismissed(true);
+                } else {
+                    onClose();
+                }
                 return true;
             });
             return () => backHandler.remove();
         }
-    }, [onClose]);
+    }, [onClose, openMenu, isScrubbing, cancelScrub, showUpNext]);
 
     useEffect(() => {
         const subscription = TVEventHandler.addListener(handleTVRemoteKey);
@@ -169,28 +447,48 @@ export function VideoPlayer({ video, onClose, onError }: VideoPlayerProps) {
                 <View style={styles.errorContainer}>
                     <Ionicons name="alert-circle" size={64 * scale} color={Colors.light.tint} />
                     <ThemedText style={[textStyles.title, styles.errorTitle]}>
-                        Playback Error
+                        {t('player.errorTitle')}
                     </ThemedText>
                     <ThemedText style={[textStyles.body, styles.errorMessage]}>
-                        {playbackState.error}
-                    </ThemedText>
-                    <ThemedText style={[textStyles.caption, styles.debugInfo]}>
-                        Video ID: {video.id} | Source: {'HLS'}
+                        {t(playbackErrorMessageKey(playbackState.error.code))}
                     </ThemedText>
+                    {scheduledRetry !== null && (
+                        <ThemedText style={[textStyles.caption, styles.retryStatus]}>
+                            {scheduledRetry.retry > 0
+                                ? t('player.retrying', { retry: scheduledRetry.retry, max: MAX_RETRIES_PER_SOURCE })
+                                : t('player.fallingBack', {
+                                    source: formatSourceLabel(sources[scheduledRetry.sourceIndex], t),
+                                    host: hostOf(sources[scheduledRetry.sourceIndex].url) ?? '',
+                                })}
+                        </ThemedText>
+                    )}
+                    <View style={styles.attemptHistory}>
+                        <ThemedText style={[textStyles.caption, styles.attemptText]}>{t('player.attempts')}</ThemedText>
+                        {attempts.map((attempt) => (
+                            <ThemedText key={attempt.number} style={[textStyles.caption, styles.attemptText]}>
+                                {t('player.attempt', {
+                                    number: attempt.number,
+                                    source: formatSourceLabel(attempt.source, t),
+                                    host: hostOf(attempt.source.url) ?? '',
+                                    result: attempt.error ? t(playbackErrorLabelKey(attempt.error.code)) : '…',
+                                })}
+                            </ThemedText>
+                        ))}
+                    </View>
                     <View style={styles.errorButtons}>
                         <Pressable style={({ pressed, focused }) => [
                             styles.retryButton,
                             (pressed || focused) && styles.buttonFocused,
                         ]}
                             onPress={handleTryAgain}>
-                            <ThemedText style={styles.buttonText}>Try Again</ThemedText>
+                            <ThemedText style={styles.buttonText}>{t('player.tryAgain')}</ThemedText>
                         </Pressable>
                         <Pressable style={({ pressed, focused }) => [
                             styles.closeButton,
                             (pressed || focused) && styles.buttonFocused,
                         ]}
                             onPress={onClose}>
-                            <ThemedText style={styles.buttonText}>Close</ThemedText>
+                            <ThemedText style={styles.buttonText}>{t('player.close')}</ThemedText>
                         </Pressable>
                     </View>
                 </View>
@@ -209,9 +507,19 @@ export function VideoPlayer({ video, onClose, onError }: VideoPlayerProps) {
                     focusable={false}
                     allowsPictureInPicture
                     contentFit="contain"
+                    onFirstFrameRender={handleFirstFrame}
                 />
 
-                {showControls && (
+                {activeCaptionTrack && (
+                    <CaptionOverlay
+                        player={player}
+                        cues={captionCues}
+                        appearance={captionAppearance}
+                        raised={showControls}
+                    />
+                )}
+
+                {(showControls || isScrubbing) && !showPostPlay && (
                     <View style={styles.controlsOverlay}>
                         <View style={styles.topControls}>
                             <Pressable
@@ -220,22 +528,60 @@ export function VideoPlayer({ video, onClose, onError }: VideoPlayerProps) {
                                     focusedControl === 'back' && styles.focusedControlButton
                                 ]}
                                 onPress={onClose}>
-                                <Ionicons name="arrow-back" size={24 * scale} color="white" />
+                                <Ionicons name={isRTL ? 'arrow-forward' : 'arrow-back'} size={24 * scale} color="white" />
                             </Pressable>
                             <ThemedText style={styles.videoTitle} numberOfLines={1}>
                                 {video.title}
                             </ThemedText>
-                        </View>
-
-                        <View style={styles.centerControls}>
+                            {hasCaptions && (
+                                <Pressable
+                                    style={[
+                                        styles.controlButton,
+                                        focusedControl === 'captions' && styles.focusedControlButton
+                                    ]}
+                                    onPress={() => setOpenMenu('captions')}>
+                                    <Ionicons
+                                        name="logo-closed-captioning"
+                                        size={24 * scale}
+                                        color={activeCaptionTrack ? "white" : "rgba(255, 255, 255, 0.5)"}
+                                    />
+                                </Pressable>
+                            )}
+                            {!isLive && (
+                                <Pressable
+                                    style={[
+                                        styles.controlButton,
+                                        styles.speedButton,
+                                        focusedControl === 'speed' && styles.focusedControlButton
+                                    ]}
+                                    onPress={() => setOpenMenu('speed')}>
+                                    <Ionicons name="speedometer-outline" size={24 * scale} color="white" />
+                                    {playbackState.playbackRate !== 1 && (
+                                        <ThemedText style={styles.speedText}>{t('playbackRate.value', { rate: playbackState.playbackRate })}</ThemedText>
+                                    )}
+                                </Pressable>
+                            )}
                             <Pressable
                                 style={[
                                     styles.controlButton,
-                                    focusedControl === 'seekBackward' && styles.focusedControlButton
+                                    focusedControl === 'settings' && styles.focusedControlButton
                                 ]}
-                                onPress={handleSeekBackward}>
-                                <Ionicons name="play-back" size={32 * scale} color="white" />
+                                onPress={() => setOpenMenu('settings')}>
+                                <Ionicons name="settings-outline" size={24 * scale} color="white" />
                             </Pressable>
+                        </View>
+
+                        <View style={styles.centerControls}>
+                            {!isLive && (
+                                <Pressable
+                                    style={[
+                                        styles.controlButton,
+                                        focusedControl === 'seekBackward' && styles.focusedControlButton
+                                    ]}
+                                    onPress={handleSeekBackward}>
+                                    <Ionicons name={isRTL ? 'play-forward' : 'play-back'} size={32 * scale} color="white" />
+                                </Pressable>
+                            )}
 
                             <Pressable
                                 style={[
@@ -250,30 +596,124 @@ export function VideoPlayer({ video, onClose, onError }: VideoPlayerProps) {
                                 />
                             </Pressable>
 
-                            <Pressable
-                                style={[
-                                    styles.controlButton,
-                                    focusedControl === 'seekForward' && styles.focusedControlButton
-                                ]}
-                                onPress={handleSeekForward}>
-                                <Ionicons name="play-forward" size={32 * scale} color="white" />
-                            </Pressable>
+                            {!isLive && (
+                                <Pressable
+                                    style={[
+                                        styles.controlButton,
+                                        focusedControl === 'seekForward' && styles.focusedControlButton
+                                    ]}
+                                    onPress={handleSeekForward}>
+                                    <Ionicons name={isRTL ? 'play-back' : 'play-forward'} size={32 * scale} color="white" />
+                                </Pressable>
+                            )}
                         </View>
 
-                        <View style={styles.bottomControls}>
-                            <ProgressBar
-                                currentTime={playbackState.currentTime}
-                                duration={playbackState.duration}
-                                onSeek={handleSeek}
-                                isFocused={focusedControl === 'progress'}
-                            />
-                        </View>
+                        {live ? (
+                            <View style={styles.liveControls}>
+                                <View style={[styles.liveBadge, isBehindLive && styles.liveBadgeBehind]}>
+                                    <View style={styles.liveDot} />
+                                    <ThemedText style={styles.liveText}>{t('live.badge')}</ThemedText>
+                                </View>
+                                {live.programme && (
+                                    <View style={styles.liveProgramme}>
+                                        <ThemedText style={styles.liveProgrammeTitle} numberOfLines={1}>
+                                            {live.programme.title}
+                                        </ThemedText>
+                                        <ThemedText style={styles.liveProgrammeTime}>
+                                            {t('live.timeRange', {
+                                                start: formatTime(live.programme.start),
+                                                end: formatTime(live.programme.end),
+                                            })}
+                                        </ThemedText>
+                                    </View>
+                                )}
+                                {isBehindLive && (
+                                    <Pressable
+                                        style={[styles.goLiveButton, focusedControl === 'goLive' && styles.focusedSkipButton]}
+                                        onPress={handleJumpToLive}>
+                                        <ThemedText style={[styles.skipText, focusedControl === 'goLive' && styles.focusedSkipText]}>
+                                            {t('live.goLive')}
+                                        </ThemedText>
+                                    </Pressable>
+                                )}
+                            </View>
+                        ) : (
+                            <View style={styles.bottomControls}>
+                                <ProgressBar
+                                    currentTime={playbackState.currentTime}
+                                    duration={playbackState.duration}
+                                    playbackRate={playbackState.playbackRate}
+                                    onSeek={handleSeek}
+                                    isFocused={focusedControl === 'progress'}
+                                    scrubTime={scrubTime}
+                                    chapters={video.chapters}
+                                    previewFrame={scrubTime !== null ? findPreviewThumbnail(previewFrames, scrubTime) : null}
+                                />
+                            </View>
+                        )}
                     </View>
                 )}
 
+                {activeSkip && !openMenu && (
+                    <Pressable
+                        style={[styles.skipButton, focusedControl === 'skip' && styles.focusedSkipButton]}
+                        onPress={handleSkip}>
+                        <ThemedText style={[styles.skipText, focusedControl === 'skip' && styles.focusedSkipText]}>
+                            {t(activeSkip.kind === 'intro' ? 'player.skipIntro' : 'player.skipCredits')}
+                        </ThemedText>
+                    </Pressable>
+                )}
+
+                {showUpNext && upNext && (
+                    <UpNextOverlay
+                        video={upNext}
+                        secondsLeft={secondsLeft}
+                        onPlayNow={handlePlayUpNext}
+                        onCancel={() => setIsUpNextDismissed(true)}
+                    />
+                )}
+
+                {showPostPlay && (
+                    <PostPlayScreen
+                        video={video}
+                        onReplay={handleReplayFromStart}
+                        onSelect={handlePostPlaySelect}
+                        onClose={onClose}
+                    />
+                )}
+
+                {openMenu === 'captions' && (
+                    <CaptionMenu
+                        tracks={captionTracks}
+                        activeTrack={activeCaptionTrack}
+                        appearance={captionAppearance}
+                        error={captionError}
+                        onSelectTrack={selectCaptionTrack}
+                        onChangeAppearance={updateCaptionAppearance}
+                    />
+                )}
+
+                {openMenu === 'speed' && (
+                    <SpeedMenu
+                        playbackRate={playbackState.playbackRate}
+                        onSelectRate={handleSetPlaybackRate}
+                    />
+                )}
+
+                {openMenu === 'settings' && (
+                    <SettingsMenu
+                        audioTracks={audioTracks}
+                        activeAudioTrack={activeAudioTrack}
+                        qualities={qualities}
+                        activeQuality={activeQuality}
+                        onSelectAudioTrack={selectAudioTrack}
+                        onSelectQuality={selectQuality}
+                    />
+                )}
+
                 {playbackState.isLoading && (
                     <View style={styles.loadingOverlay}>
-                        <ThemedText style={styles.loadingText}>Loading...</ThemedText>
+                        <ThemedText style={styles.loadingText}>{t('common.loading')}</ThemedText>
                     </View>
                 )}
             </Pressable>
@@ -325,6 +765,16 @@ const useVideoPlayerStyles = () => {
             borderRadius: 8 * scale,
             backgroundColor: 'rgba(0, 0, 0, 0.3)',
         },
+        speedButton: {
+            flexDirection: 'row',
+            alignItems: 'center',
+            gap: 6 * scale,
+        },
+        speedText: {
+            color: 'white',
+            fontSize: 14 * scale,
+            fontWeight: 'bold',
+        },
         focusedControlButton: {
             backgroundColor: Colors.dark.primary,
             borderWidth: 2,
@@ -344,11 +794,86 @@ const useVideoPlayerStyles = () => {
         },
         videoTitle: {
             flex: 1,
-            marginLeft: 16 * scale,
+            marginStart: 16 * scale,
             fontSize: 18 * scale,
             fontWeight: 'bold',
             color: 'white',
         },
+        skipButton: {
+            position: 'absolute',
+            end: 40 * scale,
+            bottom: 150 * scale,
+            paddingHorizontal: 20 * scale,
+            paddingVertical: 10 * scale,
+            borderRadius: 6 * scale,
+            borderWidth: 2,
+            borderColor: 'rgba(255, 255, 255, 0.6)',
+            backgroundColor: 'rgba(0, 0, 0, 0.6)',
+        },
+        focusedSkipButton: {
+            backgroundColor: 'white',
+            borderColor: 'white',
+            transform: [{ scale: 1.1 }],
+        },
+        skipText: {
+            color: 'white',
+            fontSize: 16 * scale,
+            fontWeight: 'bold',
+        },
+        focusedSkipText: {
+            color: 'black',
+        },
+        liveControls: {
+            flexDirection: 'row',
+            alignItems: 'center',
+            gap: 16 * scale,
+        },
+        liveBadge: {
+            flexDirection: 'row',
+            alignItems: 'center',
+            gap: 6 * scale,
+            paddingHorizontal: 10 * scale,
+            paddingVertical: 4 * scale,
+            borderRadius: 4 * scale,
+            backgroundColor: '#e50914',
+        },
+        // Watching from the buffer; Go Live catches up
+        liveBadgeBehind: {
+            backgroundColor: 'rgba(255, 255, 255, 0.3)',
+        },
+        liveDot: {
+            width: 8 * scale,
+            height: 8 * scale,
+            borderRadius: 4 * scale,
+            backgroundColor: 'white',
+        },
+        liveText: {
+            color: 'white',
+            fontSize: 14 * scale,
+            fontWeight: 'bold',
+            letterSpacing: 1,
+        },
+        liveProgramme: {
+            flex: 1,
+        },
+        liveProgrammeTitle: {
+            color: 'white',
+            fontSize: 16 * scale,
+            fontWeight: 'bold',
+        },
+        liveProgrammeTime: {
+            color: 'rgba(255, 255, 255, 0.7)',
+            fontSize: 12 * scale,
+        },
+        goLiveButton: {
+            marginStart: 'auto',
+            paddingHorizontal: 20 * scale,
+            paddingVertical: 10 * scale,
+            borderRadius: 6 * scale,
+            borderWidth: 2,
+            borderColor: 'rgba(255, 255, 255, 0.6)',
+            backgroundColor: 'rgba(0, 0, 0, 0.6)',
+        },
         loadingOverlay: {
             position: 'absolute',
             top: 0,
@@ -379,9 +904,18 @@ const useVideoPlayerStyles = () => {
             marginBottom: 24 * scale,
             opacity: 0.8,
         },
-        debugInfo: {
+        retryStatus: {
             textAlign: 'center',
             marginBottom: 16 * scale,
+            opacity: 0.8,
+        },
+        attemptHistory: {
+            alignItems: 'center',
+            gap: 2 * scale,
+            marginBottom: 16 * scale,
+        },
+        attemptText: {
+            textAlign: 'center',
             opacity: 0.6,
             fontSize: 12 * scale,
         },
@@ -0,0 +1,134 @@
+import React, { useCallback, useRef } from 'react';
+import { StyleSheet, FlatList, View, Dimensions, TVFocusGuideView } from 'react-native';
+import { ThemedText } from '@/src/components/ThemedText';
+import { VideoThumbnail } from './VideoThumbnail';
+import { Video } from '@/src/types/video';
+import { useScale } from '@/src/hooks/useScale';
+import { useParentalControls } from '@/src/hooks/useParentalControls';
+
+const { width: screenWidth } = Dimensions.get('window');
+
+interface VideoRailProps {
+  title: string;
+  videos: Video[];
+  progress?: Record<string, number>;
+  selectedVideoId?: string;
+  isFavorite: (videoId: string) => boolean;
+  // Column to scroll back to when the rail is (re)mounted
+  initialColumn?: number;
+  onSelect: (video: Video) => void;
+  onFocus?: (video: Video, column: number) => void;
+}
+
+export function VideoRail({
+  title,
+  videos,
+  progress,
+  selectedVideoId,
+  isFavorite,
+  initialColumn = 0,
+  onSelect,
+  onFocus,
+}: VideoRailProps) {
+  const scale = useScale();
+  const styles = useVideoRailStyles();
+  const flatListRef = useRef<FlatList<Video>>(null);
+  const { isRestricted } = useParentalControls();
+
+  // VideoThumbnail is 230 wide with 8 on either side
+  const itemWidth = 246 * scale;
+
+  const handleFocus = useCallback((video: Video) => {
+    const focusedIndex = videos.findIndex(v => v.id === video.id);
+    onFocus?.(video, focusedIndex);
+
+    if (focusedIndex !== -1 && flatListRef.current) {
+      try {
+        flatListRef.current.scrollToIndex({
+          index: focusedIndex,
+          animated: true,
+          viewPosition: 0.5,
+        });
+      } catch {
+        const padding = 24 * scale;
+        const offset = focusedIndex * itemWidth - (screenWidth / 2) + (itemWidth / 2) + padding;
+        flatListRef.current.scrollToOffset({
+          offset: Math.max(0, offset),
+          animated: true,
+        });
+      }
+    }
+  }, [videos, onFocus, scale, itemWidth]);
+
+  return (
+    <View>
+      <View style={[styles.sectionHeader, { paddingHorizontal: 32 * scale }]}>
+        <ThemedText style={styles.sectionTitle}>{title}</ThemedText>
+      </View>
+      {/* autoFocus sends focus back to the last focused thumbnail when the rail is re-entered */}
+      <TVFocusGuideView autoFocus>
+        <FlatList<Video>
+          ref={flatListRef}
+          data={videos}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={{ paddingHorizontal: 32 * scale }}
+          renderItem={({ item }) => (
+            <VideoThumbnail
+              video={item}
+              onSelect={onSelect}
+              onFocus={handleFocus}
+              isSelected={item.id === selectedVideoId}
+              isFavorite={isFavorite(item.id)}
+              progress={progress?.[item.id]}
+              isLocked={isRestricted(item)}
+            />
+          )}
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          removeClippedSubviews={false}
+          decelerationRate={0.85}
+          scrollEventThrottle={16}
+          initialNumToRender={8}
+          maxToRenderPerBatch={4}
+          windowSize={5}
+          initialScrollIndex={Math.min(initialColumn, Math.max(0, videos.length - 1))}
+          getItemLayout={(data, index) => ({
+            length: itemWidth,
+            offset: itemWidth * index,
+            index,
+          })}
+          onScrollToIndexFailed={(info) => {
+            const wait = new Promise(resolve => setTimeout(resolve, 500));
+            wait.then(() => {
+              flatListRef.current?.scrollToIndex({
+                index: info.index,
+                animated: true,
+              });
+            });
+          }}
+        />
+      </TVFocusGuideView>
+    </View>
+  );
+}
+
+const useVideoRailStyles = function () {
+  const scale = useScale();
+
+  return StyleSheet.create({
+    sectionHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginBottom: 8 * scale,
+    },
+    sectionTitle: {
+      color: 'white',
+      fontSize: 20 * scale,
+      fontWeight: 'bold',
+      textShadowColor: 'rgba(0, 0, 0, 0.8)',
+      textShadowOffset: { width: 1, height: 1 },
+      textShadowRadius: 3,
+    },
+  });
+};
@@ -3,6 +3,7 @@ import { StyleSheet, Pressable, Image, View } from 'react-native';
 import { ThemedText } from '@/src/components/ThemedText';
 import { Video } from '@/src/types/video';
 import { useScale } from '@/src/hooks/useScale';
+import { useTranslation } from '@/src/hooks/useTranslation';
 import { Colors } from '@/src/constants/Colors';
 import { useColorScheme } from '@/src/hooks/useColorScheme';
 import Ionicons from '@expo/vector-icons/Ionicons';
@@ -13,6 +14,9 @@ interface VideoThumbnailProps {
     onFocus?: (video: Video) => void;
     isSelected: boolean;
     isFavorite?: boolean;
+    progress?: number;
+    // Above the parental-control limit; selecting it asks for the PIN
+    isLocked?: boolean;
 }
 
 export function VideoThumbnail({
@@ -21,9 +25,12 @@ export function VideoThumbnail({
     onFocus,
     isSelected,
     isFavorite = false,
+    progress,
+    isLocked = false,
 }: VideoThumbnailProps) {
     const scale = useScale();
     const styles = useVideoThumbnailStyles();
+    const { t } = useTranslation();
 
     const handlePress = () => {
         onSelect(video);
@@ -34,8 +41,8 @@ export function VideoThumbnail({
             style={styles.container}
 
             accessibilityRole="button"
-            accessibilityLabel={`Play ${video.title}`}
-            accessibilityHint={`Video duration: ${video.duration}. ${isFavorite ? 'Remove from' : 'Add to'} favorites.`}
+            accessibilityLabel={t(isLocked ? 'thumbnail.locked' : 'thumbnail.play', { title: video.title })}
+            accessibilityHint={t(isFavorite ? 'thumbnail.removeHint' : 'thumbnail.addHint', { duration: video.duration })}
         >
             <Pressable
                 onPress={handlePress}
@@ -67,6 +74,18 @@ export function VideoThumbnail({
                     />
                 </View>
 
+                {isLocked && (
+                    <View style={styles.lockOverlay}>
+                        <Ionicons name="lock-closed" size={28 * scale} color="white" />
+                    </View>
+                )}
+
+                {progress !== undefined && progress > 0 && (
+                    <View style={styles.progressTrack}>
+                        <View style={[styles.progressFill, { width: `${progress * 100}%` }]} />
+                    </View>
+                )}
+
             </Pressable>
 
             <View style={styles.titleContainer}>
@@ -144,10 +163,20 @@ const useVideoThumbnailStyles = function () {
             backgroundColor: 'rgba(0, 0, 0, 0.4)',
             borderRadius: 12 * scale,
         },
+        lockOverlay: {
+            position: 'absolute',
+            top: 0,
+            left: 0,
+            right: 0,
+            bottom: 0,
+            justifyContent: 'center',
+            alignItems: 'center',
+            backgroundColor: 'rgba(0, 0, 0, 0.6)',
+        },
         durationBadge: {
             position: 'absolute',
             bottom: 8 * scale,
-            right: 8 * scale,
+            end: 8 * scale,
             backgroundColor: 'rgba(0, 0, 0, 0.8)',
             paddingHorizontal: 8 * scale,
             paddingVertical: 4 * scale,
@@ -162,7 +191,7 @@ const useVideoThumbnailStyles = function () {
         favoriteButton: {
             position: 'absolute',
             top: 8 * scale,
-            right: 8 * scale,
+            end: 8 * scale,
             width: 28 * scale,
             height: 28 * scale,
             borderRadius: 14 * scale,
@@ -171,6 +200,18 @@ const useVideoThumbnailStyles = function () {
             alignItems: 'center',
             backdropFilter: 'blur(10px)',
         },
+        progressTrack: {
+            position: 'absolute',
+            left: 0,
+            right: 0,
+            bottom: 0,
+            height: 4 * scale,
+            backgroundColor: 'rgba(255, 255, 255, 0.3)',
+        },
+        progressFill: {
+            height: '100%',
+            backgroundColor: Colors[colorScheme ?? 'light'].primary,
+        },
         favoriteButtonFocused: {
             backgroundColor: 'rgba(0, 0, 0, 0.8)',
             transform: [{ scale: 1.1 }],
@@ -195,7 +236,7 @@ const useVideoThumbnailStyles = function () {
             fontWeight: '600',
             lineHeight: 16 * scale,
             color: Colors[colorScheme ?? 'light'].text,
-            textAlign: 'left',
+            textAlign: 'auto',
         },
         // Legacy styles - keeping for compatibility
         infoContainer: {
@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useState } from 'react';
+import { SubtitleTrack } from '@/src/types/video';
+import { CaptionCue, parseCaptions } from '@/src/captions/parseCaptions';
+import { useLibraryStore } from '@/src/store/libraryStore';
+import { useTranslation } from './useTranslation';
+
+// Parsed tracks survive leaving the player, so re-watching a title doesn't refetch its captions
+const cueCache = new Map<string, CaptionCue[]>();
+
+async function loadCaptionTrack(track: SubtitleTrack): Promise<CaptionCue[]> {
+  const cached = cueCache.get(track.url);
+  if (cached) {
+    return cached;
+  }
+
+  const response = await fetch(track.url);
+  if (!response.ok) {
+    throw new Error(`Caption track responded with HTTP ${response.status}`);
+  }
+
+  const cues = parseCaptions(await response.text(), track.format);
+  cueCache.set(track.url, cues);
+  return cues;
+}
+
+export function useCaptions(tracks: SubtitleTrack[] = []) {
+  const captionLanguage = useLibraryStore((state) => state.captionLanguage);
+  const setCaptionLanguage = useLibraryStore((state) => state.setCaptionLanguage);
+  const { t } = useTranslation();
+  const [cues, setCues] = useState<CaptionCue[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  // The exact track picked in this player, so two tracks in one language can be told apart
+  const [chosenTrackUrl, setChosenTrackUrl] = useState<string | null>(null);
+
+  // Otherwise the remembered language carries over to every title that offers it
+  const activeTrack =
+    tracks.find((track) => track.url === chosenTrackUrl) ??
+    tracks.find((track) => track.language === captionLanguage) ??
+    null;
+
+  useEffect(() => {
+    setCues([]);
+    setError(null);
+    if (!activeTrack) {
+      return;
+    }
+
+    let cancelled = false;
+    loadCaptionTrack(activeTrack)
+      .then((loaded) => {
+        if (!cancelled) {
+          setCues(loaded);
+        }
+      })
+      .catch((loadError) => {
+        console.warn('Failed to load caption track:', activeTrack.url, loadError);
+        if (!cancelled) {
+          setError(t('captions.unavailable', { label: activeTrack.label }));
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeTrack, t]);
+
+  const selectTrack = useCallback((track: SubtitleTrack | null) => {
+    setChosenTrackUrl(track ? track.url : null);
+    setCaptionLanguage(track ? track.language : null);
+  }, [setCaptionLanguage]);
+
+  return {
+    tracks,
+    activeTrack,
+    cues,
+    error,
+    selectTrack,
+  };
+}
@@ -0,0 +1,32 @@
+import { useMemo } from 'react';
+import { Video } from '@/src/types/video';
+import { useLibraryStore } from '@/src/store/libraryStore';
+import { selectProgress, getProgressFraction } from '@/src/store/selectors';
+import { findEpisode } from '@/src/catalog/series';
+
+export interface ContinueWatchingItem {
+  video: Video;
+  progress: number;
+}
+
+export function useContinueWatching(videos: Video[]) {
+  const progress = useLibraryStore(selectProgress);
+
+  return useMemo<ContinueWatchingItem[]>(() => {
+    const videosById = new Map(videos.map((video) => [video.id, video]));
+
+    const seen = new Set<string>();
+
+    // Episodes show up as their series, once, with the latest episode's progress
+    return Object.values(progress)
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .flatMap((entry) => {
+        const video = videosById.get(entry.videoId) ?? findEpisode(videos, entry.videoId)?.series;
+        if (!video || seen.has(video.id)) {
+          return [];
+        }
+        seen.add(video.id);
+        return [{ video, progress: getProgressFraction(entry) }];
+      });
+  }, [videos, progress]);
+}
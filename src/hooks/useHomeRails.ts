@@ -0,0 +1,87 @@
+import { useMemo } from 'react';
+import { Video } from '@/src/types/video';
+import { useLibraryStore } from '@/src/store/libraryStore';
+import { useFavoriteVideos, selectProgress } from '@/src/store/selectors';
+import { findEpisode } from '@/src/catalog/series';
+import { useContinueWatching } from './useContinueWatching';
+import { useParentalControls } from './useParentalControls';
+import { useRelatedVideos } from './useRelatedVideos';
+import { useTranslation } from './useTranslation';
+
+export interface HomeRail {
+  key: string;
+  title: string;
+  videos: Video[];
+  progress?: Record<string, number>;
+}
+
+// The title the active profile watched most recently, finished or not; episodes count as their series
+function useLastWatched(videos: Video[]): Video | undefined {
+  const progress = useLibraryStore(selectProgress);
+  const completedAt = useLibraryStore((state) => state.completedAt);
+
+  return useMemo(() => {
+    const watched = [
+      ...Object.values(progress).map((entry) => ({ id: entry.videoId, at: entry.updatedAt })),
+      ...Object.entries(completedAt).map(([id, at]) => ({ id, at })),
+    ].sort((a, b) => b.at - a.at);
+
+    for (const { id } of watched) {
+      const video = videos.find((candidate) => candidate.id === id) ?? findEpisode(videos, id)?.series;
+      if (video) {
+        return video;
+      }
+    }
+    return undefined;
+  }, [videos, progress, completedAt]);
+}
+
+export function useHomeRails(videos: Video[]) {
+  const continueWatching = useContinueWatching(videos);
+  const favoriteVideos = useFavoriteVideos();
+  const lastWatched = useLastWatched(videos);
+  const becauseYouWatched = useRelatedVideos(lastWatched, videos);
+  const { filterHidden } = useParentalControls();
+  const { t } = useTranslation();
+
+  return useMemo<HomeRail[]>(() => {
+    const rails: HomeRail[] = [];
+
+    if (continueWatching.length > 0) {
+      rails.push({
+        key: 'continue-watching',
+        title: t('rails.continueWatching'),
+        videos: continueWatching.map((item) => item.video),
+        progress: Object.fromEntries(continueWatching.map((item) => [item.video.id, item.progress])),
+      });
+    }
+
+    if (favoriteVideos.length > 0) {
+      rails.push({ key: 'favorites', title: t('rails.myList'), videos: favoriteVideos });
+    }
+
+    if (lastWatched && becauseYouWatched.length > 0) {
+      rails.push({
+        key: 'because-you-watched',
+        title: t('rails.becauseYouWatched', { title: lastWatched.title }),
+        videos: becauseYouWatched,
+      });
+    }
+
+    rails.push({ key: 'new', title: t('rails.new'), videos });
+
+    // One rail per category, in the order categories first appear in the catalog
+    const byCategory = new Map<string, Video[]>();
+    videos.forEach((video) => {
+      byCategory.set(video.category, [...(byCategory.get(video.category) ?? []), video]);
+    });
+    byCategory.forEach((categoryVideos, category) => {
+      rails.push({ key: `category:${category}`, title: category, videos: categoryVideos });
+    });
+
+    // Parental controls may leave a rail with nothing to show
+    return rails
+      .map((rail) => ({ ...rail, videos: filterHidden(rail.videos) }))
+      .filter((rail) => rail.videos.length > 0);
+  }, [videos, continueWatching, favoriteVideos, lastWatched, becauseYouWatched, filterHidden, t]);
+}
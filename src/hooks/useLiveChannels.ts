@@ -0,0 +1,16 @@
+import { useMemo } from 'react';
+import { useLibraryStore } from '@/src/store/libraryStore';
+import { channelAsVideo } from '@/src/live/channels';
+import { useParentalControls } from './useParentalControls';
+
+// The lineup this profile can see. Channels carry no rating, so parental controls treat them
+// like unrated titles: hidden from kids profiles, and behind the PIN when controls are on
+export function useLiveChannels() {
+  const channels = useLibraryStore((state) => state.channels);
+  const { isHidden } = useParentalControls();
+
+  return useMemo(
+    () => channels.filter((channel) => !isHidden(channelAsVideo(channel))),
+    [channels, isHidden]
+  );
+}
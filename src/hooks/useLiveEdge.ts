@@ -0,0 +1,36 @@
+import { useCallback, useEffect, useState } from 'react';
+import { VideoPlayer } from 'expo-video';
+
+// Seconds behind the player's own target latency before the viewer counts as watching from the buffer
+const LIVE_EDGE_TOLERANCE = 10;
+
+export function useLiveEdge(player: VideoPlayer, enabled: boolean) {
+  const [isBehindLive, setIsBehindLive] = useState(false);
+
+  // Pausing a live stream, or seeking back in it, leaves the viewer further behind every second
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    const interval = setInterval(() => {
+      const offset = player.currentOffsetFromLive;
+      setIsBehindLive(offset !== null && offset > player.targetOffsetFromLive + LIVE_EDGE_TOLERANCE);
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [player, enabled]);
+
+  const jumpToLive = useCallback(() => {
+    const offset = player.currentOffsetFromLive;
+    if (offset !== null) {
+      player.currentTime += offset - player.targetOffsetFromLive;
+    } else if (player.duration > 0) {
+      // Streams without program date times only report how much of the window is seekable
+      player.currentTime = player.duration;
+    }
+    player.play();
+    setIsBehindLive(false);
+  }, [player]);
+
+  return { isBehindLive, jumpToLive };
+}
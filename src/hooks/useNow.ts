@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+
+// The current time, refreshed every `intervalMs`
+export function useNow(intervalMs = 30 * 1000) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(interval);
+  }, [intervalMs]);
+
+  return now;
+}
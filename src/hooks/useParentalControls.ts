@@ -0,0 +1,43 @@
+import { useCallback } from 'react';
+import { Video } from '@/src/types/video';
+import { useLibraryStore } from '@/src/store/libraryStore';
+import { selectActiveProfile, selectVideos } from '@/src/store/selectors';
+import { findEpisode } from '@/src/catalog/series';
+import { KIDS_MAX_RATING, isAboveRating, strictestRating } from '@/src/parental/ratings';
+
+export function useParentalControls() {
+  const videos = useLibraryStore(selectVideos);
+  const householdMaxRating = useLibraryStore((state) => state.maxRating);
+  const householdMode = useLibraryStore((state) => state.restrictedTitleMode);
+  const unlockedUntil = useLibraryStore((state) => state.unlockedUntil);
+  const isKidsProfile = useLibraryStore((state) => !!selectActiveProfile(state)?.isKids);
+
+  // Kids profiles don't show what they can't play at all
+  const maxRating = isKidsProfile ? strictestRating(householdMaxRating, KIDS_MAX_RATING) : householdMaxRating;
+  const restrictedTitleMode = isKidsProfile ? 'hide' : householdMode;
+
+  // Above the allowed rating and not unlocked with the PIN; unlocking a series covers its episodes
+  const isRestricted = useCallback((video: Video) => {
+    if (!isAboveRating(video, maxRating)) {
+      return false;
+    }
+    const seriesId = findEpisode(videos, video.id)?.series.id;
+    const now = Date.now();
+    return !((unlockedUntil[video.id] ?? 0) > now || (seriesId !== undefined && (unlockedUntil[seriesId] ?? 0) > now));
+  }, [videos, maxRating, unlockedUntil]);
+
+  const isHidden = useCallback(
+    (video: Video) => restrictedTitleMode === 'hide' && isRestricted(video),
+    [restrictedTitleMode, isRestricted]
+  );
+
+  const filterHidden = useCallback((list: Video[]) => list.filter((video) => !isHidden(video)), [isHidden]);
+
+  return {
+    isEnabled: maxRating !== null,
+    maxRating,
+    isRestricted,
+    isHidden,
+    filterHidden,
+  };
+}
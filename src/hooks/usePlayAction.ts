@@ -0,0 +1,41 @@
+import { useMemo } from 'react';
+import { Video } from '@/src/types/video';
+import { useLibraryStore } from '@/src/store/libraryStore';
+import { selectProgress } from '@/src/store/selectors';
+import { getResumePoint, isSeries, formatEpisodeLabel } from '@/src/catalog/series';
+import { useTranslation } from './useTranslation';
+
+export interface PlayAction {
+  // Id handed to the /play route, the episode's for series
+  playId: string;
+  label: string;
+  isResume: boolean;
+}
+
+// What the Play button does for a title: resume or start it, or the right episode of a series
+export function usePlayAction(video: Video | undefined): PlayAction | null {
+  const progress = useLibraryStore(selectProgress);
+  const completedAt = useLibraryStore((state) => state.completedAt);
+  const { t } = useTranslation();
+
+  return useMemo(() => {
+    if (!video) {
+      return null;
+    }
+
+    if (isSeries(video)) {
+      const resumePoint = getResumePoint(video, progress, completedAt);
+      if (resumePoint) {
+        const episodeLabel = formatEpisodeLabel(resumePoint.ref);
+        return {
+          playId: resumePoint.ref.episode.id,
+          label: t(resumePoint.isResume ? 'common.resumeEpisode' : 'common.playEpisode', { episode: episodeLabel }),
+          isResume: resumePoint.isResume,
+        };
+      }
+    }
+
+    const isResume = !!progress[video.id];
+    return { playId: video.id, label: t(isResume ? 'common.resume' : 'common.play'), isResume };
+  }, [video, progress, completedAt, t]);
+}
@@ -0,0 +1,102 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { VideoPlayer } from 'expo-video';
+import { getAnalytics } from '@/src/analytics/config';
+import { PlaybackSession, createPlaybackSession } from '@/src/analytics/playbackSession';
+import { PlaybackError } from '@/src/playback/playbackErrors';
+
+interface UsePlaybackAnalyticsProps {
+  player: VideoPlayer;
+  videoId: string;
+  // The source actually playing; falling through to another one starts a new session
+  source: string;
+  // Where playback is expected to begin (a deep link time or resume point)
+  startPosition: number;
+  // Reported each time it changes to a new failure
+  error?: PlaybackError;
+}
+
+// Reports a QoE session for each title and source the player opens, ending it when the player goes away
+export function usePlaybackAnalytics({ player, videoId, source, startPosition, error }: UsePlaybackAnalyticsProps) {
+  const session = useRef<PlaybackSession | null>(null);
+  const startPositionRef = useRef(startPosition);
+  // The player may already be released by cleanup time, so its last position is kept here
+  const lastKnown = useRef({ position: startPosition, duration: 0 });
+  // Buffering right after a seek is part of the seek, not a rebuffer
+  const isSeeking = useRef(false);
+  const sessionVideoId = useRef<string | null>(null);
+
+  useEffect(() => {
+    startPositionRef.current = startPosition;
+  }, [startPosition]);
+
+  useEffect(() => {
+    // A new source for the same title carries on from where the last one got to
+    const isSourceSwitch = sessionVideoId.current === videoId;
+    sessionVideoId.current = videoId;
+    if (!isSourceSwitch) {
+      lastKnown.current = { position: startPositionRef.current, duration: 0 };
+    }
+    const current = createPlaybackSession({
+      videoId,
+      source,
+      startPosition: lastKnown.current.position,
+      analytics: getAnalytics(),
+    });
+    session.current = current;
+
+    const subscriptions = [
+      player.addListener('statusChange', ({ status }) => {
+        if (status === 'loading' && !isSeeking.current) {
+          current.bufferingStarted();
+        } else if (status === 'readyToPlay') {
+          isSeeking.current = false;
+          current.bufferingEnded(player.currentTime);
+        }
+      }),
+      player.addListener('videoTrackChange', ({ videoTrack, oldVideoTrack }) => {
+        current.videoTrackChanged(
+          player.currentTime,
+          oldVideoTrack?.bitrate ?? null,
+          videoTrack?.bitrate ?? null,
+          videoTrack?.size.height
+        );
+      }),
+      player.addListener('playToEnd', () => {
+        current.completed(player.duration || lastKnown.current.duration);
+      }),
+    ];
+
+    return () => {
+      subscriptions.forEach((subscription) => subscription.remove());
+      current.end(lastKnown.current.position, lastKnown.current.duration);
+      session.current = null;
+    };
+  }, [player, videoId, source]);
+
+  useEffect(() => {
+    if (error) {
+      session.current?.error(lastKnown.current.position, error);
+    }
+  }, [error]);
+
+  const trackFirstFrame = useCallback(() => {
+    session.current?.firstFrame(player.currentTime);
+  }, [player]);
+
+  const trackSeek = useCallback((from: number, to: number) => {
+    isSeeking.current = true;
+    lastKnown.current.position = to;
+    session.current?.seek(from, to);
+  }, []);
+
+  const trackProgress = useCallback((position: number, duration: number) => {
+    lastKnown.current = { position, duration };
+    session.current?.progress(position);
+  }, []);
+
+  return {
+    trackFirstFrame,
+    trackSeek,
+    trackProgress,
+  };
+}
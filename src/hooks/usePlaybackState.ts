@@ -1,33 +1,29 @@
-import { useState, useEffect, useRef, useCallback } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { PlaybackState } from "@/src/types/video";
+import { useLibraryStore } from "@/src/store/libraryStore";
+import { DEFAULT_PLAYBACK_RATE, normalizePlaybackRate } from "@/src/playback/playbackRate";
 
-interface PlaybackPosition {
-  videoId: string;
-  position: number;
-  timestamp: number;
-}
-
-export function usePlaybackState(videoId: string) {
-  const [playbackState, setPlaybackState] = useState<PlaybackState>({
+// Live streams always play at normal speed, whatever the saved preference
+export function usePlaybackState(videoId: string, isLive = false) {
+  const [playbackState, setPlaybackState] = useState<PlaybackState>(() => ({
     isPlaying: false,
     currentTime: 0,
     duration: 0,
     isLoading: true,
-  });
+    hasEnded: false,
+    playbackRate: isLive ? DEFAULT_PLAYBACK_RATE : normalizePlaybackRate(useLibraryStore.getState().playbackRate),
+  }));
 
-  const playbackPositions = useRef<Map<string, PlaybackPosition>>(new Map());
+  const saveProgress = useLibraryStore((state) => state.saveProgress);
+  const clearProgress = useLibraryStore((state) => state.clearProgress);
 
   useEffect(() => {
-    const savedPosition = playbackPositions.current.get(videoId);
-    if (savedPosition) {
-      const isRecent =
-        Date.now() - savedPosition.timestamp < 24 * 60 * 60 * 1000;
-      if (isRecent) {
-        setPlaybackState((prev) => ({
-          ...prev,
-          currentTime: savedPosition.position,
-        }));
-      }
+    const savedProgress = useLibraryStore.getState().progress[videoId];
+    if (savedProgress) {
+      setPlaybackState((prev) => ({
+        ...prev,
+        currentTime: savedProgress.position,
+      }));
     }
   }, [videoId]);
 
@@ -36,30 +32,20 @@ export function usePlaybackState(videoId: string) {
   }, []);
 
   const savePlaybackPosition = useCallback(
-    (position: number) => {
-      if (position > 30) {
-        playbackPositions.current.set(videoId, {
-          videoId,
-          position,
-          timestamp: Date.now(),
-        });
-      }
+    (position: number, duration: number) => {
+      saveProgress(videoId, position, duration);
     },
-    [videoId]
+    [videoId, saveProgress]
   );
 
   const clearPlaybackPosition = useCallback(() => {
-    playbackPositions.current.delete(videoId);
-  }, [videoId]);
+    clearProgress(videoId);
+  }, [videoId, clearProgress]);
 
   const getSavedPosition = useCallback((): number => {
-    const savedPosition = playbackPositions.current.get(videoId);
-    if (savedPosition) {
-      const isRecent =
-        Date.now() - savedPosition.timestamp < 24 * 60 * 60 * 1000;
-      return isRecent ? savedPosition.position : 0;
-    }
-    return 0;
+    // Read straight from the store so a late hydration is still picked up
+    const savedProgress = useLibraryStore.getState().progress[videoId];
+    return savedProgress ? savedProgress.position : 0;
   }, [videoId]);
 
   return {
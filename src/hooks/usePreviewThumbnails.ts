@@ -0,0 +1,50 @@
+import { useEffect, useState } from 'react';
+import { PreviewThumbnail, parseThumbnailTrack } from '@/src/playback/previewThumbnails';
+
+// Parsed tracks survive leaving the player, like caption tracks do
+const trackCache = new Map<string, PreviewThumbnail[]>();
+
+async function loadThumbnailTrack(url: string): Promise<PreviewThumbnail[]> {
+  const cached = trackCache.get(url);
+  if (cached) {
+    return cached;
+  }
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Thumbnail track responded with HTTP ${response.status}`);
+  }
+
+  const frames = parseThumbnailTrack(await response.text(), url);
+  trackCache.set(url, frames);
+  return frames;
+}
+
+// Scrubbing still works without a track, it just shows the timecode on its own
+export function usePreviewThumbnails(url?: string) {
+  const [frames, setFrames] = useState<PreviewThumbnail[]>(() => (url ? trackCache.get(url) ?? [] : []));
+
+  useEffect(() => {
+    setFrames(url ? trackCache.get(url) ?? [] : []);
+    if (!url) {
+      return;
+    }
+
+    let cancelled = false;
+    loadThumbnailTrack(url)
+      .then((loaded) => {
+        if (!cancelled) {
+          setFrames(loaded);
+        }
+      })
+      .catch((loadError) => {
+        console.warn('Failed to load thumbnail track:', url, loadError);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  return frames;
+}
@@ -0,0 +1,79 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Programme } from '@/src/types/live';
+import { parseXmltv } from '@/src/live/xmltv';
+import { groupProgrammes } from '@/src/live/guide';
+import { useTranslation } from './useTranslation';
+
+// Schedules change during the day, so the guide is fetched again once it is this old
+const GUIDE_MAX_AGE_MS = 30 * 60 * 1000;
+
+// Keyed by URL and language, shared by the guide screen and the live player
+const guideCache = new Map<string, { programmes: Programme[]; fetchedAt: number }>();
+
+async function loadGuide(url: string, language: string): Promise<Programme[]> {
+  const cacheKey = `${language}:${url}`;
+  const cached = guideCache.get(cacheKey);
+  if (cached && Date.now() - cached.fetchedAt < GUIDE_MAX_AGE_MS) {
+    return cached.programmes;
+  }
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Program guide responded with HTTP ${response.status}`);
+  }
+
+  const programmes = parseXmltv(await response.text(), language);
+  guideCache.set(cacheKey, { programmes, fetchedAt: Date.now() });
+  return programmes;
+}
+
+// Programmes by XMLTV channel id; channels still play without a guide, they just have no schedule
+export function useProgramGuide(url: string | null) {
+  const { locale } = useTranslation();
+  const [programmes, setProgrammes] = useState<Programme[]>(
+    () => (url ? guideCache.get(`${locale}:${url}`)?.programmes ?? [] : [])
+  );
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!url) {
+      setProgrammes([]);
+      return;
+    }
+
+    let cancelled = false;
+    const refresh = () => {
+      setIsLoading(true);
+      loadGuide(url, locale)
+        .then((loaded) => {
+          if (!cancelled) {
+            setProgrammes(loaded);
+            setError(null);
+          }
+        })
+        .catch((loadError) => {
+          console.warn('Failed to load program guide:', url, loadError);
+          if (!cancelled) {
+            setError(loadError instanceof Error ? loadError.message : String(loadError));
+          }
+        })
+        .finally(() => {
+          if (!cancelled) {
+            setIsLoading(false);
+          }
+        });
+    };
+
+    refresh();
+    const interval = setInterval(refresh, GUIDE_MAX_AGE_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [url, locale]);
+
+  const byChannel = useMemo(() => groupProgrammes(programmes), [programmes]);
+
+  return { programmes: byChannel, isLoading, error };
+}
@@ -0,0 +1,44 @@
+import { useMemo } from 'react';
+import { Video } from '@/src/types/video';
+import { useParentalControls } from './useParentalControls';
+
+const MAX_RELATED = 10;
+
+function categoryWords(category: string) {
+  return category.toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+function castMembers(starring?: string) {
+  return (starring ?? '')
+    .split(/,| and /)
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+// Ranks other titles by how much they share with `video`: exact category first,
+// then overlapping genre words ("Sci-Fi Thriller" / "Sci-Fi Epic") and shared cast.
+// Unrelated titles pad out the list so the rail is never empty.
+export function useRelatedVideos(video: Video | undefined, videos: Video[]) {
+  const { filterHidden } = useParentalControls();
+
+  return useMemo(() => {
+    if (!video) {
+      return [];
+    }
+
+    const words = categoryWords(video.category);
+    const cast = castMembers(video.starring);
+
+    return filterHidden(videos)
+      .filter((candidate) => candidate.id !== video.id)
+      .map((candidate) => {
+        let score = candidate.category === video.category ? 3 : 0;
+        score += categoryWords(candidate.category).filter((word) => words.includes(word)).length;
+        score += 2 * castMembers(candidate.starring).filter((name) => cast.includes(name)).length;
+        return { candidate, score };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_RELATED)
+      .map(({ candidate }) => candidate);
+  }, [video, videos, filterHidden]);
+}
@@ -0,0 +1,32 @@
+import { useCallback, useRef } from 'react';
+import { HWEvent, useTVEventHandler } from 'react-native';
+import { useIsFocused } from '@react-navigation/native';
+
+/**
+ * Calls `onMatch` when the remote keys in `sequence` are pressed in order,
+ * used to reach hidden screens without giving them a visible entry point.
+ * Remote events are global, so keys only count while the calling screen is focused.
+ */
+export function useRemoteSequence(sequence: string[], onMatch: () => void) {
+  const recentKeys = useRef<string[]>([]);
+  const isFocused = useIsFocused();
+
+  const handleEvent = useCallback((evt: HWEvent) => {
+    if (evt.eventKeyAction !== 1) {
+      return;
+    }
+    if (!isFocused) {
+      recentKeys.current = [];
+      return;
+    }
+
+    recentKeys.current = [...recentKeys.current, evt.eventType].slice(-sequence.length);
+    const matched = sequence.every((key, index) => recentKeys.current[index] === key);
+    if (matched) {
+      recentKeys.current = [];
+      onMatch();
+    }
+  }, [isFocused, sequence, onMatch]);
+
+  useTVEventHandler(handleEvent);
+}
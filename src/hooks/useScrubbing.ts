@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  SCRUB_COMMIT_DELAY,
+  SCRUB_REPEAT_INTERVAL,
+  SCRUB_STEP,
+  ScrubDirection,
+  scrubStepFor,
+} from '@/src/playback/scrubbing';
+
+interface UseScrubbingProps {
+  currentTime: number;
+  duration: number;
+  // Called once with the final position; the player isn't touched while the target moves
+  onCommit: (position: number) => void;
+}
+
+export function useScrubbing({ currentTime, duration, onCommit }: UseScrubbingProps) {
+  // Null when not scrubbing
+  const [scrubTime, setScrubTime] = useState<number | null>(null);
+  // Timers read these instead of whatever render they were started from
+  const target = useRef<number | null>(null);
+  const playback = useRef({ currentTime, duration });
+  const commitTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const holdInterval = useRef<ReturnType<typeof setInterval> | null>(null);
+  const holdStartedAt = useRef(0);
+
+  useEffect(() => {
+    playback.current = { currentTime, duration };
+  }, [currentTime, duration]);
+
+  const clearTimers = useCallback(() => {
+    if (commitTimeout.current) {
+      clearTimeout(commitTimeout.current);
+      commitTimeout.current = null;
+    }
+    if (holdInterval.current) {
+      clearInterval(holdInterval.current);
+      holdInterval.current = null;
+    }
+  }, []);
+
+  const moveTarget = useCallback((seconds: number) => {
+    const { currentTime, duration } = playback.current;
+    const position = Math.max(0, Math.min(duration, (target.current ?? currentTime) + seconds));
+    target.current = position;
+    setScrubTime(position);
+  }, []);
+
+  const commit = useCallback(() => {
+    clearTimers();
+    const position = target.current;
+    target.current = null;
+    setScrubTime(null);
+    if (position !== null) {
+      onCommit(position);
+    }
+  }, [clearTimers, onCommit]);
+
+  // Leaves the position where it was
+  const cancel = useCallback(() => {
+    clearTimers();
+    target.current = null;
+    setScrubTime(null);
+  }, [clearTimers]);
+
+  // A single press moves the target one step and seeks once presses stop coming
+  const nudge = useCallback((direction: ScrubDirection) => {
+    if (holdInterval.current) {
+      return;
+    }
+    moveTarget(direction * SCRUB_STEP);
+    if (commitTimeout.current) {
+      clearTimeout(commitTimeout.current);
+    }
+    commitTimeout.current = setTimeout(commit, SCRUB_COMMIT_DELAY);
+  }, [moveTarget, commit]);
+
+  // Holding keeps moving the target, faster the longer the hold; letting go should commit
+  const startHold = useCallback((direction: ScrubDirection) => {
+    clearTimers();
+    holdStartedAt.current = Date.now();
+    const advance = () => moveTarget(direction * scrubStepFor(Date.now() - holdStartedAt.current));
+    advance();
+    holdInterval.current = setInterval(advance, SCRUB_REPEAT_INTERVAL);
+  }, [clearTimers, moveTarget]);
+
+  useEffect(() => clearTimers, [clearTimers]);
+
+  return {
+    scrubTime,
+    isScrubbing: scrubTime !== null,
+    nudge,
+    startHold,
+    commit,
+    cancel,
+  };
+}
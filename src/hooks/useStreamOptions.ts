@@ -0,0 +1,139 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { AudioTrack, VideoPlayer } from "expo-video";
+import * as FileSystem from "expo-file-system";
+import { useLibraryStore } from "@/src/store/libraryStore";
+import {
+  AUTO_QUALITY,
+  HlsMasterPlaylist,
+  QualityOption,
+  buildRestrictedPlaylist,
+  fetchMasterPlaylist,
+  getQualityOptions,
+} from "@/src/playback/hlsManifest";
+
+interface UseStreamOptionsProps {
+  player: VideoPlayer;
+  videoId: string;
+  // The playing source when it's HLS; other formats offer no rendition choice
+  hlsUrl?: string;
+  // The restricted playlist the player is on, unset for Auto
+  rendition?: string;
+  // Reloads the source through the video handler, null going back to the full stream
+  onSelectRendition: (rendition: string | null) => void;
+}
+
+function renditionUri(videoId: string, quality: QualityOption): string {
+  return `${FileSystem.cacheDirectory ?? ""}quality-${videoId}-${quality.id}.m3u8`;
+}
+
+export function useStreamOptions({ player, videoId, hlsUrl, rendition, onSelectRendition }: UseStreamOptionsProps) {
+  const audioLanguage = useLibraryStore((state) => state.audioLanguage);
+  const setAudioLanguage = useLibraryStore((state) => state.setAudioLanguage);
+
+  const [audioTracks, setAudioTracks] = useState<AudioTrack[]>(player.availableAudioTracks ?? []);
+  const [activeAudioTrack, setActiveAudioTrack] = useState<AudioTrack | null>(player.audioTrack ?? null);
+  const [qualities, setQualities] = useState<QualityOption[]>([]);
+  const [isSwitchingQuality, setIsSwitchingQuality] = useState(false);
+  const masterPlaylist = useRef<HlsMasterPlaylist | null>(null);
+
+  // Follows the handler, so a retry that went back to the full stream shows Auto again
+  const activeQuality =
+    (rendition && qualities.find((quality) => renditionUri(videoId, quality) === rendition)) || AUTO_QUALITY;
+
+  // Renditions come from the master playlist, since the player only reports the one it chose
+  useEffect(() => {
+    let cancelled = false;
+    masterPlaylist.current = null;
+    setQualities([]);
+    if (!hlsUrl) {
+      return;
+    }
+    fetchMasterPlaylist(hlsUrl)
+      .then((playlist) => {
+        if (cancelled || !playlist) {
+          return;
+        }
+        masterPlaylist.current = playlist;
+        setQualities(getQualityOptions(playlist));
+      })
+      .catch((error) => {
+        console.warn("Could not read stream renditions:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [hlsUrl]);
+
+  // Apply the remembered language whenever a stream (or a re-loaded quality) offers it
+  useEffect(() => {
+    const applyPreferredAudio = (tracks: AudioTrack[]) => {
+      setAudioTracks(tracks);
+      const preferred = tracks.find((track) => track.language === audioLanguage);
+      if (preferred && player.audioTrack?.id !== preferred.id) {
+        player.audioTrack = preferred;
+      }
+    };
+
+    applyPreferredAudio(player.availableAudioTracks ?? []);
+    const tracksSubscription = player.addListener("availableAudioTracksChange", ({ availableAudioTracks }) => {
+      applyPreferredAudio(availableAudioTracks);
+    });
+    const trackSubscription = player.addListener("audioTrackChange", ({ audioTrack }) => {
+      setActiveAudioTrack(audioTrack);
+    });
+
+    return () => {
+      tracksSubscription.remove();
+      trackSubscription.remove();
+    };
+  }, [player, audioLanguage]);
+
+  useEffect(() => {
+    const subscription = player.addListener("statusChange", ({ status }) => {
+      if (status === "readyToPlay" || status === "error") {
+        setIsSwitchingQuality(false);
+      }
+    });
+
+    return () => subscription.remove();
+  }, [player]);
+
+  const selectAudioTrack = useCallback((track: AudioTrack) => {
+    player.audioTrack = track;
+    setAudioLanguage(track.language);
+  }, [player, setAudioLanguage]);
+
+  const selectQuality = useCallback(async (quality: QualityOption) => {
+    if (!hlsUrl || quality.id === activeQuality.id || isSwitchingQuality) {
+      return;
+    }
+
+    try {
+      let uri: string | null = null;
+      if (quality.id !== AUTO_QUALITY.id) {
+        if (!masterPlaylist.current) {
+          throw new Error("Stream renditions are not loaded");
+        }
+        uri = renditionUri(videoId, quality);
+        await FileSystem.writeAsStringAsync(uri, buildRestrictedPlaylist(masterPlaylist.current, quality.height));
+      }
+
+      setIsSwitchingQuality(true);
+      onSelectRendition(uri);
+    } catch (error) {
+      console.error("Failed to switch quality:", error);
+      setIsSwitchingQuality(false);
+    }
+  }, [videoId, hlsUrl, activeQuality, isSwitchingQuality, onSelectRendition]);
+
+  return {
+    audioTracks,
+    activeAudioTrack,
+    selectAudioTrack,
+    qualities,
+    activeQuality,
+    selectQuality,
+    isSwitchingQuality,
+  };
+}
@@ -0,0 +1,26 @@
+import { useCallback } from 'react';
+import { useLibraryStore } from '@/src/store/libraryStore';
+import { selectLanguage } from '@/src/store/selectors';
+import { isRTLLocale, resolveAppLocale } from '@/src/i18n/locales';
+import { formatClock, formatNumber, formatTimeOfDay } from '@/src/i18n/format';
+import { translate } from '@/src/i18n/translate';
+import { MessageKey, MessageParams } from '@/src/i18n/types';
+
+// Strings and formatting in the active profile's language
+export function useTranslation() {
+  const locale = resolveAppLocale(useLibraryStore(selectLanguage));
+
+  const t = useCallback((key: MessageKey, params?: MessageParams) => translate(locale, key, params), [locale]);
+
+  return {
+    t,
+    locale,
+    isRTL: isRTLLocale(locale),
+    formatNumber: useCallback(
+      (value: number, options?: Intl.NumberFormatOptions) => formatNumber(locale, value, options),
+      [locale]
+    ),
+    formatClock: useCallback((seconds: number) => formatClock(locale, seconds), [locale]),
+    formatTime: useCallback((timestamp: number) => formatTimeOfDay(locale, timestamp), [locale]),
+  };
+}
@@ -0,0 +1,42 @@
+import { useMemo } from 'react';
+import { Video } from '@/src/types/video';
+import { useLibraryStore } from '@/src/store/libraryStore';
+import { selectVideos } from '@/src/store/selectors';
+import { findEpisode, getNextEpisode, episodeAsVideo } from '@/src/catalog/series';
+import { useParentalControls } from './useParentalControls';
+
+// The next episode of a series comes first, then the viewer's own queue, then the next title
+// in the same category in catalog order. Titles parental controls restrict are never lined up.
+export function useUpNext(video: Video | undefined): Video | null {
+  const videos = useLibraryStore(selectVideos);
+  const queue = useLibraryStore((state) => state.queue);
+  const { isRestricted } = useParentalControls();
+
+  return useMemo(() => {
+    if (!video) {
+      return null;
+    }
+
+    const episode = findEpisode(videos, video.id);
+    const nextEpisode = episode && getNextEpisode(episode);
+    const nextEpisodeVideo = nextEpisode && episodeAsVideo(nextEpisode);
+    if (nextEpisodeVideo && !isRestricted(nextEpisodeVideo)) {
+      return nextEpisodeVideo;
+    }
+
+    const playable = videos.filter((candidate) => !isRestricted(candidate));
+    const videosById = new Map(playable.map((candidate) => [candidate.id, candidate]));
+    const queuedId = queue.find((id) => id !== video.id && videosById.has(id));
+    if (queuedId) {
+      return videosById.get(queuedId) ?? null;
+    }
+
+    // After a series' last episode, carry on from the series' place in its category
+    const current = episode ? episode.series : video;
+    const sameCategory = videos.filter((candidate) => candidate.category === current.category);
+    const index = sameCategory.findIndex((candidate) => candidate.id === current.id);
+    return index === -1
+      ? null
+      : sameCategory.slice(index + 1).find((candidate) => !isRestricted(candidate)) ?? null;
+  }, [video, videos, queue, isRestricted]);
+}
@@ -1,89 +1,48 @@
-import { useState, useEffect } from 'react';
-import { Video } from '@/src/types/video';
-import videosData from '@/src/data/videos.json';
+import { useEffect, useCallback, useMemo } from 'react';
+import { useLibraryStore } from '@/src/store/libraryStore';
+import {
+  selectVideos,
+  selectFavoriteIds,
+  selectToggleFavorite,
+  useFavoriteVideos,
+} from '@/src/store/selectors';
 
 export function useVideoData() {
-  const [videos, setVideos] = useState<Video[]>([]);
-  const [favorites, setFavorites] = useState<Set<string>>(new Set());
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
+  const videos = useLibraryStore(selectVideos);
+  const favoriteIds = useLibraryStore(selectFavoriteIds);
+  const isLoading = useLibraryStore((state) => state.isLoading || (!state.hasLoaded && !state.error));
+  const error = useLibraryStore((state) => state.error);
+  const staleReason = useLibraryStore((state) => state.staleReason);
+  const fetchedAt = useLibraryStore((state) => state.fetchedAt);
+  const toggleFavorite = useLibraryStore(selectToggleFavorite);
+  const loadCatalog = useLibraryStore((state) => state.loadCatalog);
+  const favoriteVideos = useFavoriteVideos();
+
+  // The catalog is shared, so only the first consumer triggers a load
   useEffect(() => {
-    loadVideos();
-    loadFavorites();
-  }, []);
-
-  const loadVideos = async () => {
-    try {
-      setIsLoading(true);
-      setError(null);
-      
-      // Simulate network delay for demo purposes
-      await new Promise(resolve => setTimeout(resolve, 500));
-      
-      // Validate video data structure
-      if (!Array.isArray(videosData)) {
-        throw new Error('Invalid video data format');
-      }
-
-      const validatedVideos = videosData.filter((video: any) => {
-        const isValid = video.id && video.title && video.thumbnail && video.url && video.hlsUrl;
-        if (!isValid) {
-          console.warn('Invalid video data:', video);
-        }
-        return isValid;
-      });
-
-      if (validatedVideos.length === 0) {
-        throw new Error('No valid videos found');
-      }
-
-      console.log(`Loaded ${validatedVideos.length} valid videos`);
-      setVideos(validatedVideos as Video[]);
-      setError(null);
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to load videos. Please check your connection and try again.';
-      setError(errorMessage);
-      console.error('Error loading videos:', err);
-    } finally {
-      setIsLoading(false);
+    const { hasLoaded, isLoading: loading } = useLibraryStore.getState();
+    if (!hasLoaded && !loading) {
+      loadCatalog();
     }
-  };
+  }, [loadCatalog]);
 
-  const loadFavorites = () => {
-    // In a real app, this would load from AsyncStorage or a backend
-    // For now, we'll use a simple Set
-    setFavorites(new Set());
-  };
+  const favorites = useMemo(() => new Set(favoriteIds), [favoriteIds]);
 
-  const toggleFavorite = (videoId: string) => {
-    setFavorites(prev => {
-      const newFavorites = new Set(prev);
-      if (newFavorites.has(videoId)) {
-        newFavorites.delete(videoId);
-      } else {
-        newFavorites.add(videoId);
-      }
-      // In a real app, save to AsyncStorage here
-      return newFavorites;
-    });
-  };
+  const isFavorite = useCallback((videoId: string) => favorites.has(videoId), [favorites]);
 
-  const isFavorite = (videoId: string) => favorites.has(videoId);
+  const getFavoriteVideos = useCallback(() => favoriteVideos, [favoriteVideos]);
 
-  const getFavoriteVideos = () => {
-    return videos.filter(video => favorites.has(video.id));
-  };
-
-  const retryLoading = () => {
-    loadVideos();
-  };
+  const retryLoading = useCallback(() => {
+    loadCatalog();
+  }, [loadCatalog]);
 
   return {
     videos,
     favorites,
     isLoading,
     error,
+    staleReason,
+    fetchedAt,
     toggleFavorite,
     isFavorite,
     getFavoriteVideos,
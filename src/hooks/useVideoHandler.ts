@@ -1,70 +1,130 @@
-import { useCallback, useRef, useEffect } from "react";
+import { useCallback, useRef, useEffect, useMemo, useState } from "react";
 import { useVideoPlayer } from "expo-video";
 import { usePlaybackState } from "./usePlaybackState";
+import { usePlaybackAnalytics } from "./usePlaybackAnalytics";
+import { useLibraryStore } from "@/src/store/libraryStore";
+import { StreamSource } from "@/src/types/video";
+import { PlaybackError, toPlaybackError } from "@/src/playback/playbackErrors";
+import {
+  PlaybackAttempt,
+  RetryPlan,
+  isTransientError,
+  pickRetrySource,
+  planRetry,
+} from "@/src/playback/retryPolicy";
+import { rankSources, toPlayerSource } from "@/src/playback/sourceSelection";
+import { markHostFailed, markHostHealthy } from "@/src/playback/hostHealth";
 
 interface UseVideoHandlerProps {
   videoId: string;
-  url: string;
-  hlsUrl: string;
+  // In catalog order; ranked here for this device and the hosts that failed this session
+  sources: StreamSource[];
+  // Explicit start position in seconds, takes precedence over the saved resume point
+  startTime?: number;
+  // Live streams have no resume point and never show up in Continue Watching
+  isLive?: boolean;
 }
 
 export function useVideoHandler({
   videoId,
-  url,
-  hlsUrl,
+  sources: catalogSources,
+  startTime,
+  isLive = false,
 }: UseVideoHandlerProps) {
   const {
     playbackState,
     updatePlaybackState,
-    savePlaybackPosition,
+    savePlaybackPosition: saveResumePoint,
     getSavedPosition,
-  } = usePlaybackState(videoId);
+  } = usePlaybackState(videoId, isLive);
+  const savePlaybackPosition = useCallback(
+    (position: number, duration: number) => {
+      if (!isLive) {
+        saveResumePoint(position, duration);
+      }
+    },
+    [isLive, saveResumePoint]
+  );
+  const setPreferredPlaybackRate = useLibraryStore((state) => state.setPlaybackRate);
   const seekTimeout = useRef<NodeJS.Timeout | null>(null);
   const wasPlayingBeforeSeek = useRef<boolean>(false);
   const loadingTimeout = useRef<NodeJS.Timeout | null>(null);
-
-  // Validate video URLs on initialization
-  useEffect(() => {
-    if (!url && !hlsUrl) {
+  const lastKnownPosition = useRef({ position: 0, duration: 0 });
+  const hasAppliedStartPosition = useRef(false);
+
+  // Ranked once per title, so hosts that fail now are skipped from the next title on
+  const sources = useMemo(() => rankSources(catalogSources), [catalogSources]);
+  const sourceIndex = useRef(0);
+  const [attempts, setAttempts] = useState<PlaybackAttempt[]>(() =>
+    sources[0] ? [{ number: 1, source: sources[0], startedAt: Date.now() }] : []
+  );
+  const retriesOnSource = useRef(0);
+  const activeRendition = useRef<string | undefined>(undefined);
+  // Where to pick up again once a retried or fallen-through source is ready
+  const pendingResume = useRef<{ position: number; wasPlaying: boolean } | null>(null);
+  const retryTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // The automatic retry waiting to start, null when none is
+  const [scheduledRetry, setScheduledRetry] = useState<RetryPlan | null>(null);
+
+  // Every failure goes through here, so the attempt history and the retry policy see it
+  const reportError = useCallback(
+    (error: PlaybackError) => {
       updatePlaybackState({
-        error: "No valid video URL provided",
+        error,
         isLoading: false,
       });
-      return;
-    }
+      const source = sources[sourceIndex.current];
+      if (source && isTransientError(error.code)) {
+        markHostFailed(source.url);
+      }
+      setAttempts((prev) =>
+        prev.map((attempt, index) =>
+          index === prev.length - 1 && !attempt.error ? { ...attempt, error } : attempt
+        )
+      );
+    },
+    [sources, updatePlaybackState]
+  );
 
-    if (!url || !hlsUrl) {
-      console.warn("Missing either URL or HLS URL for video:", videoId);
+  // Validate video URLs on initialization
+  useEffect(() => {
+    if (catalogSources.length === 0) {
+      reportError({ code: "source-not-found", detail: "No valid video URL provided" });
+    } else if (sources.length === 0) {
+      reportError({ code: "unsupported-format", detail: "None of the video's sources play on this device" });
     }
-  }, [url, hlsUrl, videoId, updatePlaybackState]);
+  }, [catalogSources, sources, reportError]);
 
   // Create video player instance with proper error handling
-  const videoSource = hlsUrl;
-  const player = useVideoPlayer(videoSource, (player) => {
+  const player = useVideoPlayer(sources[0] ? toPlayerSource(sources[0]) : null, (player) => {
     try {
       // Player configuration
       player.loop = false;
       player.allowsExternalPlayback = true;
       player.muted = false;
+      player.playbackRate = playbackState.playbackRate;
     } catch (error) {
       console.error("Error configuring player:", error);
-      updatePlaybackState({
-        error: "Failed to configure video player",
-        isLoading: false,
-      });
+      reportError({ code: "unsupported-format", detail: "Failed to configure video player" });
     }
   });
 
+  const activeSource = attempts[attempts.length - 1]?.source ?? null;
+  const { trackFirstFrame, trackSeek, trackProgress } = usePlaybackAnalytics({
+    player,
+    videoId,
+    source: activeSource?.url ?? "",
+    startPosition: startTime ?? getSavedPosition(),
+    error: playbackState.error,
+  });
+
   // Set up loading timeout after player is created
   useEffect(() => {
     // Set a timeout for loading
     loadingTimeout.current = setTimeout(() => {
       if (player.status === "loading") {
         console.warn("Video loading timeout");
-        updatePlaybackState({
-          error: "Video took too long to load. Please try again.",
-          isLoading: false,
-        });
+        reportError({ code: "timeout", detail: "Video took too long to load" });
       }
     }, 30000) as any; // 30 second timeout
 
@@ -73,7 +133,7 @@ export function useVideoHandler({
         clearTimeout(loadingTimeout.current);
       }
     };
-  }, [player.status, updatePlaybackState]);
+  }, [player.status, reportError]);
 
   const handlePlayPause = useCallback(() => {
     try {
@@ -87,11 +147,9 @@ export function useVideoHandler({
       });
     } catch (error) {
       console.error("Error in play/pause:", error);
-      updatePlaybackState({
-        error: "Failed to control video playback",
-      });
+      reportError({ code: "decode", detail: "Failed to control video playback" });
     }
-  }, [player, updatePlaybackState]);
+  }, [player, updatePlaybackState, reportError]);
 
   const handleSeek = useCallback(
     (position: number) => {
@@ -100,6 +158,7 @@ export function useVideoHandler({
         if (seekTimeout.current) {
           clearTimeout(seekTimeout.current);
         }
+        trackSeek(player.currentTime, position);
 
         // Pause if playing
         if (player.playing) {
@@ -116,26 +175,25 @@ export function useVideoHandler({
         seekTimeout.current = setTimeout(() => {
           try {
             player.currentTime = position;
-            savePlaybackPosition(position);
+            lastKnownPosition.current.position = position;
+            savePlaybackPosition(position, player.duration);
           } catch (error) {
             console.error("Error seeking to position:", error);
-            updatePlaybackState({
-              error: "Failed to seek to position",
-            });
+            reportError({ code: "decode", detail: "Failed to seek to position" });
           }
         }, 300) as any;
       } catch (error) {
         console.error("Error in handleSeek:", error);
-        updatePlaybackState({
-          error: "Failed to seek in video",
-        });
+        reportError({ code: "decode", detail: "Failed to seek in video" });
       }
     },
-    [player, updatePlaybackState, savePlaybackPosition]
+    [player, updatePlaybackState, savePlaybackPosition, trackSeek, reportError]
   );
 
   const handleSeekWithPause = useCallback(
     (position: number) => {
+      trackSeek(player.currentTime, position);
+
       // Store current playing state
       wasPlayingBeforeSeek.current = player.playing;
 
@@ -160,7 +218,8 @@ export function useVideoHandler({
       // Debounce the actual seek operation
       seekTimeout.current = setTimeout(() => {
         player.currentTime = position;
-        savePlaybackPosition(position);
+        lastKnownPosition.current.position = position;
+        savePlaybackPosition(position, player.duration);
 
         // Resume playback if it was playing before seeking
         if (wasPlayingBeforeSeek.current) {
@@ -173,7 +232,7 @@ export function useVideoHandler({
         }
       }, 100) as any;
     },
-    [player, updatePlaybackState, savePlaybackPosition]
+    [player, updatePlaybackState, savePlaybackPosition, trackSeek]
   );
 
   const handleSeekForward = useCallback(() => {
@@ -189,34 +248,132 @@ export function useVideoHandler({
     handleSeekWithPause(newPosition);
   }, [playbackState.currentTime, handleSeekWithPause]);
 
-  const handleRetry = useCallback(() => {
-    updatePlaybackState({
-      isLoading: true,
-      error: undefined,
-      currentTime: 0,
-      isPlaying: false,
-    });
-
-    // Clear any pending seek operations
-    if (seekTimeout.current) {
-      clearTimeout(seekTimeout.current);
+  const handleReplay = useCallback(() => {
+    try {
+      player.replay();
+      player.play();
+      lastKnownPosition.current.position = 0;
+      updatePlaybackState({
+        currentTime: 0,
+        isPlaying: true,
+        hasEnded: false,
+      });
+    } catch (error) {
+      console.error("Error replaying video:", error);
+      reportError({ code: "decode", detail: "Failed to replay video" });
     }
+  }, [player, updatePlaybackState, reportError]);
 
-    try {
-      // Try alternative URL source on retry (switch between URL and HLS)
-      const isCurrentlyHLS = videoSource === hlsUrl;
-      const fallbackSource = isCurrentlyHLS ? url : hlsUrl;
+  const handleSetPlaybackRate = useCallback(
+    (rate: number) => {
+      // Live streams have no speed control and leave the saved preference alone
+      if (isLive) {
+        return;
+      }
+      try {
+        player.playbackRate = rate;
+        updatePlaybackState({
+          playbackRate: rate,
+        });
+        setPreferredPlaybackRate(rate);
+      } catch (error) {
+        console.error("Error changing playback rate:", error);
+      }
+    },
+    [player, isLive, updatePlaybackState, setPreferredPlaybackRate]
+  );
 
-      // Reload the player with fallback URL
-      player.replace(fallbackSource);
-    } catch (error) {
-      console.error("Error during retry:", error);
+  // Loads one of the sources afresh as a new attempt, limited to a rendition when one is given
+  const startAttempt = useCallback(
+    (index: number, rendition?: string) => {
+      const source = sources[index];
+      if (!source) {
+        return;
+      }
+      sourceIndex.current = index;
+      activeRendition.current = rendition;
+      setAttempts((prev) => [
+        ...prev,
+        { number: prev.length + 1, source, rendition, startedAt: Date.now() },
+      ]);
+      // A live stream picks up at the live edge rather than where it stopped
+      const position = isLive ? 0 : lastKnownPosition.current.position;
+      pendingResume.current = position > 0 ? { position, wasPlaying: player.playing } : null;
       updatePlaybackState({
-        isLoading: false,
-        error: "Failed to retry video playback",
+        isLoading: true,
+        error: undefined,
+        currentTime: position,
+        isPlaying: false,
       });
+
+      // Clear any pending seek operations
+      if (seekTimeout.current) {
+        clearTimeout(seekTimeout.current);
+      }
+
+      try {
+        player.replace(rendition ? { uri: rendition, contentType: "hls" } : toPlayerSource(source));
+      } catch (error) {
+        console.error("Error during retry:", error);
+        reportError({ code: "decode", detail: "Failed to retry video playback" });
+      }
+    },
+    [player, sources, isLive, updatePlaybackState, reportError]
+  );
+
+  // Failures retry on their own, further apart each time, then fall through to the next source
+  useEffect(() => {
+    const error = playbackState.error;
+    if (!error || retryTimeout.current) {
+      return;
+    }
+    const plan = planRetry(
+      error.code,
+      retriesOnSource.current,
+      sourceIndex.current,
+      sources.length,
+      activeRendition.current !== undefined
+    );
+    if (!plan) {
+      return;
+    }
+    retriesOnSource.current = plan.retry;
+    setScheduledRetry(plan);
+    retryTimeout.current = setTimeout(() => {
+      retryTimeout.current = null;
+      setScheduledRetry(null);
+      // Only retries of the same source keep the picked rendition
+      startAttempt(plan.sourceIndex, plan.retry > 0 ? activeRendition.current : undefined);
+    }, plan.delayMs);
+  }, [playbackState.error, sources.length, startAttempt]);
+
+  // Try Again skips any wait and gives the automatic retries a fresh start
+  const handleRetry = useCallback(() => {
+    if (retryTimeout.current) {
+      clearTimeout(retryTimeout.current);
+      retryTimeout.current = null;
     }
-  }, [player, updatePlaybackState, hlsUrl, url, videoSource]);
+    setScheduledRetry(null);
+    retriesOnSource.current = 0;
+    startAttempt(
+      pickRetrySource(playbackState.error?.code ?? "network", sourceIndex.current, sources.length)
+    );
+  }, [playbackState.error, sources.length, startAttempt]);
+
+  // Quality changes reload the playing source like any other attempt, from where it was
+  const handleSelectRendition = useCallback(
+    (rendition: string | null) => {
+      if (retryTimeout.current) {
+        clearTimeout(retryTimeout.current);
+        retryTimeout.current = null;
+      }
+      setScheduledRetry(null);
+      retriesOnSource.current = 0;
+      lastKnownPosition.current.position = player.currentTime || lastKnownPosition.current.position;
+      startAttempt(sourceIndex.current, rendition ?? undefined);
+    },
+    [player, startAttempt]
+  );
 
   // Listen to player status changes
   useEffect(() => {
@@ -245,6 +402,24 @@ export function useVideoHandler({
           if (loadingTimeout.current) {
             clearTimeout(loadingTimeout.current);
           }
+          if (sources[sourceIndex.current]) {
+            markHostHealthy(sources[sourceIndex.current].url);
+          }
+          // A recovered source gets its full set of retries back for the next failure
+          retriesOnSource.current = 0;
+          if (retryTimeout.current) {
+            clearTimeout(retryTimeout.current);
+            retryTimeout.current = null;
+          }
+          setScheduledRetry(null);
+          const resume = pendingResume.current;
+          if (resume) {
+            pendingResume.current = null;
+            player.currentTime = resume.position;
+            if (resume.wasPlaying) {
+              player.play();
+            }
+          }
           updatePlaybackState({
             isLoading: false,
             duration: player.duration || 0,
@@ -259,10 +434,9 @@ export function useVideoHandler({
               : status.error?.message || "Video playback error occurred";
           console.error("Video playback error:", errorMessage);
           updatePlaybackState({
-            isLoading: false,
             isPlaying: false,
-            error: errorMessage,
           });
+          reportError(toPlaybackError(errorMessage));
           break;
 
         default:
@@ -276,7 +450,25 @@ export function useVideoHandler({
     });
 
     return () => subscription.remove();
-  }, [player, updatePlaybackState]);
+  }, [player, sources, updatePlaybackState, reportError]);
+
+  // With looping off the player just stops on the last frame, so the end has to be reported
+  useEffect(() => {
+    const subscription = player.addListener("playToEnd", () => {
+      const duration = player.duration || lastKnownPosition.current.duration;
+      lastKnownPosition.current.position = duration;
+      lastKnownPosition.current.duration = duration;
+      // A finished title drops out of Continue Watching
+      savePlaybackPosition(duration, duration);
+      updatePlaybackState({
+        isPlaying: false,
+        currentTime: duration,
+        hasEnded: true,
+      });
+    });
+
+    return () => subscription.remove();
+  }, [player, updatePlaybackState, savePlaybackPosition]);
 
   // Set up periodic progress updates
   useEffect(() => {
@@ -286,29 +478,37 @@ export function useVideoHandler({
         updatePlaybackState({
           currentTime,
         });
+        lastKnownPosition.current.position = currentTime;
+        lastKnownPosition.current.duration = player.duration || 0;
+        trackProgress(currentTime, player.duration || 0);
 
         // Save progress every 10 seconds
         if (Math.floor(currentTime) % 10 === 0) {
-          savePlaybackPosition(currentTime);
+          savePlaybackPosition(currentTime, player.duration || 0);
         }
       }
     }, 1000);
 
     return () => clearInterval(interval);
-  }, [player, updatePlaybackState, savePlaybackPosition]);
+  }, [player, updatePlaybackState, savePlaybackPosition, trackProgress]);
 
-  // Load saved position when player is ready
+  // Jump to the requested or saved position the first time the player is ready
   useEffect(() => {
     if (player.status === "readyToPlay") {
       try {
-        const savedPosition = getSavedPosition();
-        if (savedPosition > 0) {
+        const startPosition = startTime ?? getSavedPosition();
+        if (!hasAppliedStartPosition.current && startPosition > 0) {
+          hasAppliedStartPosition.current = true;
+          lastKnownPosition.current.position = startPosition;
+          updatePlaybackState({
+            currentTime: startPosition,
+          });
           // Use setTimeout to ensure the player is fully ready
           setTimeout(() => {
             try {
-              player.currentTime = savedPosition;
+              player.currentTime = startPosition;
             } catch (error) {
-              console.warn("Failed to set saved position:", error);
+              console.warn("Failed to set start position:", error);
             }
           }, 200);
         }
@@ -322,7 +522,18 @@ export function useVideoHandler({
         });
       }
     }
-  }, [player.status, getSavedPosition, updatePlaybackState, player]);
+  }, [player.status, startTime, getSavedPosition, updatePlaybackState, player]);
+
+  // Persist the last known position when the player goes away, so the
+  // resume point is never more than a second behind
+  useEffect(() => {
+    const lastPosition = lastKnownPosition.current;
+    return () => {
+      if (lastPosition.position > 0) {
+        savePlaybackPosition(lastPosition.position, lastPosition.duration);
+      }
+    };
+  }, [savePlaybackPosition]);
 
   // Cleanup timeouts on unmount
   useEffect(() => {
@@ -333,6 +544,9 @@ export function useVideoHandler({
       if (loadingTimeout.current) {
         clearTimeout(loadingTimeout.current);
       }
+      if (retryTimeout.current) {
+        clearTimeout(retryTimeout.current);
+      }
     };
   }, []);
 
@@ -342,8 +556,18 @@ export function useVideoHandler({
     updatePlaybackState,
     handlePlayPause,
     handleSeek,
+    handleSeekWithPause,
     handleSeekForward,
     handleSeekBackward,
+    handleSetPlaybackRate,
+    handleReplay,
     handleRetry,
+    handleSelectRendition,
+    handleFirstFrame: trackFirstFrame,
+    sources,
+    activeSource,
+    activeRendition: attempts[attempts.length - 1]?.rendition,
+    attempts,
+    scheduledRetry,
   };
 }
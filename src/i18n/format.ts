@@ -0,0 +1,43 @@
+import { AppLocale } from './locales';
+
+const numberFormats = new Map<string, Intl.NumberFormat>();
+const timeFormats = new Map<string, Intl.DateTimeFormat>();
+
+function getNumberFormat(locale: AppLocale, options: Intl.NumberFormatOptions = {}) {
+  const cacheKey = `${locale}:${JSON.stringify(options)}`;
+  let format = numberFormats.get(cacheKey);
+  if (!format) {
+    format = new Intl.NumberFormat(locale, options);
+    numberFormats.set(cacheKey, format);
+  }
+  return format;
+}
+
+export function formatNumber(locale: AppLocale, value: number, options?: Intl.NumberFormatOptions): string {
+  return getNumberFormat(locale, options).format(value);
+}
+
+// Wall-clock time such as "8:30 PM" or "20:30", as the locale writes it
+export function formatTimeOfDay(locale: AppLocale, timestamp: number): string {
+  let format = timeFormats.get(locale);
+  if (!format) {
+    format = new Intl.DateTimeFormat(locale, { hour: 'numeric', minute: '2-digit' });
+    timeFormats.set(locale, format);
+  }
+  return format.format(timestamp);
+}
+
+// "1:02:03" or "2:03", in the locale's digits
+export function formatClock(locale: AppLocale, seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const mins = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  const padded = getNumberFormat(locale, { minimumIntegerDigits: 2, useGrouping: false });
+  const plain = getNumberFormat(locale, { useGrouping: false });
+
+  if (hours > 0) {
+    return `${plain.format(hours)}:${padded.format(mins)}:${padded.format(secs)}`;
+  }
+  return `${plain.format(mins)}:${padded.format(secs)}`;
+}
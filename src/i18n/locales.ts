@@ -0,0 +1,41 @@
+export type AppLocale = 'en' | 'ar';
+
+export const SUPPORTED_LOCALES: AppLocale[] = ['en', 'ar'];
+
+export const DEFAULT_LOCALE: AppLocale = 'en';
+
+// Each language is named in itself, so it can be found whatever the UI is currently in
+export const LOCALE_NAMES: Record<AppLocale, string> = {
+  en: 'English',
+  ar: 'العربية',
+};
+
+const RTL_LOCALES: AppLocale[] = ['ar'];
+
+export function isAppLocale(value: unknown): value is AppLocale {
+  return SUPPORTED_LOCALES.includes(value as AppLocale);
+}
+
+export function isRTLLocale(locale: AppLocale): boolean {
+  return RTL_LOCALES.includes(locale);
+}
+
+let deviceLanguage: string | undefined;
+
+// Full BCP 47 tag such as "ar-EG"; read once, as store selectors call this on every update
+export function getDeviceLanguage(): string {
+  if (deviceLanguage === undefined) {
+    try {
+      deviceLanguage = Intl.DateTimeFormat().resolvedOptions().locale;
+    } catch {
+      deviceLanguage = DEFAULT_LOCALE;
+    }
+  }
+  return deviceLanguage;
+}
+
+// The UI language for a language tag, ignoring the region ("ar-EG" is "ar"); catalog metadata can go further
+export function resolveAppLocale(language: string): AppLocale {
+  const base = language.split('-')[0].toLowerCase();
+  return isAppLocale(base) ? base : DEFAULT_LOCALE;
+}
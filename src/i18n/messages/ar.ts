@@ -0,0 +1,207 @@
+import { Messages } from '../types';
+
+export const ar: Messages = {
+  'common.loading': 'جارٍ التحميل...',
+  'common.tryAgain': 'أعد المحاولة',
+  'common.cancel': 'إلغاء',
+  'common.close': 'إغلاق',
+  'common.clear': 'مسح',
+  'common.delete': 'حذف',
+  'common.play': 'تشغيل',
+  'common.resume': 'استئناف',
+  'common.playEpisode': 'تشغيل {episode}',
+  'common.resumeEpisode': 'استئناف {episode}',
+  'common.addToList': 'أضف إلى قائمتي',
+  'common.removeFromList': 'أزل من قائمتي',
+  'common.starring': 'بطولة',
+
+  'rating.ALL': 'لجميع الأعمار',
+  'rating.7+': 'من سن 7+',
+  'rating.13+': 'من سن 13+',
+  'rating.16+': 'من سن 16+',
+  'rating.18+': 'من سن 18+',
+
+  'home.loadingTitle': 'جارٍ تحميل محتواك',
+  'home.loadingMessage': 'نجهّز لك تجربة مشاهدة مخصصة...',
+  'home.errorTitle': 'عذرًا! حدث خطأ ما',
+  'home.search': 'بحث',
+  'home.parentalControls': 'الرقابة الأبوية',
+  'home.liveTv': 'البث المباشر',
+  'home.switchProfile': 'تبديل الملف الشخصي، الحالي {name}',
+  'home.runtime': 'المدة',
+  'home.rating': 'التصنيف',
+
+  'rails.continueWatching': 'متابعة المشاهدة',
+  'rails.myList': 'قائمتي',
+  'rails.becauseYouWatched': 'لأنك شاهدت {title}',
+  'rails.new': 'جديد',
+
+  'offline.offline': 'أنت غير متصل',
+  'offline.refreshFailed': 'تعذّر تحديث الكتالوج',
+  'offline.savedContent': '{status} · يُعرض المحتوى المحفوظ',
+  'offline.savedJustNow': '{status} · يُعرض المحتوى المحفوظ قبل لحظات',
+  'offline.savedMinutesAgo': {
+    one: '{status} · يُعرض المحتوى المحفوظ منذ دقيقة',
+    two: '{status} · يُعرض المحتوى المحفوظ منذ دقيقتين',
+    few: '{status} · يُعرض المحتوى المحفوظ منذ {count} دقائق',
+    other: '{status} · يُعرض المحتوى المحفوظ منذ {count} دقيقة',
+  },
+  'offline.savedHoursAgo': {
+    one: '{status} · يُعرض المحتوى المحفوظ منذ ساعة',
+    two: '{status} · يُعرض المحتوى المحفوظ منذ ساعتين',
+    few: '{status} · يُعرض المحتوى المحفوظ منذ {count} ساعات',
+    other: '{status} · يُعرض المحتوى المحفوظ منذ {count} ساعة',
+  },
+  'offline.savedOn': '{status} · يُعرض المحتوى المحفوظ بتاريخ {date}',
+
+  'videoList.loading': 'جارٍ تحميل الفيديوهات...',
+  'videoList.errorTitle': 'تعذّر تحميل الفيديوهات',
+  'videoList.retry': 'إعادة المحاولة',
+  'videoList.emptyTitle': 'لا توجد مفضلات بعد',
+  'videoList.emptyMessage': 'أضف فيديوهات إلى المفضلة بالضغط على أيقونة القلب',
+  'videoList.favoritesTitle': 'الفيديوهات المفضلة',
+  'videoList.libraryTitle': 'مكتبة الفيديو',
+  'videoList.count': {
+    zero: 'لا توجد فيديوهات',
+    one: 'فيديو واحد',
+    two: 'فيديوهان',
+    few: '{count} فيديوهات',
+    many: '{count} فيديو',
+    other: '{count} فيديو',
+  },
+
+  'thumbnail.play': 'تشغيل {title}',
+  'thumbnail.locked': 'مقفل: {title}',
+  'thumbnail.addHint': 'مدة الفيديو: {duration}. أضفه إلى المفضلة.',
+  'thumbnail.removeHint': 'مدة الفيديو: {duration}. أزله من المفضلة.',
+
+  'keyboard.space': 'مسافة',
+  'keyboard.spaceLabel': 'مسافة',
+  'keyboard.latin': 'التبديل إلى الأحرف اللاتينية',
+  'keyboard.arabic': 'التبديل إلى الأحرف العربية',
+
+  'search.placeholder': 'ابحث عن عناوين أو أشخاص أو أنواع',
+  'search.recent': 'عمليات البحث الأخيرة',
+  'search.startTyping': 'ابدأ الكتابة للبحث في المكتبة',
+  'search.noResults': 'لا توجد نتائج لـ "{query}"',
+
+  'details.restricted': 'هذا العنوان مقيّد',
+  'details.fromStart': 'من البداية',
+  'details.inQueue': 'في قائمة الانتظار',
+  'details.addToQueue': 'أضف إلى قائمة الانتظار',
+  'details.moreLikeThis': 'المزيد من هذا القبيل',
+  'details.season': 'الموسم {number}',
+
+  'play.restricted': 'هذا العنوان أعلى من تصنيف الرقابة الأبوية. أدخل الرمز للمشاهدة.',
+
+  'pin.prompt': 'أدخل رمز الرقابة الأبوية',
+  'pin.incorrect': 'رمز غير صحيح، حاول مرة أخرى',
+  'pin.progress': 'تم إدخال {entered} من {count} أرقام',
+
+  'parental.title': 'الرقابة الأبوية',
+  'parental.choosePin': 'اختر رمزًا',
+  'parental.confirmPin': 'أكّد الرمز',
+  'parental.choosePinHint': 'ستحتاجه لفتح العناوين المقيّدة وتغيير هذه الإعدادات',
+  'parental.confirmPinHint': 'أدخل الرمز نفسه مرة أخرى',
+  'parental.pinMismatch': 'الرمزان غير متطابقين، اختر رمزًا من جديد',
+  'parental.allowedRatings': 'التصنيفات المسموح بها',
+  'parental.allowedRatingsHint': 'تحتاج العناوين الأعلى تصنيفًا من هذا، والعناوين غير المصنفة، إلى الرمز لتشغيلها.',
+  'parental.off': 'إيقاف',
+  'parental.restrictedTitles': 'العناوين المقيّدة',
+  'parental.modeLock': 'إظهار مع قفل',
+  'parental.modeHide': 'إخفاء',
+  'parental.changePin': 'تغيير الرمز',
+
+  'profiles.whosWatching': 'من يشاهد؟',
+  'profiles.manageTitle': 'إدارة الملفات الشخصية',
+  'profiles.manage': 'إدارة الملفات الشخصية',
+  'profiles.done': 'تم',
+  'profiles.edit': 'تعديل {name}',
+  'profiles.add': 'إضافة ملف شخصي',
+  'profiles.addLabel': 'إضافة ملف شخصي',
+  'profiles.kidsBadge': 'أطفال',
+  'profiles.editTitle': 'تعديل الملف الشخصي',
+  'profiles.namePlaceholder': 'الاسم',
+  'profiles.avatar': 'الصورة الرمزية',
+  'profiles.avatarLabel': 'الصورة الرمزية {name}',
+  'profiles.kids': 'ملف شخصي للأطفال',
+  'profiles.kidsHint': 'لا تعرض ملفات الأطفال إلا العناوين المصنفة حتى {rating}.',
+  'profiles.language': 'اللغة',
+  'profiles.languageDevice': 'لغة الجهاز',
+  'profiles.save': 'حفظ',
+  'profiles.delete': 'حذف',
+
+  'player.errorTitle': 'خطأ في التشغيل',
+  'player.retrying': 'إعادة المحاولة تلقائيًا ({retry} من {max})…',
+  'player.attempts': 'المحاولات',
+  'player.fallingBack': 'تجربة بث آخر ({source} من {host})…',
+  'player.attempt': '#{number} · {source} · {host} · {result}',
+  'player.source.hls': 'HLS',
+  'player.source.dash': 'DASH',
+  'player.source.mp4': 'MP4',
+  'player.tryAgain': 'أعد المحاولة',
+  'player.close': 'إغلاق',
+  'player.remaining': '-{time}',
+  'player.remainingAtRate': '-{time} بسرعة {rate}',
+  'player.skipIntro': 'تخطي المقدمة',
+  'player.skipCredits': 'تخطي شارة النهاية',
+
+  'playbackError.network': 'تعذّر الوصول إلى خادم الفيديو. تحقّق من اتصالك وحاول مرة أخرى.',
+  'playbackError.network.label': 'خطأ في الشبكة',
+  'playbackError.manifest-parse': 'تعذّرت قراءة قائمة تشغيل البث.',
+  'playbackError.manifest-parse.label': 'قائمة تشغيل غير مقروءة',
+  'playbackError.decode': 'تعذّر تشغيل هذا الفيديو على هذا الجهاز.',
+  'playbackError.decode.label': 'فشل التشغيل',
+  'playbackError.timeout': 'استغرق تحميل الفيديو وقتًا طويلًا.',
+  'playbackError.timeout.label': 'انتهت المهلة',
+  'playbackError.unsupported-format': 'لا يدعم هذا الجهاز صيغة الفيديو.',
+  'playbackError.unsupported-format.label': 'صيغة غير مدعومة',
+  'playbackError.source-not-found': 'هذا الفيديو غير متاح حاليًا.',
+  'playbackError.source-not-found.label': 'غير موجود',
+
+  'playbackRate.normal': 'عادية',
+  'playbackRate.value': '{rate}×',
+
+  'menu.subtitles': 'الترجمة',
+  'menu.off': 'إيقاف',
+  'menu.size': 'الحجم',
+  'menu.color': 'اللون',
+  'menu.background': 'الخلفية',
+  'menu.playbackSpeed': 'سرعة التشغيل',
+  'menu.audio': 'الصوت',
+  'menu.unknownAudio': 'غير معروف',
+  'menu.singleAudioTrack': 'لهذا العنوان مسار صوتي واحد',
+  'menu.quality': 'الجودة',
+  'menu.autoQuality': 'تلقائي',
+  'menu.autoQualityHint': 'تتكيّف الجودة التلقائية مع اتصالك',
+
+  'captions.small': 'صغير',
+  'captions.medium': 'متوسط',
+  'captions.large': 'كبير',
+  'captions.white': 'أبيض',
+  'captions.yellow': 'أصفر',
+  'captions.cyan': 'سماوي',
+  'captions.green': 'أخضر',
+  'captions.none': 'بلا',
+  'captions.solid': 'معتمة',
+  'captions.unavailable': 'ترجمة {label} غير متاحة حاليًا',
+
+  'upNext.countdown': 'التالي خلال {count} ث',
+  'upNext.playNow': 'شغّل الآن',
+
+  'postPlay.finished': 'انتهيت من مشاهدة',
+  'postPlay.replay': 'إعادة التشغيل',
+  'postPlay.related': 'قد يعجبك أيضًا',
+
+  'live.title': 'البث المباشر',
+  'live.badge': 'مباشر',
+  'live.goLive': 'الانتقال إلى البث المباشر',
+  'live.timeRange': '{start} – {end}',
+  'live.noInformation': 'لا توجد معلومات',
+  'live.guideUnavailable': 'تعذّر تحميل دليل البرامج، ولا تزال القنوات تعمل',
+  'live.noChannels': 'لا توجد قنوات مباشرة متاحة',
+  'live.channelLabel': 'القناة {number}، {name}',
+  'notFound.title': 'عذرًا!',
+  'notFound.message': 'هذه الشاشة غير موجودة.',
+  'notFound.home': 'اذهب إلى الشاشة الرئيسية!',
+};
@@ -0,0 +1,191 @@
+import { Message } from '../types';
+
+// The source catalog: every key lives here first, and other languages translate it
+export const en = {
+  'common.loading': 'Loading...',
+  'common.tryAgain': 'TRY AGAIN',
+  'common.cancel': 'CANCEL',
+  'common.close': 'CLOSE',
+  'common.clear': 'Clear',
+  'common.delete': 'Delete',
+  'common.play': 'PLAY',
+  'common.resume': 'RESUME',
+  'common.playEpisode': 'PLAY {episode}',
+  'common.resumeEpisode': 'RESUME {episode}',
+  'common.addToList': 'Add to List',
+  'common.removeFromList': 'Remove From List',
+  'common.starring': 'Starring',
+
+  'rating.ALL': 'All ages',
+  'rating.7+': 'Ages 7+',
+  'rating.13+': 'Ages 13+',
+  'rating.16+': 'Ages 16+',
+  'rating.18+': 'Ages 18+',
+
+  'home.loadingTitle': 'Loading Your Entertainment',
+  'home.loadingMessage': 'Preparing your personalized video experience...',
+  'home.errorTitle': 'Oops! Something went wrong',
+  'home.search': 'Search',
+  'home.parentalControls': 'Parental controls',
+  'home.liveTv': 'Live TV',
+  'home.switchProfile': 'Switch profile, currently {name}',
+  'home.runtime': 'Runtime',
+  'home.rating': 'Rating',
+
+  'rails.continueWatching': 'Continue Watching',
+  'rails.myList': 'My List',
+  'rails.becauseYouWatched': 'Because You Watched {title}',
+  'rails.new': 'New',
+
+  'offline.offline': "You're offline",
+  'offline.refreshFailed': "Couldn't refresh the catalog",
+  'offline.savedContent': '{status} · Showing saved content',
+  'offline.savedJustNow': '{status} · Showing saved content from just now',
+  'offline.savedMinutesAgo': '{status} · Showing saved content from {count} min ago',
+  'offline.savedHoursAgo': '{status} · Showing saved content from {count} h ago',
+  'offline.savedOn': '{status} · Showing saved content from {date}',
+
+  'videoList.loading': 'Loading Videos...',
+  'videoList.errorTitle': 'Unable to Load Videos',
+  'videoList.retry': 'Retry',
+  'videoList.emptyTitle': 'No Favorites Yet',
+  'videoList.emptyMessage': 'Add videos to your favorites by tapping the heart icon',
+  'videoList.favoritesTitle': 'Favorite Videos',
+  'videoList.libraryTitle': 'Video Library',
+  'videoList.count': { one: '{count} video', other: '{count} videos' },
+
+  'thumbnail.play': 'Play {title}',
+  'thumbnail.locked': 'Locked: {title}',
+  'thumbnail.addHint': 'Video duration: {duration}. Add to favorites.',
+  'thumbnail.removeHint': 'Video duration: {duration}. Remove from favorites.',
+
+  'keyboard.space': 'SPACE',
+  'keyboard.spaceLabel': 'Space',
+  'keyboard.latin': 'Switch to Latin letters',
+  'keyboard.arabic': 'Switch to Arabic letters',
+
+  'search.placeholder': 'Search titles, people, genres',
+  'search.recent': 'Recent searches',
+  'search.startTyping': 'Start typing to search the library',
+  'search.noResults': 'No results for "{query}"',
+
+  'details.restricted': 'This title is restricted',
+  'details.fromStart': 'FROM START',
+  'details.inQueue': 'In Queue',
+  'details.addToQueue': 'Add to Queue',
+  'details.moreLikeThis': 'More Like This',
+  'details.season': 'Season {number}',
+
+  'play.restricted': 'This title is above your parental control rating. Enter the PIN to watch.',
+
+  'pin.prompt': 'Enter your parental control PIN',
+  'pin.incorrect': 'Incorrect PIN, try again',
+  'pin.progress': '{entered} of {count} digits entered',
+
+  'parental.title': 'Parental Controls',
+  'parental.choosePin': 'Choose a PIN',
+  'parental.confirmPin': 'Confirm your PIN',
+  'parental.choosePinHint': "It'll be needed to unlock restricted titles and change these settings",
+  'parental.confirmPinHint': 'Enter the same PIN again',
+  'parental.pinMismatch': "The PINs didn't match, choose one again",
+  'parental.allowedRatings': 'Allowed ratings',
+  'parental.allowedRatingsHint': 'Titles rated above this, and unrated titles, need the PIN to play.',
+  'parental.off': 'Off',
+  'parental.restrictedTitles': 'Restricted titles',
+  'parental.modeLock': 'Show with a lock',
+  'parental.modeHide': 'Hide',
+  'parental.changePin': 'CHANGE PIN',
+
+  'profiles.whosWatching': "Who's watching?",
+  'profiles.manageTitle': 'Manage Profiles',
+  'profiles.manage': 'MANAGE PROFILES',
+  'profiles.done': 'DONE',
+  'profiles.edit': 'Edit {name}',
+  'profiles.add': 'Add Profile',
+  'profiles.addLabel': 'Add profile',
+  'profiles.kidsBadge': 'KIDS',
+  'profiles.editTitle': 'Edit Profile',
+  'profiles.namePlaceholder': 'Name',
+  'profiles.avatar': 'Avatar',
+  'profiles.avatarLabel': 'Avatar {name}',
+  'profiles.kids': 'Kids profile',
+  'profiles.kidsHint': 'Kids profiles only show titles rated up to {rating}.',
+  'profiles.language': 'Language',
+  'profiles.languageDevice': 'Device default',
+  'profiles.save': 'SAVE',
+  'profiles.delete': 'DELETE',
+
+  'player.errorTitle': 'Playback Error',
+  'player.retrying': 'Trying again automatically (retry {retry} of {max})…',
+  'player.attempts': 'Attempts',
+  'player.fallingBack': 'Trying another stream ({source} from {host})…',
+  'player.attempt': '#{number} · {source} · {host} · {result}',
+  'player.source.hls': 'HLS',
+  'player.source.dash': 'DASH',
+  'player.source.mp4': 'MP4',
+  'player.tryAgain': 'Try Again',
+  'player.close': 'Close',
+  'player.remaining': '-{time}',
+  'player.remainingAtRate': '-{time} at {rate}',
+  'player.skipIntro': 'Skip Intro',
+  'player.skipCredits': 'Skip Credits',
+
+  'playbackError.network': "We couldn't reach the video server. Check your connection and try again.",
+  'playbackError.network.label': 'Network error',
+  'playbackError.manifest-parse': "The stream's playlist couldn't be read.",
+  'playbackError.manifest-parse.label': 'Unreadable playlist',
+  'playbackError.decode': "This video couldn't be played on this device.",
+  'playbackError.decode.label': 'Playback failed',
+  'playbackError.timeout': 'The video took too long to load.',
+  'playbackError.timeout.label': 'Timed out',
+  'playbackError.unsupported-format': "This device can't play the video's format.",
+  'playbackError.unsupported-format.label': 'Unsupported format',
+  'playbackError.source-not-found': "This video isn't available right now.",
+  'playbackError.source-not-found.label': 'Not found',
+
+  'playbackRate.normal': 'Normal',
+  'playbackRate.value': '{rate}x',
+
+  'menu.subtitles': 'Subtitles',
+  'menu.off': 'Off',
+  'menu.size': 'Size',
+  'menu.color': 'Color',
+  'menu.background': 'Background',
+  'menu.playbackSpeed': 'Playback speed',
+  'menu.audio': 'Audio',
+  'menu.unknownAudio': 'Unknown',
+  'menu.singleAudioTrack': 'This title has a single audio track',
+  'menu.quality': 'Quality',
+  'menu.autoQuality': 'Auto',
+  'menu.autoQualityHint': 'Auto adjusts to your connection',
+
+  'captions.small': 'Small',
+  'captions.medium': 'Medium',
+  'captions.large': 'Large',
+  'captions.white': 'White',
+  'captions.yellow': 'Yellow',
+  'captions.cyan': 'Cyan',
+  'captions.green': 'Green',
+  'captions.none': 'None',
+  'captions.solid': 'Solid',
+  'captions.unavailable': '{label} captions are unavailable right now',
+
+  'upNext.countdown': 'Up Next in {count}s',
+  'upNext.playNow': 'PLAY NOW',
+
+  'postPlay.finished': 'You finished',
+  'postPlay.replay': 'REPLAY',
+  'postPlay.related': 'You Might Also Like',
+
+  'live.title': 'Live TV',
+  'live.badge': 'LIVE',
+  'live.goLive': 'Go Live',
+  'live.timeRange': '{start} – {end}',
+  'live.noInformation': 'No information',
+  'live.guideUnavailable': "The program guide couldn't be loaded, channels still play",
+  'live.noChannels': 'No live channels are available',
+  'live.channelLabel': 'Channel {number}, {name}',
+  'notFound.title': 'Oops!',
+  'notFound.message': "This screen doesn't exist.",
+  'notFound.home': 'Go to home screen!',
+} satisfies Record<string, Message>;
@@ -0,0 +1,31 @@
+import { AppLocale } from './locales';
+import { formatNumber } from './format';
+import { Message, MessageKey, MessageParams, Messages, PluralMessage } from './types';
+import { en } from './messages/en';
+import { ar } from './messages/ar';
+
+const CATALOGS: Record<AppLocale, Messages> = { en, ar };
+
+const pluralRules = new Map<AppLocale, Intl.PluralRules>();
+
+function selectPlural(locale: AppLocale, message: PluralMessage, count: number): string {
+  let rules = pluralRules.get(locale);
+  if (!rules) {
+    rules = new Intl.PluralRules(locale);
+    pluralRules.set(locale, rules);
+  }
+  return message[rules.select(count)] ?? message.other;
+}
+
+export function translate(locale: AppLocale, key: MessageKey, params: MessageParams = {}): string {
+  const message: Message = CATALOGS[locale][key] ?? en[key];
+  const template = typeof message === 'string' ? message : selectPlural(locale, message, Number(params.count ?? 0));
+
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) {
+      return placeholder;
+    }
+    return typeof value === 'number' ? formatNumber(locale, value) : value;
+  });
+}
@@ -0,0 +1,16 @@
+import type { en } from './messages/en';
+
+// One string per CLDR plural category the language uses; `other` is the fallback for all of them
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+export type Message = string | PluralMessage;
+
+export type MessageKey = keyof typeof en;
+
+// Every other language must translate every key English has
+export type Messages = Record<MessageKey, Message>;
+
+// Numbers are formatted for the locale before being substituted; `count` also picks the plural form
+export type MessageParams = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
@@ -0,0 +1,29 @@
+import { LiveChannel } from '@/src/types/live';
+import { Video } from '@/src/types/video';
+
+export function guideIdOf(channel: LiveChannel): string {
+  return channel.guideId ?? channel.id;
+}
+
+// Channel up/down wraps around at either end of the lineup
+export function adjacentChannel(channels: LiveChannel[], channelId: string, step: number): LiveChannel | null {
+  const index = channels.findIndex((channel) => channel.id === channelId);
+  if (index === -1 || channels.length < 2) {
+    return null;
+  }
+  return channels[(index + step + channels.length) % channels.length];
+}
+
+// Channels play through the same player as on-demand titles, so they are handed to it as videos
+export function channelAsVideo(channel: LiveChannel): Video {
+  return {
+    id: channel.id,
+    title: `${channel.number} ${channel.name}`,
+    thumbnail: channel.logo ?? '',
+    description: '',
+    duration: '',
+    url: channel.streamUrl,
+    hlsUrl: channel.streamUrl,
+    category: '',
+  };
+}
@@ -0,0 +1,63 @@
+import { Programme } from '@/src/types/live';
+
+export const GUIDE_SLOT_MS = 30 * 60 * 1000;
+
+// The grid shows two hours at a time, and pages half an hour back and a day ahead of now
+export const GUIDE_VISIBLE_SLOTS = 4;
+export const GUIDE_PAST_MS = GUIDE_SLOT_MS;
+export const GUIDE_FUTURE_MS = 24 * 60 * 60 * 1000;
+
+// Gaps shorter than this are left out rather than given a sliver of a cell
+const MIN_GAP_MS = 60 * 1000;
+
+export interface GuideCell {
+  start: number;
+  end: number;
+  // Null for stretches the guide has nothing for
+  programme: Programme | null;
+}
+
+export function slotStart(time: number): number {
+  return Math.floor(time / GUIDE_SLOT_MS) * GUIDE_SLOT_MS;
+}
+
+// Keyed by XMLTV channel id, each list in start order
+export function groupProgrammes(programmes: Programme[]): Map<string, Programme[]> {
+  const groups = new Map<string, Programme[]>();
+  for (const programme of programmes) {
+    const group = groups.get(programme.channelId) ?? [];
+    group.push(programme);
+    groups.set(programme.channelId, group);
+  }
+  for (const group of groups.values()) {
+    group.sort((a, b) => a.start - b.start);
+  }
+  return groups;
+}
+
+export function findProgrammeAt(programmes: Programme[] | undefined, time: number): Programme | null {
+  return programmes?.find((programme) => programme.start <= time && time < programme.end) ?? null;
+}
+
+// One channel's row of the grid: programmes clipped to the window, and the gaps between
+// them filled with empty cells so every part of the row can take focus
+export function buildGuideRow(programmes: Programme[] | undefined, windowStart: number, windowEnd: number): GuideCell[] {
+  const cells: GuideCell[] = [];
+  let cursor = windowStart;
+  for (const programme of programmes ?? []) {
+    if (programme.end <= cursor || programme.start >= windowEnd) {
+      continue;
+    }
+    if (programme.start - cursor >= MIN_GAP_MS) {
+      cells.push({ start: cursor, end: programme.start, programme: null });
+    }
+    const start = Math.max(cursor, programme.start);
+    const end = Math.min(windowEnd, programme.end);
+    cells.push({ start, end, programme });
+    cursor = end;
+  }
+  if (windowEnd - cursor >= MIN_GAP_MS || cells.length === 0) {
+    cells.push({ start: cursor, end: windowEnd, programme: null });
+  }
+  return cells;
+}
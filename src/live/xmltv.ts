@@ -0,0 +1,112 @@
+import { Programme } from '@/src/types/live';
+
+// "20240101120000 +0100"; seconds and the offset are optional, and no offset means UTC
+const XMLTV_TIME = /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})?\s*(?:([+-])(\d{2}):?(\d{2}))?/;
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+export function parseXmltvTime(value: string): number | null {
+  const match = XMLTV_TIME.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day, hours, minutes, seconds = '0', sign, offsetHours, offsetMinutes] = match;
+  const utc = Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds);
+  const offset = sign ? (sign === '-' ? -1 : 1) * (+offsetHours * 60 + +offsetMinutes) * 60 * 1000 : 0;
+  return utc - offset;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+function readText(raw: string): string {
+  // Feeds sometimes wrap HTML in CDATA; the guide only shows plain text
+  const cdata = /^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/.exec(raw);
+  return cdata ? cdata[1].replace(/<[^>]*>/g, '').trim() : decodeEntities(raw.replace(/<[^>]*>/g, '')).trim();
+}
+
+function readAttributes(raw: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, doubleQuoted, singleQuoted] of raw.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[name] = decodeEntities(doubleQuoted ?? singleQuoted);
+  }
+  return attributes;
+}
+
+interface LocalizedText {
+  lang?: string;
+  text: string;
+}
+
+// The viewer's language, then the same language without its region, then whatever came first
+function pickLocalized(values: LocalizedText[], language?: string): string | undefined {
+  if (language) {
+    const base = language.split('-')[0].toLowerCase();
+    const match =
+      values.find((value) => value.lang?.toLowerCase() === language.toLowerCase())
+      ?? values.find((value) => value.lang?.split('-')[0].toLowerCase() === base);
+    if (match) {
+      return match.text;
+    }
+  }
+  return values[0]?.text;
+}
+
+/**
+ * Reads the programmes out of an XMLTV document. Programmes without a stop time run until
+ * the next one on their channel; ones missing a channel, start or title are skipped.
+ */
+export function parseXmltv(text: string, language?: string): Programme[] {
+  if (!/<tv[\s>]/.test(text)) {
+    throw new Error('Not an XMLTV document');
+  }
+
+  const byChannel = new Map<string, (Omit<Programme, 'end'> & { end: number | null })[]>();
+  for (const [, rawAttributes, body] of text.matchAll(/<programme\b([^>]*)>([\s\S]*?)<\/programme>/g)) {
+    const attributes = readAttributes(rawAttributes);
+    const start = attributes.start ? parseXmltvTime(attributes.start) : null;
+    const end = attributes.stop ? parseXmltvTime(attributes.stop) : null;
+
+    const fields: Record<string, LocalizedText[]> = { title: [], desc: [], category: [] };
+    for (const [, tag, rawChildAttributes, content] of body.matchAll(/<(title|desc|category)\b([^>]*)>([\s\S]*?)<\/\1>/g)) {
+      const childText = readText(content);
+      if (childText) {
+        fields[tag].push({ lang: readAttributes(rawChildAttributes).lang, text: childText });
+      }
+    }
+
+    const title = pickLocalized(fields.title, language);
+    if (!attributes.channel || start === null || !title) {
+      continue;
+    }
+    const programmes = byChannel.get(attributes.channel) ?? [];
+    programmes.push({
+      channelId: attributes.channel,
+      start,
+      end,
+      title,
+      description: pickLocalized(fields.desc, language),
+      category: pickLocalized(fields.category, language),
+    });
+    byChannel.set(attributes.channel, programmes);
+  }
+
+  const programmes: Programme[] = [];
+  for (const channelProgrammes of byChannel.values()) {
+    channelProgrammes.sort((a, b) => a.start - b.start);
+    channelProgrammes.forEach((programme, index) => {
+      const end = programme.end ?? channelProgrammes[index + 1]?.start ?? null;
+      if (end !== null && end > programme.start) {
+        programmes.push({ ...programme, end });
+      }
+    });
+  }
+  return programmes;
+}
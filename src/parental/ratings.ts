@@ -0,0 +1,43 @@
+import { MaturityRating, Video } from '@/src/types/video';
+import { Translate } from '@/src/i18n/types';
+
+export const MATURITY_RATINGS: MaturityRating[] = ['ALL', '7+', '13+', '16+', '18+'];
+
+// Kids profiles never go above this, whatever the household limit is
+export const KIDS_MAX_RATING: MaturityRating = '7+';
+
+export const PIN_LENGTH = 4;
+
+// How long a title stays playable after the PIN is entered for it
+export const UNLOCK_DURATION_MS = 2 * 60 * 60 * 1000;
+
+// Titles above the allowed rating are either left out entirely or shown with a lock
+export type RestrictedTitleMode = 'hide' | 'lock';
+
+export function isMaturityRating(value: unknown): value is MaturityRating {
+  return MATURITY_RATINGS.includes(value as MaturityRating);
+}
+
+export function formatMaturityRating(rating: MaturityRating, t: Translate) {
+  return t(`rating.${rating}`);
+}
+
+// The lower of two limits, where null means no limit
+export function strictestRating(a: MaturityRating | null, b: MaturityRating | null): MaturityRating | null {
+  if (!a || !b) {
+    return a ?? b;
+  }
+  return MATURITY_RATINGS.indexOf(a) <= MATURITY_RATINGS.indexOf(b) ? a : b;
+}
+
+// A null limit means parental controls are off
+export function isAboveRating(video: Video, maxRating: MaturityRating | null): boolean {
+  if (!maxRating) {
+    return false;
+  }
+  // Missing or unrecognised ratings rank above every limit
+  const level = isMaturityRating(video.maturityRating)
+    ? MATURITY_RATINGS.indexOf(video.maturityRating)
+    : MATURITY_RATINGS.length;
+  return level > MATURITY_RATINGS.indexOf(maxRating);
+}
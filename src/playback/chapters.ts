@@ -0,0 +1,69 @@
+import { Chapter, SkippableRange, Video } from '@/src/types/video';
+
+// Going back this soon after a chapter starts goes to the one before it instead of restarting it
+const CHAPTER_RESTART_GRACE = 3;
+
+export type SkipKind = 'intro' | 'credits';
+
+export interface ActiveSkip {
+  kind: SkipKind;
+  range: SkippableRange;
+}
+
+// Lists that fail validation never get past the catalog, but nothing here relies on them being sorted
+function validChapters(chapters: Chapter[] = []): Chapter[] {
+  return chapters
+    .filter((chapter) => Number.isFinite(chapter?.start) && chapter.start >= 0)
+    .sort((a, b) => a.start - b.start);
+}
+
+function isValidRange(range?: SkippableRange): range is SkippableRange {
+  return !!range && Number.isFinite(range.start) && Number.isFinite(range.end) && range.start < range.end;
+}
+
+export function findChapter(chapters: Chapter[] | undefined, time: number): Chapter | null {
+  let current: Chapter | null = null;
+  for (const chapter of validChapters(chapters)) {
+    if (chapter.start > time) {
+      break;
+    }
+    current = chapter;
+  }
+  return current;
+}
+
+export function nextChapterStart(chapters: Chapter[] | undefined, time: number): number | null {
+  return validChapters(chapters).find((chapter) => chapter.start > time)?.start ?? null;
+}
+
+export function previousChapterStart(chapters: Chapter[] | undefined, time: number): number | null {
+  const sorted = validChapters(chapters);
+  const index = sorted.findLastIndex((chapter) => chapter.start <= time);
+  if (index < 0) {
+    return sorted.length > 0 ? 0 : null;
+  }
+  if (time - sorted[index].start > CHAPTER_RESTART_GRACE || index === 0) {
+    return sorted[index].start;
+  }
+  return sorted[index - 1].start;
+}
+
+// Chapter starts as fractions of the duration, for ticks along the progress bar
+export function chapterMarks(chapters: Chapter[] | undefined, duration: number): number[] {
+  if (duration <= 0) {
+    return [];
+  }
+  return validChapters(chapters)
+    .map((chapter) => chapter.start / duration)
+    .filter((fraction) => fraction > 0 && fraction < 1);
+}
+
+export function findActiveSkip(video: Pick<Video, 'intro' | 'credits'>, time: number): ActiveSkip | null {
+  for (const kind of ['intro', 'credits'] as const) {
+    const range = video[kind];
+    if (isValidRange(range) && time >= range.start && time < range.end) {
+      return { kind, range };
+    }
+  }
+  return null;
+}
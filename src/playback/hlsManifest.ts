@@ -0,0 +1,157 @@
+/**
+ * Just enough of an HLS master playlist parser to list the renditions a stream offers and to
+ * write a copy of the playlist restricted to one resolution. expo-video can report the video
+ * tracks it picked but can't be told which one to use, so pinning a quality means handing the
+ * player a playlist that only contains it.
+ */
+
+export interface HlsVariant {
+  // Absolute URI of the variant's media playlist
+  uri: string;
+  bandwidth: number;
+  width?: number;
+  height?: number;
+  codecs?: string;
+  // The #EXT-X-STREAM-INF line as written, so restricted playlists keep every attribute
+  streamInf: string;
+}
+
+export interface HlsMasterPlaylist {
+  url: string;
+  variants: HlsVariant[];
+  // Everything that isn't a variant (audio/subtitle renditions, tags), with URIs made absolute
+  sharedLines: string[];
+}
+
+export interface QualityOption {
+  id: string;
+  label: string;
+  detail?: string;
+  height: number;
+}
+
+export const AUTO_QUALITY: QualityOption = { id: 'auto', label: 'Auto', height: 0 };
+
+// Playlists and tracks may point at their resources relative to their own URL
+export function resolveUri(uri: string, baseUrl: string): string {
+  if (/^[a-z][a-z0-9+.-]*:/i.test(uri)) {
+    return uri;
+  }
+  if (uri.startsWith('/')) {
+    const origin = baseUrl.match(/^[a-z][a-z0-9+.-]*:\/\/[^/]+/i);
+    return origin ? `${origin[0]}${uri}` : uri;
+  }
+  const base = baseUrl.split(/[?#]/)[0];
+  return `${base.slice(0, base.lastIndexOf('/') + 1)}${uri}`;
+}
+
+// Attribute lists are comma separated, but quoted values (CODECS="avc1,mp4a") can contain commas
+function parseAttributes(list: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(list)) !== null) {
+    attributes[match[1]] = match[2].replace(/^"|"$/g, '');
+  }
+  return attributes;
+}
+
+/**
+ * Returns null for a media playlist, which has no renditions to choose from.
+ */
+export function parseMasterPlaylist(text: string, url: string): HlsMasterPlaylist | null {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n').map((line) => line.trim());
+  if (lines[0] !== '#EXTM3U') {
+    throw new Error('Not an HLS playlist');
+  }
+
+  const variants: HlsVariant[] = [];
+  const sharedLines: string[] = [];
+
+  for (let index = 1; index < lines.length; index++) {
+    const line = lines[index];
+    if (!line) {
+      continue;
+    }
+
+    if (line.startsWith('#EXT-X-STREAM-INF:')) {
+      const uri = lines.slice(index + 1).find((next) => next && !next.startsWith('#'));
+      if (!uri) {
+        break;
+      }
+      index = lines.indexOf(uri, index + 1);
+
+      const attributes = parseAttributes(line.slice('#EXT-X-STREAM-INF:'.length));
+      const [width, height] = (attributes.RESOLUTION ?? '').split('x').map(Number);
+      variants.push({
+        uri: resolveUri(uri, url),
+        bandwidth: Number(attributes.BANDWIDTH) || 0,
+        width: width || undefined,
+        height: height || undefined,
+        codecs: attributes.CODECS,
+        streamInf: line,
+      });
+    } else if (line.startsWith('#EXTINF')) {
+      return null;
+    } else if (!line.startsWith('#EXT-X-I-FRAME-STREAM-INF')) {
+      sharedLines.push(line.replace(/URI="([^"]*)"/, (_, uri) => `URI="${resolveUri(uri, url)}"`));
+    }
+  }
+
+  return variants.length > 0 ? { url, variants, sharedLines } : null;
+}
+
+function formatBitrate(bandwidth: number): string {
+  return bandwidth >= 1000000
+    ? `${(bandwidth / 1000000).toFixed(1)} Mbps`
+    : `${Math.round(bandwidth / 1000)} kbps`;
+}
+
+/**
+ * One option per resolution, highest first. Variants sharing a resolution (different codecs or
+ * frame rates) stay grouped so the player can still pick the one the device decodes.
+ */
+export function getQualityOptions(playlist: HlsMasterPlaylist): QualityOption[] {
+  const byHeight = new Map<number, HlsVariant[]>();
+  for (const variant of playlist.variants) {
+    if (variant.height) {
+      byHeight.set(variant.height, [...(byHeight.get(variant.height) ?? []), variant]);
+    }
+  }
+
+  return [...byHeight.entries()]
+    .sort(([a], [b]) => b - a)
+    .map(([height, variants]) => {
+      const bandwidths = variants.map((variant) => variant.bandwidth);
+      const low = Math.min(...bandwidths);
+      const high = Math.max(...bandwidths);
+      return {
+        id: `${height}p`,
+        label: `${height}p`,
+        detail: low === high ? formatBitrate(high) : `${formatBitrate(low)} - ${formatBitrate(high)}`,
+        height,
+      };
+    });
+}
+
+export function buildRestrictedPlaylist(playlist: HlsMasterPlaylist, height: number): string {
+  const variants = playlist.variants.filter((variant) => variant.height === height);
+  if (variants.length === 0) {
+    throw new Error(`Stream has no ${height}p rendition`);
+  }
+
+  return [
+    '#EXTM3U',
+    ...playlist.sharedLines,
+    ...variants.flatMap((variant) => [variant.streamInf, variant.uri]),
+    '',
+  ].join('\n');
+}
+
+export async function fetchMasterPlaylist(url: string): Promise<HlsMasterPlaylist | null> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Playlist responded with HTTP ${response.status}`);
+  }
+  return parseMasterPlaylist(await response.text(), url);
+}
@@ -0,0 +1,28 @@
+// Hosts that failed to deliver a stream during this app session. Kept in memory only,
+// since an outage rarely outlives a restart
+const failedHosts = new Set<string>();
+
+export function hostOf(url: string): string | null {
+  const match = /^[a-z][a-z0-9+.-]*:\/\/(?:[^@/?#]*@)?([^/?#:]+)/i.exec(url);
+  return match ? match[1].toLowerCase() : null;
+}
+
+export function markHostFailed(url: string) {
+  const host = hostOf(url);
+  if (host) {
+    failedHosts.add(host);
+  }
+}
+
+// A host that delivers again is trusted again
+export function markHostHealthy(url: string) {
+  const host = hostOf(url);
+  if (host) {
+    failedHosts.delete(host);
+  }
+}
+
+export function hasHostFailed(url: string): boolean {
+  const host = hostOf(url);
+  return host !== null && failedHosts.has(host);
+}
@@ -0,0 +1,49 @@
+import { MessageKey } from '@/src/i18n/types';
+
+export type PlaybackErrorCode =
+  | 'network'
+  | 'manifest-parse'
+  | 'decode'
+  | 'timeout'
+  | 'unsupported-format'
+  | 'source-not-found';
+
+export interface PlaybackError {
+  code: PlaybackErrorCode;
+  // What the player or handler actually said, for logs and analytics; viewers see the code's message
+  detail?: string;
+}
+
+// Checked in order, so the more specific wordings come first. Native players word these
+// differently per platform (ExoPlayer error code names and exceptions, AVFoundation and
+// CoreMedia descriptions), so only their wording and codes are matched, never file names
+const CLASSIFIERS: { code: PlaybackErrorCode; pattern: RegExp }[] = [
+  { code: 'source-not-found', pattern: /\b(404|410)\b|not found|FILE_NOT_FOUND|FileNotFound|no such file|does not exist/i },
+  { code: 'timeout', pattern: /timed? ?out|timeout/i },
+  { code: 'manifest-parse', pattern: /ParserException|PARSING_MANIFEST|parse error|malformed|EXTM3U|-12642\b/i },
+  { code: 'unsupported-format', pattern: /unsupported|not supported|not recognized|UnrecognizedInputFormat|no suitable|cannot open|EXCEEDS_CAPABILITIES/i },
+  { code: 'decode', pattern: /decod|codec|renderer|DRM/i },
+];
+
+// Messages often quote the stream URL, whose path says nothing about what went wrong
+const URL_PATTERN = /\b[a-z][a-z0-9+.-]*:\/\/\S+/gi;
+
+// Anything unrecognised is treated as a network failure, the most common and most retryable case
+export function classifyPlaybackError(message: string): PlaybackErrorCode {
+  const wording = message.replace(URL_PATTERN, '');
+  return CLASSIFIERS.find(({ pattern }) => pattern.test(wording))?.code ?? 'network';
+}
+
+export function toPlaybackError(message: string): PlaybackError {
+  return { code: classifyPlaybackError(message), detail: message };
+}
+
+// Full explanation shown on the error screen
+export function playbackErrorMessageKey(code: PlaybackErrorCode): MessageKey {
+  return `playbackError.${code}`;
+}
+
+// Short label used in the attempt history
+export function playbackErrorLabelKey(code: PlaybackErrorCode): MessageKey {
+  return `playbackError.${code}.label`;
+}
@@ -0,0 +1,14 @@
+import { Translate } from '@/src/i18n/types';
+
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 1.75, 2];
+
+export const DEFAULT_PLAYBACK_RATE = 1;
+
+// Persisted values come back through AsyncStorage, so anything unexpected falls back to normal speed
+export function normalizePlaybackRate(rate: unknown): number {
+  return typeof rate === 'number' && PLAYBACK_RATES.includes(rate) ? rate : DEFAULT_PLAYBACK_RATE;
+}
+
+export function formatPlaybackRate(rate: number, t: Translate): string {
+  return rate === DEFAULT_PLAYBACK_RATE ? t('playbackRate.normal') : t('playbackRate.value', { rate });
+}
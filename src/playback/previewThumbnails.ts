@@ -0,0 +1,79 @@
+/**
+ * Trick-play thumbnails come as a WebVTT track whose cues point at images instead of text,
+ * usually one frame of a sprite sheet ("sprites/1.jpg#xywh=160,0,160,90"). The sheet's full size
+ * isn't written anywhere, so it is worked out from the frames laid out in it.
+ */
+import { parseWebVTT } from '@/src/captions/parseCaptions';
+import { resolveUri } from './hlsManifest';
+
+export interface PreviewRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PreviewThumbnail {
+  start: number;
+  end: number;
+  // Absolute URL of the image the frame is in
+  url: string;
+  // Null when the cue points at a whole image rather than a part of a sprite sheet
+  region: PreviewRegion | null;
+  // Size of the whole image, in the same pixels as the region
+  imageWidth: number;
+  imageHeight: number;
+}
+
+// Only pixel fragments are used in practice; "xywh=percent:" ones are skipped
+const XYWH_PATTERN = /#xywh=(?:pixel:)?(\d+),(\d+),(\d+),(\d+)$/;
+
+export function parseThumbnailTrack(text: string, trackUrl: string): PreviewThumbnail[] {
+  const frames = parseWebVTT(text)
+    .map((cue) => {
+      const [image, fragment = ''] = cue.text.split('#');
+      if (!image) {
+        return null;
+      }
+      const match = `#${fragment}`.match(XYWH_PATTERN);
+      const region = match
+        ? { x: Number(match[1]), y: Number(match[2]), width: Number(match[3]), height: Number(match[4]) }
+        : null;
+      return { start: cue.start, end: cue.end, url: resolveUri(image.trim(), trackUrl), region };
+    })
+    .filter((frame): frame is Omit<PreviewThumbnail, 'imageWidth' | 'imageHeight'> => frame !== null);
+
+  const imageSizes = new Map<string, { width: number; height: number }>();
+  for (const { url, region } of frames) {
+    if (region) {
+      const size = imageSizes.get(url) ?? { width: 0, height: 0 };
+      size.width = Math.max(size.width, region.x + region.width);
+      size.height = Math.max(size.height, region.y + region.height);
+      imageSizes.set(url, size);
+    }
+  }
+
+  return frames.map((frame) => {
+    // Whole images are shown as they are, so their size is only needed for the aspect ratio
+    const size = frame.region ? imageSizes.get(frame.url)! : { width: 16, height: 9 };
+    return { ...frame, imageWidth: size.width, imageHeight: size.height };
+  });
+}
+
+// Frames are in time order; past the last one the closing frame stays up
+export function findPreviewThumbnail(frames: PreviewThumbnail[], time: number): PreviewThumbnail | null {
+  let low = 0;
+  let high = frames.length - 1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    const frame = frames[middle];
+    if (time < frame.start) {
+      high = middle - 1;
+    } else if (time >= frame.end) {
+      low = middle + 1;
+    } else {
+      return frame;
+    }
+  }
+  return frames[Math.min(low, frames.length - 1)] ?? null;
+}
@@ -0,0 +1,65 @@
+import { StreamSource } from '@/src/types/video';
+import { PlaybackError, PlaybackErrorCode } from './playbackErrors';
+
+// One go at loading the title, listed on the error screen
+export interface PlaybackAttempt {
+  number: number;
+  source: StreamSource;
+  // Local playlist limiting the source to the one rendition the viewer picked; unset for Auto
+  rendition?: string;
+  startedAt: number;
+  // Unset while the attempt is still going (or went fine)
+  error?: PlaybackError;
+}
+
+// Automatic retries of one source before moving down the list; Try Again on the error screen always works
+export const MAX_RETRIES_PER_SOURCE = 2;
+
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 15000;
+// Moving on to another source doesn't need to wait for anything to recover
+const FALLBACK_DELAY_MS = 500;
+
+// Worth retrying on the same source; everything else only has a chance on a different one
+const TRANSIENT_ERRORS: PlaybackErrorCode[] = ['network', 'timeout'];
+
+export interface RetryPlan {
+  delayMs: number;
+  sourceIndex: number;
+  // Retry number on that source, 0 when moving on to the next one
+  retry: number;
+}
+
+export function isTransientError(code: PlaybackErrorCode): boolean {
+  return TRANSIENT_ERRORS.includes(code);
+}
+
+// 2s, 4s, 8s... capped
+export function retryDelay(retryNumber: number): number {
+  return Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** retryNumber);
+}
+
+export function pickRetrySource(code: PlaybackErrorCode, sourceIndex: number, sourceCount: number): number {
+  return isTransientError(code) || sourceCount < 2 ? sourceIndex : (sourceIndex + 1) % sourceCount;
+}
+
+// Null once the last source has failed and used up its retries. A picked rendition that
+// won't play gets the source's full stream before anything moves down the list
+export function planRetry(
+  code: PlaybackErrorCode,
+  retriesOnSource: number,
+  sourceIndex: number,
+  sourceCount: number,
+  onRendition = false
+): RetryPlan | null {
+  if (onRendition && !isTransientError(code)) {
+    return { delayMs: FALLBACK_DELAY_MS, sourceIndex, retry: 0 };
+  }
+  if (isTransientError(code) && retriesOnSource < MAX_RETRIES_PER_SOURCE) {
+    return { delayMs: retryDelay(retriesOnSource), sourceIndex, retry: retriesOnSource + 1 };
+  }
+  if (sourceIndex + 1 >= sourceCount) {
+    return null;
+  }
+  return { delayMs: FALLBACK_DELAY_MS, sourceIndex: sourceIndex + 1, retry: 0 };
+}
@@ -0,0 +1,29 @@
+// -1 scrubs back, 1 scrubs forward
+export type ScrubDirection = -1 | 1;
+
+// Seconds each separate Left/Right press moves the scrub position
+export const SCRUB_STEP = 10;
+
+// How long the scrub position has to rest after a press before the seek is made
+export const SCRUB_COMMIT_DELAY = 1000;
+
+// While Left/Right is held the position moves this often, by a step that grows with the hold
+export const SCRUB_REPEAT_INTERVAL = 250;
+
+// Each step takes over once the button has been held for `after` milliseconds
+const SCRUB_ACCELERATION = [
+  { after: 0, step: 10 },
+  { after: 2000, step: 30 },
+  { after: 4000, step: 60 },
+  { after: 7000, step: 300 },
+];
+
+export function scrubStepFor(heldFor: number): number {
+  let step = SCRUB_ACCELERATION[0].step;
+  for (const stage of SCRUB_ACCELERATION) {
+    if (heldFor >= stage.after) {
+      step = stage.step;
+    }
+  }
+  return step;
+}
@@ -0,0 +1,95 @@
+import { Platform } from 'react-native';
+import { ContentType } from 'expo-video';
+import { StreamFormat, StreamSource, Video } from '@/src/types/video';
+import { Translate } from '@/src/i18n/types';
+import { hasHostFailed } from './hostHealth';
+
+export interface PlaybackCapabilities {
+  formats: StreamFormat[];
+  // Codec families as the first part of an RFC 6381 codec ("avc1", "hvc1", "mp4a")
+  codecs: string[];
+  maxHeight: number;
+}
+
+// AVPlayer has no DASH support; HEVC and Dolby audio decode on every Apple TV and recent iPhone
+const APPLE_CAPABILITIES: Omit<PlaybackCapabilities, 'maxHeight'> = {
+  formats: ['hls', 'mp4'],
+  codecs: ['avc1', 'avc3', 'hvc1', 'hev1', 'mp4a', 'ac-3', 'ec-3', 'alac', 'flac'],
+};
+
+// ExoPlayer plays all three; AV1 and Dolby audio depend on the device, so they aren't assumed
+const ANDROID_CAPABILITIES: Omit<PlaybackCapabilities, 'maxHeight'> = {
+  formats: ['hls', 'dash', 'mp4'],
+  codecs: ['avc1', 'avc3', 'hvc1', 'hev1', 'vp09', 'vp9', 'mp4a', 'opus', 'vorbis', 'flac'],
+};
+
+// The browser's own video element: HLS only plays natively in Safari, which the fall-through covers
+const WEB_CAPABILITIES: Omit<PlaybackCapabilities, 'maxHeight'> = {
+  formats: ['hls', 'mp4'],
+  codecs: ['avc1', 'avc3', 'vp09', 'vp9', 'av01', 'mp4a', 'opus', 'vorbis', 'flac'],
+};
+
+const CONTENT_TYPES: Record<StreamFormat, ContentType> = {
+  hls: 'hls',
+  dash: 'dash',
+  mp4: 'progressive',
+};
+
+export function getPlaybackCapabilities(): PlaybackCapabilities {
+  const base = Platform.select({
+    ios: APPLE_CAPABILITIES,
+    android: ANDROID_CAPABILITIES,
+    default: WEB_CAPABILITIES,
+  });
+  return { ...base, maxHeight: Platform.isTV ? 2160 : 1080 };
+}
+
+export function canPlaySource(source: StreamSource, capabilities: PlaybackCapabilities): boolean {
+  if (!capabilities.formats.includes(source.format)) {
+    return false;
+  }
+  if (!source.codecs) {
+    return true;
+  }
+  return source.codecs
+    .split(',')
+    .every((codec) => capabilities.codecs.includes(codec.trim().split('.')[0].toLowerCase()));
+}
+
+// The catalog's list, then the required hlsUrl and url for entries that predate it (or list only bad sources)
+export function listVideoSources(video: Pick<Video, 'url' | 'hlsUrl' | 'sources'>): StreamSource[] {
+  const sources: StreamSource[] = [
+    ...(video.sources ?? []),
+    { url: video.hlsUrl, format: 'hls' },
+    { url: video.url, format: 'mp4' },
+  ];
+  return sources.filter(
+    (source, index) => !!source.url && sources.findIndex((other) => other.url === source.url) === index
+  );
+}
+
+// Playable sources in catalog order, except that ones too big for the screen go after the
+// rest and ones on a host that already failed this session go last. Known-bad hosts are
+// kept as a last resort rather than dropped, in case they have recovered
+export function rankSources(
+  sources: StreamSource[],
+  capabilities: PlaybackCapabilities = getPlaybackCapabilities()
+): StreamSource[] {
+  const penalty = (source: StreamSource) =>
+    (hasHostFailed(source.url) ? 2 : 0) + ((source.height ?? 0) > capabilities.maxHeight ? 1 : 0);
+  return sources
+    .filter((source) => canPlaySource(source, capabilities))
+    .map((source) => ({ source, penalty: penalty(source) }))
+    .sort((a, b) => a.penalty - b.penalty)
+    .map(({ source }) => source);
+}
+
+export function toPlayerSource(source: StreamSource) {
+  return { uri: source.url, contentType: CONTENT_TYPES[source.format] };
+}
+
+// "HLS 1080p", or just "MP4" without a height hint
+export function formatSourceLabel(source: StreamSource, t: Translate) {
+  const format = t(`player.source.${source.format}`);
+  return source.height ? `${format} ${source.height}p` : format;
+}
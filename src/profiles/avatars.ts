@@ -0,0 +1,25 @@
+import Ionicons from '@expo/vector-icons/Ionicons';
+
+export interface ProfileAvatarOption {
+  id: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  color: string;
+}
+
+export const PROFILE_AVATARS: ProfileAvatarOption[] = [
+  { id: 'tv', icon: 'tv', color: '#5CFFCB' },
+  { id: 'rocket', icon: 'rocket', color: '#54a0ff' },
+  { id: 'paw', icon: 'paw', color: '#ff9f43' },
+  { id: 'planet', icon: 'planet', color: '#a55eea' },
+  { id: 'football', icon: 'football', color: '#ff4757' },
+  { id: 'music', icon: 'musical-notes', color: '#feca57' },
+];
+
+export const MAX_PROFILES = 5;
+
+export const MAX_PROFILE_NAME_LENGTH = 12;
+
+// Unknown ids fall back to the first avatar rather than rendering nothing
+export function getAvatar(avatarId: string): ProfileAvatarOption {
+  return PROFILE_AVATARS.find((avatar) => avatar.id === avatarId) ?? PROFILE_AVATARS[0];
+}
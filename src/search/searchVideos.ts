@@ -0,0 +1,105 @@
+import { Video } from '@/src/types/video';
+
+type SearchableField = 'title' | 'starring' | 'category' | 'description';
+
+// How much a match in each field counts towards the final score
+const FIELD_WEIGHTS: Record<SearchableField, number> = {
+  title: 4,
+  starring: 2,
+  category: 2,
+  description: 1,
+};
+
+// Quality of a single token match, before the field weight is applied
+const EXACT_WORD = 1;
+const WORD_PREFIX = 0.8;
+const SUBSTRING = 0.5;
+const MAX_SUBSEQUENCE = 0.3;
+const MIN_SUBSEQUENCE_COVERAGE = 0.6;
+
+export interface SearchResult {
+  video: Video;
+  score: number;
+}
+
+// Drops Latin accents and Arabic vowel marks and tatweel, and folds alef-maqsura into ya,
+// so "Timothee" finds "Timothée" and unvoweled Arabic finds voweled titles
+export function normalizeSearchText(text: string) {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f\u064b-\u065f\u0670\u0640]/g, '')
+    .replace(/\u0649/g, '\u064a')
+    .toLowerCase()
+    .trim();
+}
+
+function tokenize(text: string) {
+  return normalizeSearchText(text).split(/[^a-z0-9\u00c0-\uffff]+/).filter(Boolean);
+}
+
+// Scores `token` as a scattered subsequence of a word starting with the same letter,
+// which catches dropped letters ("intrstlr") without matching random prose
+function subsequenceScore(token: string, word: string) {
+  if (word[0] !== token[0] || word.length < token.length) {
+    return 0;
+  }
+
+  let position = 0;
+  for (let i = 1; i < token.length; i++) {
+    position = word.indexOf(token[i], position + 1);
+    if (position === -1) {
+      return 0;
+    }
+  }
+
+  const coverage = token.length / word.length;
+  return coverage >= MIN_SUBSEQUENCE_COVERAGE ? MAX_SUBSEQUENCE * coverage : 0;
+}
+
+function scoreToken(token: string, text: string, words: string[]) {
+  if (words.includes(token)) {
+    return EXACT_WORD;
+  }
+  if (words.some((word) => word.startsWith(token))) {
+    return WORD_PREFIX;
+  }
+  if (text.includes(token)) {
+    return SUBSTRING;
+  }
+  // Scattered matches on very short tokens are mostly noise
+  if (token.length < 3) {
+    return 0;
+  }
+  return Math.max(0, ...words.map((word) => subsequenceScore(token, word)));
+}
+
+// Searches whatever language the videos are already localized into; ties sort alphabetically in `locale`
+export function searchVideos(videos: Video[], query: string, locale?: string): SearchResult[] {
+  const tokens = tokenize(query);
+  if (tokens.length === 0) {
+    return [];
+  }
+
+  const results: SearchResult[] = [];
+
+  videos.forEach((video) => {
+    const fields = (Object.keys(FIELD_WEIGHTS) as SearchableField[]).map((field) => {
+      const text = normalizeSearchText(video[field] ?? '');
+      return { weight: FIELD_WEIGHTS[field], text, words: tokenize(text) };
+    });
+
+    let score = 0;
+    for (const token of tokens) {
+      const best = Math.max(...fields.map((field) => field.weight * scoreToken(token, field.text, field.words)));
+      // Every token has to match somewhere
+      if (best === 0) {
+        return;
+      }
+      score += best;
+    }
+
+    results.push({ video, score });
+  });
+
+  return results.sort((a, b) => b.score - a.score || a.video.title.localeCompare(b.video.title, locale));
+}
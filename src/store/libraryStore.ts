@@ -0,0 +1,99 @@
+import { useEffect, useState } from 'react';
+import { create } from 'zustand';
+import { persist, createJSONStorage, StateStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { LibraryState } from './types';
+import { createCatalogSlice } from './slices/catalogSlice';
+import { createFavoritesSlice } from './slices/favoritesSlice';
+import { createWatchProgressSlice } from './slices/watchProgressSlice';
+import { createSearchHistorySlice } from './slices/searchHistorySlice';
+import { createQueueSlice } from './slices/queueSlice';
+import { createPlayerPreferencesSlice } from './slices/playerPreferencesSlice';
+import { createParentalControlsSlice } from './slices/parentalControlsSlice';
+import { createProfilesSlice } from './slices/profilesSlice';
+
+// Watch progress was persisted on its own under this key before the shared library store
+const LEGACY_PROGRESS_KEY = 'watch-progress';
+
+function readLegacyProgress(stored: string | null): Record<string, unknown> | null {
+  try {
+    const progress = stored ? JSON.parse(stored)?.state?.progress : null;
+    return progress && typeof progress === 'object' ? progress : null;
+  } catch {
+    return null;
+  }
+}
+
+// Folds the old watch progress into the library state it's read with, and drops the old key
+// once the library has been written with it. Entries the library already has win
+let hasLegacyProgress = false;
+const libraryStorage: StateStorage = {
+  getItem: async (name) => {
+    const [stored, legacy] = await Promise.all([AsyncStorage.getItem(name), AsyncStorage.getItem(LEGACY_PROGRESS_KEY)]);
+    const legacyProgress = readLegacyProgress(legacy);
+    if (!legacyProgress) {
+      return stored;
+    }
+    hasLegacyProgress = true;
+    const library = stored ? JSON.parse(stored) : { state: {}, version: 0 };
+    library.state = { ...library.state, progress: { ...legacyProgress, ...library.state?.progress } };
+    return JSON.stringify(library);
+  },
+  setItem: async (name, value) => {
+    await AsyncStorage.setItem(name, value);
+    if (hasLegacyProgress) {
+      hasLegacyProgress = false;
+      await AsyncStorage.removeItem(LEGACY_PROGRESS_KEY);
+    }
+  },
+  removeItem: (name) => AsyncStorage.removeItem(name),
+};
+
+export const useLibraryStore = create<LibraryState>()(
+  persist(
+    (...args) => ({
+      ...createCatalogSlice(...args),
+      ...createFavoritesSlice(...args),
+      ...createWatchProgressSlice(...args),
+      ...createSearchHistorySlice(...args),
+      ...createQueueSlice(...args),
+      ...createPlayerPreferencesSlice(...args),
+      ...createParentalControlsSlice(...args),
+      ...createProfilesSlice(...args),
+    }),
+    {
+      name: 'library',
+      storage: createJSONStorage(() => libraryStorage),
+      // The catalog is always reloaded from its source, only user data is persisted
+      partialize: (state) => ({
+        favoriteIds: state.favoriteIds,
+        progress: state.progress,
+        completedAt: state.completedAt,
+        recentSearches: state.recentSearches,
+        queue: state.queue,
+        captionLanguage: state.captionLanguage,
+        captionAppearance: state.captionAppearance,
+        audioLanguage: state.audioLanguage,
+        playbackRate: state.playbackRate,
+        parentalPin: state.parentalPin,
+        maxRating: state.maxRating,
+        restrictedTitleMode: state.restrictedTitleMode,
+        profiles: state.profiles,
+        activeProfileId: state.activeProfileId,
+        profileData: state.profileData,
+      }),
+    }
+  )
+);
+
+export function useLibraryHydrated() {
+  const [hydrated, setHydrated] = useState(useLibraryStore.persist.hasHydrated());
+
+  useEffect(() => {
+    const unsubscribe = useLibraryStore.persist.onFinishHydration(() => setHydrated(true));
+    setHydrated(useLibraryStore.persist.hasHydrated());
+    return unsubscribe;
+  }, []);
+
+  return hydrated;
+}
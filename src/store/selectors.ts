@@ -0,0 +1,48 @@
+import { useMemo } from 'react';
+import { WatchProgress } from '@/src/types/video';
+import { localizeCatalog } from '@/src/catalog/localize';
+import { getDeviceLanguage } from '@/src/i18n/locales';
+import { useLibraryStore } from './libraryStore';
+import { LibraryState } from './types';
+
+export const selectFavoriteIds = (state: LibraryState) => state.favoriteIds;
+export const selectProgress = (state: LibraryState) => state.progress;
+export const selectToggleFavorite = (state: LibraryState) => state.toggleFavorite;
+export const selectActiveProfile = (state: LibraryState) =>
+  state.profiles.find((profile) => profile.id === state.activeProfileId);
+// The active profile's language, or the device's when it follows the device
+export const selectLanguage = (state: LibraryState) => selectActiveProfile(state)?.language ?? getDeviceLanguage();
+// The catalog with titles, descriptions, cast and art in the viewer's language where it has them
+export const selectVideos = (state: LibraryState) => localizeCatalog(state.videos, selectLanguage(state));
+
+export function useIsFavorite(videoId: string) {
+  return useLibraryStore((state) => state.favoriteIds.includes(videoId));
+}
+
+export function useFavoriteVideos() {
+  const videos = useLibraryStore(selectVideos);
+  const favoriteIds = useLibraryStore(selectFavoriteIds);
+
+  return useMemo(() => {
+    const videosById = new Map(videos.map((video) => [video.id, video]));
+    return favoriteIds.flatMap((id) => {
+      const video = videosById.get(id);
+      return video ? [video] : [];
+    });
+  }, [videos, favoriteIds]);
+}
+
+export function useIsQueued(videoId: string) {
+  return useLibraryStore((state) => state.queue.includes(videoId));
+}
+
+export function useWatchProgress(videoId: string) {
+  return useLibraryStore((state) => state.progress[videoId]);
+}
+
+export function getProgressFraction(entry: WatchProgress | undefined): number {
+  if (!entry || entry.duration <= 0) {
+    return 0;
+  }
+  return Math.min(1, entry.position / entry.duration);
+}
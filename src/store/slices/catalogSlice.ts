@@ -0,0 +1,138 @@
+import { getConfiguredCatalogSource } from '@/src/catalog/config';
+import { CatalogSource, CatalogSourceError } from '@/src/catalog/types';
+import { validateCatalog } from '@/src/catalog/schema';
+import { readCachedCatalog, touchCachedCatalog, writeCachedCatalog } from '@/src/catalog/catalogCache';
+import { CatalogSlice, LibrarySlice } from '../types';
+
+let catalogSource: CatalogSource | null = null;
+
+function getCatalogSource() {
+  if (!catalogSource) {
+    catalogSource = getConfiguredCatalogSource();
+  }
+  return catalogSource;
+}
+
+// Shared by every caller so overlapping loads don't race each other
+let inFlightLoad: Promise<void> | null = null;
+
+export const createCatalogSlice: LibrarySlice<CatalogSlice> = (set, get) => {
+  // Validates a payload and records the report, even when nothing usable came out of it
+  const parseCatalog = (data: unknown, source: string) => {
+    const { videos, channels, guideUrl, report } = validateCatalog(data, source);
+    set({ validationReport: report });
+
+    if (report.rejected.length > 0) {
+      console.warn(`Rejected ${report.rejected.length} of ${report.totalEntries} catalog entries, see diagnostics`);
+    }
+    if (videos.length === 0) {
+      throw new Error('No valid videos found');
+    }
+    return { videos, channels, guideUrl };
+  };
+
+  const serveCachedCatalog = async (source: CatalogSource) => {
+    const cached = await readCachedCatalog(source.description);
+    if (!cached) {
+      return;
+    }
+
+    try {
+      set({
+        ...parseCatalog(cached.data, `${source.description} (cached)`),
+        catalogEtag: cached.etag,
+        fetchedAt: cached.fetchedAt,
+        isLoading: false,
+        hasLoaded: true,
+      });
+      console.log(`Serving cached catalog fetched at ${new Date(cached.fetchedAt).toISOString()}`);
+    } catch (err) {
+      console.warn('Discarding invalid cached catalog:', err);
+    }
+  };
+
+  const revalidate = async (source: CatalogSource) => {
+    // The bundle is always available, so there is nothing worth caching
+    const usesCache = source.kind !== 'bundled';
+
+    try {
+      set({ isLoading: get().videos.length === 0, error: null });
+
+      if (usesCache && get().videos.length === 0) {
+        await serveCachedCatalog(source);
+      }
+
+      // Only offer the validator when there is a catalog to fall back on
+      const { videos, catalogEtag } = get();
+      const response = await source.load({
+        etag: videos.length > 0 ? catalogEtag : undefined,
+      });
+      const fetchedAt = Date.now();
+
+      if (response.kind === 'not-modified') {
+        console.log(`Catalog from ${source.description} unchanged`);
+        set({ fetchedAt, staleReason: null, error: null, hasLoaded: true });
+        if (usesCache) {
+          await touchCachedCatalog(source.description, fetchedAt);
+        }
+        return;
+      }
+
+      const catalog = parseCatalog(response.data, source.description);
+      console.log(`Loaded ${catalog.videos.length} valid videos from ${source.description}`);
+      set({
+        ...catalog,
+        catalogEtag: response.etag,
+        fetchedAt,
+        staleReason: null,
+        error: null,
+        hasLoaded: true,
+      });
+
+      if (usesCache) {
+        await writeCachedCatalog({
+          data: response.data,
+          etag: response.etag,
+          fetchedAt,
+          source: source.description,
+        });
+      }
+    } catch (err) {
+      if (get().videos.length > 0) {
+        // Keep showing what we have and let the home screen explain why
+        const isOffline = err instanceof CatalogSourceError && (err.code === 'network' || err.code === 'timeout');
+        set({ staleReason: isOffline ? 'offline' : 'unavailable' });
+        console.warn('Catalog revalidation failed, showing saved content:', err);
+        return;
+      }
+
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load videos. Please check your connection and try again.';
+      set({ error: errorMessage });
+      console.error('Error loading videos:', err);
+    } finally {
+      set({ isLoading: false });
+    }
+  };
+
+  return {
+    videos: [],
+    channels: [],
+    guideUrl: null,
+    catalogEtag: undefined,
+    fetchedAt: null,
+    staleReason: null,
+    validationReport: null,
+    isLoading: false,
+    hasLoaded: false,
+    error: null,
+
+    loadCatalog: () => {
+      if (!inFlightLoad) {
+        inFlightLoad = revalidate(getCatalogSource()).finally(() => {
+          inFlightLoad = null;
+        });
+      }
+      return inFlightLoad;
+    },
+  };
+};
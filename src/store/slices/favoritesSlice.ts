@@ -0,0 +1,13 @@
+import { FavoritesSlice, LibrarySlice } from '../types';
+
+export const createFavoritesSlice: LibrarySlice<FavoritesSlice> = (set) => ({
+  favoriteIds: [],
+
+  toggleFavorite: (videoId) => {
+    set((state) => ({
+      favoriteIds: state.favoriteIds.includes(videoId)
+        ? state.favoriteIds.filter((id) => id !== videoId)
+        : [...state.favoriteIds, videoId],
+    }));
+  },
+});
@@ -0,0 +1,28 @@
+import { LibrarySlice, ParentalControlsSlice } from '../types';
+import { UNLOCK_DURATION_MS } from '@/src/parental/ratings';
+
+export const createParentalControlsSlice: LibrarySlice<ParentalControlsSlice> = (set) => ({
+  parentalPin: null,
+  maxRating: null,
+  restrictedTitleMode: 'lock',
+  unlockedUntil: {},
+
+  setParentalPin: (pin) => {
+    set({ parentalPin: pin });
+  },
+
+  // Changing the limit also drops any titles unlocked under the old one
+  setMaxRating: (rating) => {
+    set({ maxRating: rating, unlockedUntil: {} });
+  },
+
+  setRestrictedTitleMode: (mode) => {
+    set({ restrictedTitleMode: mode });
+  },
+
+  unlockTitle: (videoId) => {
+    set((state) => ({
+      unlockedUntil: { ...state.unlockedUntil, [videoId]: Date.now() + UNLOCK_DURATION_MS },
+    }));
+  },
+});
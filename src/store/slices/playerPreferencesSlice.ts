@@ -0,0 +1,28 @@
+import { LibrarySlice, PlayerPreferencesSlice } from '../types';
+import { DEFAULT_CAPTION_APPEARANCE } from '@/src/captions/appearance';
+import { DEFAULT_PLAYBACK_RATE, normalizePlaybackRate } from '@/src/playback/playbackRate';
+
+export const createPlayerPreferencesSlice: LibrarySlice<PlayerPreferencesSlice> = (set) => ({
+  captionLanguage: null,
+  captionAppearance: DEFAULT_CAPTION_APPEARANCE,
+  audioLanguage: null,
+  playbackRate: DEFAULT_PLAYBACK_RATE,
+
+  setCaptionLanguage: (language) => {
+    set({ captionLanguage: language });
+  },
+
+  updateCaptionAppearance: (changes) => {
+    set((state) => ({
+      captionAppearance: { ...state.captionAppearance, ...changes },
+    }));
+  },
+
+  setAudioLanguage: (language) => {
+    set({ audioLanguage: language });
+  },
+
+  setPlaybackRate: (rate) => {
+    set({ playbackRate: normalizePlaybackRate(rate) });
+  },
+});
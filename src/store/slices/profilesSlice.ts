@@ -0,0 +1,94 @@
+import { LibraryState, LibrarySlice, ProfileData, ProfilesSlice } from '../types';
+import { Profile } from '@/src/types/profile';
+import { DEFAULT_CAPTION_APPEARANCE } from '@/src/captions/appearance';
+import { DEFAULT_PLAYBACK_RATE } from '@/src/playback/playbackRate';
+
+// Libraries saved before profiles existed load into this one
+export const DEFAULT_PROFILE: Profile = { id: 'default', name: 'Me', avatar: 'tv', isKids: false };
+
+const EMPTY_PROFILE_DATA: ProfileData = {
+  favoriteIds: [],
+  progress: {},
+  completedAt: {},
+  recentSearches: [],
+  queue: [],
+  captionLanguage: null,
+  captionAppearance: DEFAULT_CAPTION_APPEARANCE,
+  audioLanguage: null,
+  playbackRate: DEFAULT_PLAYBACK_RATE,
+};
+
+function pickProfileData(state: LibraryState): ProfileData {
+  return {
+    favoriteIds: state.favoriteIds,
+    progress: state.progress,
+    completedAt: state.completedAt,
+    recentSearches: state.recentSearches,
+    queue: state.queue,
+    captionLanguage: state.captionLanguage,
+    captionAppearance: state.captionAppearance,
+    audioLanguage: state.audioLanguage,
+    playbackRate: state.playbackRate,
+  };
+}
+
+/**
+ * The active profile's favorites, progress and preferences live in the ordinary slices, so
+ * nothing reading them needs to know about profiles. Switching swaps them with the saved copy
+ * in `profileData`. PIN unlocks are dropped too, so they never carry over to a kids profile.
+ */
+export const createProfilesSlice: LibrarySlice<ProfilesSlice> = (set) => ({
+  profiles: [DEFAULT_PROFILE],
+  activeProfileId: DEFAULT_PROFILE.id,
+  profileData: {},
+
+  addProfile: (profile) => {
+    const id = `profile-${Date.now().toString(36)}`;
+    set((state) => ({
+      profiles: [...state.profiles, { ...profile, id }],
+      profileData: { ...state.profileData, [id]: EMPTY_PROFILE_DATA },
+    }));
+    return id;
+  },
+
+  updateProfile: (profileId, changes) => {
+    set((state) => ({
+      profiles: state.profiles.map((profile) => (profile.id === profileId ? { ...profile, ...changes } : profile)),
+    }));
+  },
+
+  // The last profile can't be removed; removing the active one moves to the first left
+  removeProfile: (profileId) => {
+    set((state) => {
+      const profiles = state.profiles.filter((profile) => profile.id !== profileId);
+      if (profiles.length === 0 || profiles.length === state.profiles.length) {
+        return {};
+      }
+
+      const { [profileId]: _, ...profileData } = state.profileData;
+      if (profileId !== state.activeProfileId) {
+        return { profiles, profileData };
+      }
+
+      const next = profiles[0];
+      const { [next.id]: nextData = EMPTY_PROFILE_DATA, ...others } = profileData;
+      return { profiles, profileData: others, activeProfileId: next.id, ...nextData, unlockedUntil: {} };
+    });
+  },
+
+  switchProfile: (profileId) => {
+    set((state) => {
+      if (profileId === state.activeProfileId || !state.profiles.some((profile) => profile.id === profileId)) {
+        return {};
+      }
+
+      const { [profileId]: data = EMPTY_PROFILE_DATA, ...others } = state.profileData;
+      return {
+        profileData: { ...others, [state.activeProfileId]: pickProfileData(state) },
+        activeProfileId: profileId,
+        ...data,
+        unlockedUntil: {},
+      };
+    });
+  },
+});
@@ -0,0 +1,17 @@
+import { LibrarySlice, QueueSlice } from '../types';
+
+export const createQueueSlice: LibrarySlice<QueueSlice> = (set) => ({
+  queue: [],
+
+  addToQueue: (videoId) => {
+    set((state) => ({
+      queue: state.queue.includes(videoId) ? state.queue : [...state.queue, videoId],
+    }));
+  },
+
+  removeFromQueue: (videoId) => {
+    set((state) => ({
+      queue: state.queue.filter((id) => id !== videoId),
+    }));
+  },
+});
@@ -0,0 +1,25 @@
+import { LibrarySlice, SearchHistorySlice } from '../types';
+
+const MAX_RECENT_SEARCHES = 8;
+
+export const createSearchHistorySlice: LibrarySlice<SearchHistorySlice> = (set) => ({
+  recentSearches: [],
+
+  addRecentSearch: (query) => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      return;
+    }
+
+    set((state) => ({
+      recentSearches: [
+        trimmed,
+        ...state.recentSearches.filter((entry) => entry.toLowerCase() !== trimmed.toLowerCase()),
+      ].slice(0, MAX_RECENT_SEARCHES),
+    }));
+  },
+
+  clearRecentSearches: () => {
+    set({ recentSearches: [] });
+  },
+});
@@ -0,0 +1,42 @@
+import { LibrarySlice, WatchProgressSlice } from '../types';
+
+// Positions below this are not worth resuming from
+const MIN_RESUME_POSITION = 30;
+// Anything past this fraction of the runtime counts as finished
+const COMPLETION_THRESHOLD = 0.95;
+
+export const createWatchProgressSlice: LibrarySlice<WatchProgressSlice> = (set) => ({
+  progress: {},
+  completedAt: {},
+
+  saveProgress: (videoId, position, duration) => {
+    if (position < MIN_RESUME_POSITION) {
+      return;
+    }
+
+    set((state) => {
+      const { [videoId]: _, ...rest } = state.progress;
+      const isFinished = duration > 0 && position / duration >= COMPLETION_THRESHOLD;
+      if (isFinished) {
+        return {
+          progress: rest,
+          completedAt: { ...state.completedAt, [videoId]: Date.now() },
+        };
+      }
+
+      return {
+        progress: {
+          ...rest,
+          [videoId]: { videoId, position, duration, updatedAt: Date.now() },
+        },
+      };
+    });
+  },
+
+  clearProgress: (videoId) => {
+    set((state) => {
+      const { [videoId]: _, ...rest } = state.progress;
+      return { progress: rest };
+    });
+  },
+});
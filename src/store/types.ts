@@ -0,0 +1,121 @@
+import { StateCreator } from 'zustand';
+import { MaturityRating, Video, WatchProgress } from '@/src/types/video';
+import { Profile } from '@/src/types/profile';
+import { LiveChannel } from '@/src/types/live';
+import { CatalogValidationReport } from '@/src/catalog/schema';
+import { CaptionAppearance } from '@/src/captions/appearance';
+import { RestrictedTitleMode } from '@/src/parental/ratings';
+
+export type CatalogStaleReason = 'offline' | 'unavailable';
+
+export interface CatalogSlice {
+  videos: Video[];
+  // In channel number order
+  channels: LiveChannel[];
+  guideUrl: string | null;
+  catalogEtag?: string;
+  // When the catalog shown was last confirmed by its source
+  fetchedAt: number | null;
+  // Set when revalidation failed and a saved catalog is being shown instead
+  staleReason: CatalogStaleReason | null;
+  // Outcome of validating the most recent payload, shown on the diagnostics screen
+  validationReport: CatalogValidationReport | null;
+  isLoading: boolean;
+  hasLoaded: boolean;
+  error: string | null;
+  loadCatalog: () => Promise<void>;
+}
+
+export interface FavoritesSlice {
+  favoriteIds: string[];
+  toggleFavorite: (videoId: string) => void;
+}
+
+export interface WatchProgressSlice {
+  progress: Record<string, WatchProgress>;
+  // When each title or episode was last watched to the end, used to move series on to the next episode
+  completedAt: Record<string, number>;
+  saveProgress: (videoId: string, position: number, duration: number) => void;
+  clearProgress: (videoId: string) => void;
+}
+
+export interface SearchHistorySlice {
+  recentSearches: string[];
+  addRecentSearch: (query: string) => void;
+  clearRecentSearches: () => void;
+}
+
+export interface QueueSlice {
+  // Video ids the viewer lined up to watch next, played before anything suggested
+  queue: string[];
+  addToQueue: (videoId: string) => void;
+  removeFromQueue: (videoId: string) => void;
+}
+
+export interface PlayerPreferencesSlice {
+  // Language of the last caption track picked, null when captions are off
+  captionLanguage: string | null;
+  captionAppearance: CaptionAppearance;
+  // Language of the last audio track picked, applied whenever a stream offers it
+  audioLanguage: string | null;
+  playbackRate: number;
+  setCaptionLanguage: (language: string | null) => void;
+  updateCaptionAppearance: (changes: Partial<CaptionAppearance>) => void;
+  setAudioLanguage: (language: string | null) => void;
+  setPlaybackRate: (rate: number) => void;
+}
+
+export interface ParentalControlsSlice {
+  // Null until the viewer sets one; controls can't be switched on without it
+  parentalPin: string | null;
+  // Highest rating that plays freely, null when parental controls are off
+  maxRating: MaturityRating | null;
+  restrictedTitleMode: RestrictedTitleMode;
+  // When each title unlocked with the PIN locks again; kept for this session only
+  unlockedUntil: Record<string, number>;
+  setParentalPin: (pin: string) => void;
+  setMaxRating: (rating: MaturityRating | null) => void;
+  setRestrictedTitleMode: (mode: RestrictedTitleMode) => void;
+  unlockTitle: (videoId: string) => void;
+}
+
+// Everything kept separately for each profile
+export type ProfileData = Pick<
+  LibraryState,
+  | 'favoriteIds'
+  | 'progress'
+  | 'completedAt'
+  | 'recentSearches'
+  | 'queue'
+  | 'captionLanguage'
+  | 'captionAppearance'
+  | 'audioLanguage'
+  | 'playbackRate'
+>;
+
+export interface ProfilesSlice {
+  profiles: Profile[];
+  activeProfileId: string;
+  // Saved data of every profile but the active one, whose data lives in the slices above
+  profileData: Record<string, ProfileData>;
+  addProfile: (profile: Omit<Profile, 'id'>) => string;
+  updateProfile: (profileId: string, changes: Partial<Omit<Profile, 'id'>>) => void;
+  removeProfile: (profileId: string) => void;
+  switchProfile: (profileId: string) => void;
+}
+
+export type LibraryState = CatalogSlice &
+  FavoritesSlice &
+  WatchProgressSlice &
+  SearchHistorySlice &
+  QueueSlice &
+  PlayerPreferencesSlice &
+  ParentalControlsSlice &
+  ProfilesSlice;
+
+export type LibrarySlice<T> = StateCreator<
+  LibraryState,
+  [['zustand/persist', unknown]],
+  [],
+  T
+>;
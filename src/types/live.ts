@@ -0,0 +1,22 @@
+export interface LiveChannel {
+  id: string;
+  // Shown in the guide, and the order channel up/down goes in
+  number: number;
+  name: string;
+  logo?: string;
+  // HLS playlist of the live stream
+  streamUrl: string;
+  // The channel's id in the XMLTV guide, when it isn't the same as ours
+  guideId?: string;
+}
+
+// One show in the program guide; times are epoch milliseconds
+export interface Programme {
+  // XMLTV channel id
+  channelId: string;
+  start: number;
+  end: number;
+  title: string;
+  description?: string;
+  category?: string;
+}
@@ -0,0 +1,12 @@
+import { AppLocale } from '@/src/i18n/locales';
+
+export interface Profile {
+  id: string;
+  name: string;
+  // Id of one of PROFILE_AVATARS
+  avatar: string;
+  // Kids profiles only ever see titles rated for children
+  isKids: boolean;
+  // Left unset to follow the device language
+  language?: AppLocale;
+}
@@ -1,3 +1,6 @@
+import { PlaybackError } from '@/src/playback/playbackErrors';
+import { Programme } from '@/src/types/live';
+
 export interface Video {
   id: string;
   title: string;
@@ -7,9 +10,85 @@ export interface Video {
   duration: string;
   url: string;
   hlsUrl: string;
+  // Streams in order of preference; url and hlsUrl are still required and tried after these
+  sources?: StreamSource[];
   category: string;
   starring?: string;
+  subtitles?: SubtitleTrack[];
+  // WebVTT track of sprite sheet frames ("#xywh=" cues) shown while scrubbing
+  previewThumbnails?: string;
+  chapters?: Chapter[];
+  // Offered as Skip Intro / Skip Credits while playback is inside them
+  intro?: SkippableRange;
+  credits?: SkippableRange;
+  // Unrated titles are treated as adults-only when parental controls are on
+  maturityRating?: MaturityRating;
+  // Translations keyed by BCP 47 language tag ("ar", "pt-BR"); fields a variant leaves out use the ones above
+  localized?: Record<string, LocalizedVideoFields>;
+  // Present for series; the top-level streams are then the trailer
+  seasons?: Season[];
+}
 
+export type LocalizedVideoFields = Partial<Pick<Video, 'title' | 'description' | 'starring' | 'thumbnail' | 'hero'>>;
+
+export interface Season {
+  number: number;
+  title?: string;
+  episodes: Episode[];
+}
+
+export interface Episode {
+  // Unique across the catalog, progress and the /play route use it like a video id
+  id: string;
+  number: number;
+  title: string;
+  description?: string;
+  thumbnail?: string;
+  duration: string;
+  url: string;
+  hlsUrl: string;
+  sources?: StreamSource[];
+  subtitles?: SubtitleTrack[];
+  previewThumbnails?: string;
+  chapters?: Chapter[];
+  intro?: SkippableRange;
+  credits?: SkippableRange;
+}
+
+export type StreamFormat = 'hls' | 'dash' | 'mp4';
+
+export interface StreamSource {
+  url: string;
+  format: StreamFormat;
+  // RFC 6381 codecs ("hvc1.2.4.L153.B0,ec-3"); left out, the source is assumed to play wherever its format does
+  codecs?: string;
+  // Tallest rendition in lines, so a 4K source gives way on smaller screens
+  height?: number;
+}
+
+export interface Chapter {
+  // Seconds from the start; a chapter runs until the next one starts
+  start: number;
+  title: string;
+}
+
+export interface SkippableRange {
+  // Seconds from the start
+  start: number;
+  end: number;
+}
+
+// Minimum viewer age, from least to most restrictive
+export type MaturityRating = 'ALL' | '7+' | '13+' | '16+' | '18+';
+
+export type SubtitleFormat = 'vtt' | 'srt';
+
+export interface SubtitleTrack {
+  // BCP 47 tag such as "en" or "pt-BR", used to remember the viewer's choice across titles
+  language: string;
+  label: string;
+  url: string;
+  format: SubtitleFormat;
 }
 
 export interface PlaybackState {
@@ -17,13 +96,36 @@ export interface PlaybackState {
   currentTime: number;
   duration: number;
   isLoading: boolean;
-  error?: string;
+  // 1 is normal speed
+  playbackRate: number;
+  // Set once playback reaches the end, cleared by replaying
+  hasEnded: boolean;
+  error?: PlaybackError;
+}
+
+export interface WatchProgress {
+  videoId: string;
+  position: number;
+  duration: number;
+  updatedAt: number;
 }
 
 export interface VideoPlayerProps {
   video: Video;
+  startTime?: number;
+  // Offered in the end-of-video countdown; the post-play screen shows when there is none
+  upNext?: Video | null;
+  onPlayVideo?: (video: Video) => void;
   onClose: () => void;
   onError: (error: string) => void;
+  // Set for live channels: no duration or seeking, a LIVE badge and channel up/down
+  live?: LivePlayback;
+}
+
+export interface LivePlayback {
+  // What's on air, when the guide knows
+  programme: Programme | null;
+  onChangeChannel: (step: number) => void;
 }
 
 export interface VideoListItemProps {